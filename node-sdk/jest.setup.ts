@@ -2,5 +2,18 @@
  * Jest setup file for configuring test environment
  */
 
-// This file is intentionally empty after removing QualityCheck system
-// It's retained for compatibility in case we need to add future test setup code
\ No newline at end of file
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Use the module object itself so the spy is visible to every importer of 'os'
+const os = require('os');
+
+// Point the home directory at a throwaway location so tests never read or write
+// the real ~/.visionfi (config, job history and other local state)
+const testHome = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-test-home-'));
+const homedirSpy = jest.spyOn(os, 'homedir').mockReturnValue(testHome);
+
+afterAll(() => {
+  homedirSpy.mockRestore();
+  fs.rmSync(testHome, { recursive: true, force: true });
+});
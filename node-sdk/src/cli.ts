@@ -9,12 +9,55 @@
  */
 
 import { Command } from 'commander';
-import { loadConfig } from './utils/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  loadConfig,
+  setProfileOverride,
+  setConfigOverrides,
+  getEnvOverrides,
+  getActiveProfile,
+  DEFAULT_PROFILE,
+  CONFIG_ENV_VARS,
+  CONFIG_FLAGS
+} from './utils/config';
+import { createProfileManager } from './utils/profiles';
+import { describeRetry, parseRetryCount } from './utils/retry';
+import { formatTable } from './ui/table';
+import { createStatusLine, createStatusBlock, describePollProgress, formatDuration } from './ui/status';
+import { parseOutputFormat, isStructuredOutput, writeStructuredOutput, OutputFormat } from './ui/output';
+import { formatResults, formatResultsReport, formatSelection, parseResultsFormat } from './ui/export';
+import { formatResultsDiff } from './ui/diff';
+import { CLIConfig, ConfigCommandResult } from './types/config';
+import { AnalyzeCommandResult, BatchAnalyzeItem, BatchAnalyzeCommandResult } from './types/analyze';
+import { JobRecord } from './types/jobs';
+import { ResultsCommandResult, BulkResultsCommandResult } from './types/results';
+import { WorkflowsCommandResult } from './types/workflows';
+import { WatchJob, WatchCommandResult } from './types/watch';
+import { TestRunCommandResult } from './types/test-suite';
+import { MockServerCommandResult } from './types/mock-server';
+import { RetryAttempt } from './types/retry';
 
 // Import core functions
 import { authenticateWithApi } from './commands/auth';
-import { analyzeDocumentCore } from './commands/analyze';
-import { getResultsCore } from './commands/results';
+import { analyzeDocumentCore, analyzeBatchCore, analyzeAndWaitCore } from './commands/analyze';
+import { resumeBatchCore } from './commands/batch';
+import { getResultsCore, getBulkResultsCore, diffResultsCore } from './commands/results';
+import { listJobsCore, showJobCore, pruneJobsCore } from './commands/jobs';
+import { watchJobsCore } from './commands/watch';
+import { runTestSuiteCore } from './commands/test-suite';
+import { startMockServerCore } from './commands/mock-server';
+import {
+  showConfigCore,
+  getConfigValueCore,
+  setConfigValueCore,
+  unsetConfigValueCore,
+  listConfigKeysCore,
+  resetConfigCore
+} from './commands/config';
+import { listProfilesCore, addProfileCore, useProfileCore, removeProfileCore } from './commands/profile';
+import { listWorkflowsCore, showWorkflowCore } from './commands/workflows';
+import { clearCacheCore } from './commands/cache';
 
 // Import CLI wrappers (for backward compatibility)
 import { verifyAuth } from './commands/auth';
@@ -32,6 +75,52 @@ export function handleCommandResult(result: { success: boolean; message: string;
   }
 }
 
+/**
+ * Get the output format selected with the global --output option
+ */
+function getOutputFormat(): OutputFormat {
+  return parseOutputFormat(program.opts().output);
+}
+
+/**
+ * Print a command result in the selected output format and handle its exit code
+ * Text output uses the given printer; json/ndjson serialize the result object to stdout
+ * 
+ * @param result Command result object
+ * @param printText Printer for human-readable output
+ * @param records Per-record values written one per line with ndjson
+ */
+function outputResult<T extends { success: boolean; message: string; exitCode: number }>(
+  result: T,
+  printText: (result: T) => void,
+  records?: any[]
+): void {
+  const format = getOutputFormat();
+  
+  if (isStructuredOutput(format)) {
+    writeStructuredOutput(result, format, records);
+  } else {
+    printText(result);
+  }
+  
+  handleCommandResult(result);
+}
+
+/**
+ * Collect the values of an option that may be given several times
+ */
+function collectValues(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Report a retried API request on stderr, clearing any live status display first
+ */
+function reportRetry(retry: RetryAttempt, status?: { done: () => void }): void {
+  status?.done();
+  console.error(describeRetry(retry));
+}
+
 // Create the command program
 export const program = new Command();
 
@@ -39,7 +128,51 @@ export const program = new Command();
 program
   .name('visionfi')
   .description('VisionFi Command Line Interface')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('-o, --output <format>', 'Output format for command results: text, json or ndjson', 'text')
+  .option('-p, --profile <name>', 'Configuration profile to use (overrides VISIONFI_PROFILE)')
+  .option('--endpoint <url>', 'API endpoint to use (overrides VISIONFI_API_ENDPOINT and the config file)')
+  .option('--service-account <path>', 'Service account JSON file to use (overrides VISIONFI_SERVICE_ACCOUNT_PATH and the config file)')
+  .option('--retries <count>', 'Times to retry failed API requests (overrides VISIONFI_RETRIES and the config file)');
+
+// Validate global options before any command runs
+program.hook('preAction', (thisCommand, actionCommand) => {
+  try {
+    getOutputFormat();
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  
+  const globalOptions = program.opts();
+  const retries = parseRetryCount(globalOptions.retries);
+  if (retries === null) {
+    console.error('Invalid --retries value. Must be a whole number of 0 or more.');
+    process.exit(1);
+  }
+  
+  setProfileOverride(globalOptions.profile);
+  setConfigOverrides({
+    api_endpoint: globalOptions.endpoint,
+    service_account_path: globalOptions.serviceAccount ? path.resolve(globalOptions.serviceAccount) : undefined,
+    retries
+  });
+  
+  // Report invalid environment overrides up front instead of failing inside a command
+  try {
+    getEnvOverrides();
+  } catch (error: any) {
+    console.error(error.message);
+    process.exit(1);
+  }
+  
+  // Profile management commands work with any profile name; everything else needs an existing one
+  const profile = getActiveProfile();
+  if (actionCommand.parent?.name() !== 'profile' && profile !== DEFAULT_PROFILE && !createProfileManager().profileExists(profile)) {
+    console.error(`Profile "${profile}" does not exist. Create it with: visionfi profile add ${profile}`);
+    process.exit(1);
+  }
+});
 
 // Auth command
 const authCommand = program.command('auth')
@@ -55,14 +188,13 @@ authCommand
       const result = await authenticateWithApi(config);
       
       // Display appropriate message based on result
-      if (result.success) {
-        console.log(`Authentication successful!`);
-      } else {
-        console.log(`Authentication failed: ${result.message}`);
-      }
-      
-      // Handle exit code
-      handleCommandResult(result);
+      outputResult(result, () => {
+        if (result.success) {
+          console.log(`Authentication successful!`);
+        } else {
+          console.log(`Authentication failed: ${result.message}`);
+        }
+      });
       
       // Option 2: Use existing wrapper (for compatibility)
       // const exitCode = await verifyAuth();
@@ -77,100 +209,921 @@ authCommand
 
 // Analyze command
 program
-  .command('analyze <file>')
-  .description('Analyze a document')
+  .command('analyze <files...>')
+  .description('Analyze one or more documents (files, directories or glob patterns)')
   .requiredOption('-w, --workflow <workflow>', 'Workflow key for analysis')
-  .action(async (filePath, options) => {
+  .option('-c, --concurrency <number>', 'Maximum number of concurrent submissions when analyzing multiple files', '4')
+  .option('--wait', 'Wait for analysis results after submitting')
+  .option('--poll-interval <ms>', 'Initial polling interval in milliseconds when using --wait', '3000')
+  .option('--max-interval <ms>', 'Maximum polling interval in milliseconds as the backoff grows', '30000')
+  .option('--backoff <factor>', 'Multiplier applied to the polling interval after each attempt', '1.5')
+  .option('--timeout <seconds>', 'Stop waiting for results after this many seconds')
+  .option('--max-attempts <number>', 'Maximum number of polling attempts when using --wait (default: 10, unlimited with --timeout)')
+  .option('--out <path>', 'Write results to this file when using --wait (a directory when analyzing multiple files)')
+  .option('--skip-workflow-check', 'Submit without checking the workflow key against the workflow list')
+  .option('--max-file-size <MB>', 'Reject files larger than this many megabytes before upload (default: 50)')
+  .option('--force', 'Submit files again even if the same content was already submitted to the workflow')
+  .option('--manifest <path>', 'Record the progress of a multi-file run in this file (default: ~/.visionfi/batches/<batch>.json)')
+  .action(async (inputs: string[], options) => {
     try {
-      // Option 1: Use refactored core function
       const config = loadConfig();
-      const result = await analyzeDocumentCore(filePath, options, config);
       
-      // Display appropriate messages based on result
-      if (result.success) {
-        console.log(`Analysis successful: ${result.message}`);
-        
-        // Show UUID if available
-        if (result.uuid) {
-          console.log(`Job UUID: ${result.uuid}`);
-          console.log();
-          console.log('You can retrieve results using this UUID with:');
-          console.log(`  visionfi results ${result.uuid}`);
-        }
-      } else {
-        console.log(`Analysis failed: ${result.message}`);
+      if (options.out && !options.wait) {
+        console.error('The --out option requires --wait.');
+        process.exit(1);
       }
       
-      // Handle exit code
-      handleCommandResult(result);
+      // A single regular file keeps the original single-document output
+      if (isSingleFileInput(inputs)) {
+        await runSingleAnalysis(inputs[0], options, config);
+        return;
+      }
       
-      // Option 2: Use existing wrapper (for compatibility)
-      // await analyzeDocument(filePath, options);
+      const result = await analyzeBatchCore(inputs, options, config, {
+        onRetry: (retry) => reportRetry(retry),
+        onBatchStart: reportBatchStart
+      });
+      outputResult(result, printBatchSummary, result.items);
     } catch (error: any) {
       console.error(`Error during document analysis: ${error.message}`);
       process.exit(1);
     }
   });
 
+/**
+ * Check whether the analyze inputs name exactly one existing regular file
+ */
+function isSingleFileInput(inputs: string[]): boolean {
+  return inputs.length === 1 && fs.existsSync(inputs[0]) && fs.statSync(inputs[0]).isFile();
+}
+
+/**
+ * Submit a single document and print the outcome
+ */
+async function runSingleAnalysis(filePath: string, options: any, config: CLIConfig): Promise<void> {
+  if (options.wait) {
+    const status = createStatusLine();
+    const waitResult = await analyzeAndWaitCore(filePath, options, config, {
+      onPollProgress: (progress) => status.update(describePollProgress('Waiting for results', progress)),
+      onRetry: (retry) => reportRetry(retry, status)
+    });
+    status.done();
+    outputResult(waitResult, printAnalyzeAndWait);
+    return;
+  }
+  
+  // Option 1: Use refactored core function
+  const result = await analyzeDocumentCore(filePath, options, config, { onRetry: (retry) => reportRetry(retry) });
+  
+  // Display appropriate messages based on result
+  outputResult(result, () => {
+    if (result.success) {
+      console.log(`Analysis successful: ${result.message}`);
+      
+      // Show UUID if available
+      if (result.uuid) {
+        console.log(`Job UUID: ${result.uuid}`);
+        console.log();
+        console.log('You can retrieve results using this UUID with:');
+        console.log(`  visionfi results ${result.uuid}`);
+      }
+    } else {
+      console.log(`Analysis failed: ${result.message}`);
+    }
+  });
+  
+  // Option 2: Use existing wrapper (for compatibility)
+  // await analyzeDocument(filePath, options);
+}
+
+/**
+ * Print the outcome of a submit-and-wait analysis
+ */
+function printAnalyzeAndWait(result: AnalyzeCommandResult): void {
+  if (result.uuid) {
+    console.log(`Job UUID: ${result.uuid}${result.deduplicated ? ' (already submitted; use --force to submit again)' : ''}`);
+  }
+  
+  if (!result.success) {
+    console.log(`Analysis failed: ${result.message}`);
+    if (result.error && typeof result.error === 'object' && !(result.error instanceof Error)) {
+      console.log(JSON.stringify(result.error, null, 2));
+    }
+    return;
+  }
+  
+  if (result.status) {
+    console.log(`Status: ${result.status}`);
+  }
+  
+  if (result.outputPath) {
+    console.log(`Results written to ${result.outputPath}`);
+  } else {
+    console.log();
+    console.log(JSON.stringify(result.results, null, 2));
+  }
+}
+
+/**
+ * Print a per-file summary table for a batch analysis
+ */
+function printBatchSummary(result: BatchAnalyzeCommandResult): void {
+  if (result.items.length > 0) {
+    const rows = result.items.map(item => [
+      item.filePath,
+      item.success ? describeBatchItemStatus(item) : 'failed',
+      item.success ? (item.uuid || '') : item.message
+    ]);
+    
+    console.log(formatTable(['File', 'Status', 'Job UUID / Error'], rows));
+    console.log();
+  }
+  
+  console.log(result.message);
+  
+  if (result.failed > 0) {
+    console.log(`${result.failed} submission${result.failed !== 1 ? 's' : ''} failed.`);
+  }
+  
+  if (result.deduplicated > 0) {
+    console.log('Files already submitted to this workflow were not uploaded again. Use --force to resubmit them.');
+  }
+  
+  if (result.manifestPath && result.failed > 0) {
+    console.log(`Retry the unfinished files with: visionfi batch resume ${result.manifestPath}`);
+  }
+}
+
+/**
+ * Tell the user where batch progress is recorded, before any file is submitted
+ * Printed on stderr so the path is known even if the run is interrupted.
+ */
+function reportBatchStart(manifestPath: string, fileCount: number): void {
+  console.error(`Processing ${fileCount} file${fileCount !== 1 ? 's' : ''}; progress is recorded in ${manifestPath}`);
+  console.error(`If the run is interrupted, continue it with: visionfi batch resume ${manifestPath}`);
+}
+
+/**
+ * Describe the status of a successful batch item, marking reused jobs
+ */
+function describeBatchItemStatus(item: BatchAnalyzeItem): string {
+  if (item.skipped) {
+    return `${item.state} (earlier run)`;
+  }
+  if (!item.deduplicated) {
+    return item.status || 'submitted';
+  }
+  return item.status ? `${item.status} (reused)` : 'reused';
+}
+
+// Batch commands
+const batchCommand = program.command('batch')
+  .description('Manage multi-file analysis runs');
+
+batchCommand
+  .command('resume <manifest>')
+  .description('Continue an interrupted batch run from its manifest without resubmitting finished files')
+  .option('-c, --concurrency <number>', 'Maximum number of concurrent submissions (default: as in the original run)')
+  .action(async (manifestPath: string, options) => {
+    try {
+      const config = loadConfig();
+      const result = await resumeBatchCore(manifestPath, options, config, {
+        onRetry: (retry) => reportRetry(retry),
+        onBatchStart: (_manifestPath, fileCount) =>
+          console.error(`Resuming ${fileCount} unfinished file${fileCount !== 1 ? 's' : ''}`)
+      });
+      outputResult(result, printBatchSummary, result.items);
+    } catch (error: any) {
+      console.error(`Error resuming batch: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
 // Results command
-program
-  .command('results <uuid>')
-  .description('Get analysis results')
+const resultsCommand = program
+  .command('results [uuids...]')
+  .description('Get analysis results for one or more jobs')
   .option('--wait', 'Wait for results if not yet available')
-  .option('--poll-interval <ms>', 'Polling interval in milliseconds when using --wait', '3000')
-  .option('--max-attempts <number>', 'Maximum number of polling attempts when using --wait', '10')
-  .action(async (uuid, options) => {
+  .option('--poll-interval <ms>', 'Initial polling interval in milliseconds when using --wait', '3000')
+  .option('--max-interval <ms>', 'Maximum polling interval in milliseconds as the backoff grows', '30000')
+  .option('--backoff <factor>', 'Multiplier applied to the polling interval after each attempt', '1.5')
+  .option('--timeout <seconds>', 'Stop waiting for results after this many seconds')
+  .option('--max-attempts <number>', 'Maximum number of polling attempts when using --wait (default: 10, unlimited with --timeout)')
+  .option('--format <format>', 'Results format: json, yaml, csv, tsv or table', 'json')
+  .option('--out <file>', 'Write the formatted results to this file instead of printing them')
+  .option('--select <expression>', 'Only return the field at a JSONPath-like expression such as $.total or line_items[*].amount (repeatable)', collectValues)
+  .option('--from-file <path>', 'Also retrieve the job UUIDs listed in this file, one per line')
+  .option('--all-recent', 'Also retrieve the most recent jobs from the job history')
+  .option('--concurrency <number>', 'Maximum number of jobs fetched in parallel when retrieving several', '4')
+  .option('--cached', 'Only use results saved in the local results cache (works offline)')
+  .option('--refresh', 'Ignore the local results cache and fetch the results again')
+  .action(async (uuids: string[], options) => {
     try {
-      // Option 1: Use refactored core function
       const config = loadConfig();
-      const result = await getResultsCore(uuid, options, config);
+      
+      // Several jobs share one client and produce a combined report
+      if (uuids.length !== 1 || options.fromFile || options.allRecent) {
+        const bulkResult = await getBulkResultsCore(uuids, options, config, { onRetry: (retry) => reportRetry(retry) });
+        outputResult(bulkResult, (result) => printBulkResults(result, options), bulkResult.items);
+        return;
+      }
+      
+      // Option 1: Use refactored core function
+      const status = createStatusLine();
+      const result = await getResultsCore(uuids[0], options, config, {
+        onPollProgress: (progress) => status.update(describePollProgress('Waiting for results', progress)),
+        onRetry: (retry) => reportRetry(retry, status)
+      });
+      status.done();
       
       // Display appropriate messages based on result
-      if (result.success) {
-        if (result.results) {
-          console.log(`Results retrieved successfully!`);
-          
-          // Show status if available
-          if (result.status) {
-            console.log(`Status: ${result.status}`);
-          }
-          
+      outputResult(result, () => printResults(result, options));
+      
+      // Option 2: Use existing wrapper (for compatibility)
+      // await getResults(uuid, options);
+    } catch (error: any) {
+      console.error(`Error retrieving results: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Print a results retrieval outcome as text
+ */
+function printResults(result: ResultsCommandResult, options: { wait?: boolean; format?: string }): void {
+  if (result.success) {
+    if (result.outputPath) {
+      console.log(result.message);
+    } else if (result.selected) {
+      // Selected fields are printed bare for use in scripts
+      process.stdout.write(formatSelection(result.selected, parseResultsFormat(options.format)));
+    } else if (result.results) {
+      const format = parseResultsFormat(options.format);
+      
+      // Delimited output is printed bare so it can be redirected straight into a file
+      if (format !== 'csv' && format !== 'tsv') {
+        console.log(result.fromCache && result.cachedAt
+          ? `Results loaded from the local cache (saved ${formatTimestamp(result.cachedAt)}).`
+          : 'Results retrieved successfully!');
+        
+        // Show status if available
+        if (result.status) {
+          console.log(`Status: ${result.status}`);
+        }
+        
+        console.log();
+      }
+      process.stdout.write(formatResults(result.results, format));
+    } else {
+      // No results yet
+      if (result.status) {
+        console.log(`Status: ${result.status}`);
+      }
+      
+      console.log(`${result.message}`);
+      
+      // Show wait option hint if not already waiting
+      if (!options.wait) {
+        console.log('Try using --wait option to poll for results.');
+      }
+    }
+  } else {
+    console.log(`Failed to retrieve results: ${result.message}`);
+    
+    // Show detailed error if available
+    if (result.error && typeof result.error === 'object') {
+      console.log(JSON.stringify(result.error, null, 2));
+    }
+  }
+}
+
+/**
+ * Print a bulk results retrieval outcome as text
+ */
+function printBulkResults(result: BulkResultsCommandResult, options: { format?: string }): void {
+  if (result.items.length === 0) {
+    console.log(`Failed to retrieve results: ${result.message}`);
+    return;
+  }
+  
+  const format = parseResultsFormat(options.format);
+  if (result.outputPath) {
+    process.stdout.write(formatResultsReport(result.items, 'table'));
+    console.log();
+    console.log(`Report written to ${result.outputPath}`);
+  } else {
+    process.stdout.write(formatResultsReport(result.items, format));
+    
+    // Delimited output is printed bare so it can be redirected straight into a file
+    if (format === 'csv' || format === 'tsv') {
+      return;
+    }
+    console.log();
+  }
+  
+  console.log(result.message);
+  if (result.pending > 0) {
+    console.log(`${result.pending} job${result.pending !== 1 ? 's' : ''} still processing.`);
+  }
+  if (result.failed > 0) {
+    console.log(`${result.failed} job${result.failed !== 1 ? 's' : ''} failed.`);
+  }
+}
+
+resultsCommand
+  .command('diff <left> <right>')
+  .description('Compare the results of two jobs (each side is a job UUID or a local results JSON file)')
+  .action(async (left: string, right: string) => {
+    try {
+      const config = loadConfig();
+      const result = await diffResultsCore(left, right, config, { onRetry: (retry) => reportRetry(retry) });
+      
+      outputResult(result, () => {
+        if (result.success && result.changes && result.changes.length > 0) {
+          console.log(formatResultsDiff(result.changes));
           console.log();
-          // Pretty print the results
-          console.log(JSON.stringify(result.results, null, 2));
+        }
+        console.log(result.message);
+      }, result.changes);
+    } catch (error: any) {
+      console.error(`Error comparing results: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Jobs command
+const jobsCommand = program.command('jobs')
+  .description('Inspect the local history of submitted jobs');
+
+jobsCommand
+  .command('list')
+  .description('List submitted jobs, most recent first')
+  .option('--status <status>', 'Only show jobs with this status')
+  .option('-w, --workflow <workflow>', 'Only show jobs for this workflow')
+  .option('-n, --limit <number>', 'Maximum number of jobs to show')
+  .action((options) => {
+    try {
+      const result = listJobsCore(options);
+      
+      outputResult(result, () => {
+        if (result.success && result.jobs && result.jobs.length > 0) {
+          const rows = result.jobs.map(job => [
+            job.uuid,
+            job.file_name,
+            job.workflow_key,
+            job.status,
+            formatTimestamp(job.submitted_at)
+          ]);
+          console.log(formatTable(['Job UUID', 'File', 'Workflow', 'Status', 'Submitted'], rows));
         } else {
-          // No results yet
-          if (result.status) {
-            console.log(`Status: ${result.status}`);
-          }
-          
-          console.log(`${result.message}`);
+          console.log(result.message);
+        }
+      }, result.jobs);
+    } catch (error: any) {
+      console.error(`Error listing jobs: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+jobsCommand
+  .command('show <uuid>')
+  .description('Show details for a job (accepts a UUID prefix)')
+  .action((uuid) => {
+    try {
+      const result = showJobCore(uuid);
+      
+      outputResult(result, () => {
+        if (result.success && result.job) {
+          printJobDetails(result.job);
+        } else {
+          console.log(result.message);
           
-          // Show wait option hint if not already waiting
-          if (!options.wait) {
-            console.log('Try using --wait option to poll for results.');
+          // List candidates for an ambiguous prefix
+          if (result.jobs) {
+            result.jobs.forEach(job => console.log(`  ${job.uuid}  ${job.file_name}`));
           }
         }
-      } else {
-        console.log(`Failed to retrieve results: ${result.message}`);
-        
-        // Show detailed error if available
-        if (result.error && typeof result.error === 'object') {
-          console.log(JSON.stringify(result.error, null, 2));
+      });
+    } catch (error: any) {
+      console.error(`Error showing job: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+jobsCommand
+  .command('prune')
+  .description('Remove jobs from the local history')
+  .option('--older-than <days>', 'Remove jobs submitted more than this many days ago')
+  .option('--status <status>', 'Remove jobs with this status')
+  .option('--all', 'Remove all jobs')
+  .action((options) => {
+    try {
+      const result = pruneJobsCore(options);
+      outputResult(result, () => console.log(result.message));
+    } catch (error: any) {
+      console.error(`Error pruning jobs: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Watch command
+program
+  .command('watch [uuids...]')
+  .description('Watch jobs until they finish (defaults to unfinished jobs in the local history)')
+  .option('--interval <seconds>', 'Seconds between status checks', '5')
+  .option('--timeout <seconds>', 'Stop watching after this many seconds')
+  .option('--out-dir <dir>', 'Write each completed job\'s results to <dir>/<uuid>.json')
+  .option('--on-complete <command>', 'Shell command to run as each job finishes (job details are passed in VISIONFI_* environment variables)')
+  .option('--concurrency <number>', 'Maximum number of jobs checked in parallel', '4')
+  .action(async (uuids: string[], options) => {
+    try {
+      const config = loadConfig();
+      const status = createStatusBlock();
+      const result = await watchJobsCore(uuids, options, config, {
+        onUpdate: (jobs) => status.update(formatWatchTable(jobs, Date.now())),
+        onRetry: (retry) => reportRetry(retry, status),
+        onJobFinished: (job) => {
+          // Without a live table, report each job as it finishes
+          if (!process.stderr.isTTY) {
+            console.error(`${job.uuid}: ${job.state}${job.message ? ` (${job.message})` : ''}`);
+          }
+        }
+      });
+      status.done();
+      
+      outputResult(result, printWatchSummary, result.jobs);
+    } catch (error: any) {
+      console.error(`Error watching jobs: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Format the watched jobs as a status table
+ */
+function formatWatchTable(jobs: WatchJob[], now: number): string {
+  const rows = jobs.map(job => [
+    job.uuid,
+    job.fileName || '',
+    job.state,
+    job.status || '',
+    formatDuration((job.finishedAt || now) - job.startedAt),
+    job.message || job.outputPath || ''
+  ]);
+  return formatTable(['Job UUID', 'File', 'State', 'Status', 'Elapsed', 'Details'], rows);
+}
+
+/**
+ * Print the final state of a watch as text
+ */
+function printWatchSummary(result: WatchCommandResult): void {
+  if (result.jobs.length > 0) {
+    console.log(formatWatchTable(result.jobs, Date.now()));
+    console.log();
+  }
+  
+  console.log(result.message);
+}
+
+// Test command
+const testCommand = program.command('test')
+  .description('Run regression suites against workflows');
+
+testCommand
+  .command('run <suite>')
+  .description('Analyze each case\'s document and check its results against the expected fields')
+  .option('--junit <file>', 'Write a JUnit XML report to this file')
+  .option('--timeout <seconds>', 'Seconds to wait for each case\'s results (overrides the suite\'s timeout)')
+  .option('--concurrency <number>', 'Maximum number of cases run in parallel', '2')
+  .action(async (suitePath: string, options) => {
+    try {
+      const config = loadConfig();
+      const status = createStatusLine();
+      status.update(`Running ${suitePath}`);
+      const result = await runTestSuiteCore(suitePath, options, config, { onRetry: (retry) => reportRetry(retry, status) });
+      status.done();
+      
+      outputResult(result, printTestRun, result.cases);
+    } catch (error: any) {
+      console.error(`Error running test suite: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Print a regression suite run as text
+ */
+function printTestRun(result: TestRunCommandResult): void {
+  if (result.cases.length === 0) {
+    console.log(result.message);
+    return;
+  }
+  
+  const rows = result.cases.map(testCase => [
+    testCase.outcome.toUpperCase(),
+    testCase.name,
+    testCase.workflow,
+    formatDuration(testCase.durationMs),
+    testCase.uuid || ''
+  ]);
+  console.log(formatTable(['Result', 'Case', 'Workflow', 'Time', 'Job UUID'], rows));
+  
+  // Explain every failed expectation and error
+  const problems = result.cases.filter(testCase => testCase.outcome !== 'passed');
+  for (const testCase of problems) {
+    console.log();
+    console.log(`${testCase.name} (${testCase.file}):`);
+    testCase.failures.forEach(failure => console.log(`  ${failure}`));
+  }
+  
+  console.log();
+  console.log(result.message);
+  if (result.junitPath) {
+    console.log(`JUnit report written to ${result.junitPath}`);
+  }
+}
+
+// Config command
+const configCommand = program.command('config')
+  .description('Show and manage configuration');
+
+configCommand
+  .command('show')
+  .description('Show the configuration of the active profile')
+  .option('--resolved', 'Show the effective configuration after environment and flag overrides, with the source of each value')
+  .action((options) => {
+    try {
+      const result = showConfigCore(options);
+      outputResult(result, printConfig);
+    } catch (error: any) {
+      console.error(`Error showing configuration: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('get <key>')
+  .description('Print a configuration value')
+  .option('--resolved', 'Print the effective value after environment and flag overrides')
+  .action((key, options) => {
+    try {
+      const result = getConfigValueCore(key, options);
+      
+      outputResult(result, () => {
+        if (result.success) {
+          // Print the bare value so it can be captured in scripts
+          console.log(formatConfigValue(result.value));
+        } else {
+          console.error(result.message);
+        }
+      });
+    } catch (error: any) {
+      console.error(`Error reading configuration: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('set <key> <value>')
+  .description('Set a configuration value in the active profile')
+  .action((key, value) => {
+    try {
+      const result = setConfigValueCore(key, value);
+      outputResult(result, () => console.log(result.message));
+    } catch (error: any) {
+      console.error(`Error updating configuration: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('unset <key>')
+  .description('Restore a configuration value to its default')
+  .action((key) => {
+    try {
+      const result = unsetConfigValueCore(key);
+      outputResult(result, () => console.log(result.message));
+    } catch (error: any) {
+      console.error(`Error updating configuration: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('list')
+  .description('List configuration keys with their types and stored values')
+  .action(() => {
+    try {
+      const result = listConfigKeysCore();
+      
+      outputResult(result, () => {
+        if (result.success && result.keys) {
+          const rows = result.keys.map(item => [item.key, item.type, formatConfigValue(item.value), item.description]);
+          console.log(formatTable(['Key', 'Type', 'Value', 'Description'], rows));
+        } else {
+          console.log(result.message);
         }
+      }, result.keys);
+    } catch (error: any) {
+      console.error(`Error listing configuration: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('reset')
+  .description('Reset the active profile\'s configuration to defaults')
+  .option('-y, --yes', 'Confirm the reset')
+  .action((options) => {
+    try {
+      const result = resetConfigCore(options);
+      outputResult(result, () => console.log(result.message));
+    } catch (error: any) {
+      console.error(`Error resetting configuration: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Format a config value for text output
+ */
+function formatConfigValue(value: any): string {
+  return Array.isArray(value) ? value.join(',') : String(value);
+}
+
+/**
+ * Print configuration values, with their sources when resolved
+ */
+function printConfig(result: ConfigCommandResult): void {
+  console.log(result.message);
+  if (!result.success || !result.config) {
+    return;
+  }
+  
+  console.log();
+  const sources = result.sources;
+  const rows = Object.entries(result.config).map(([key, value]) => {
+    const row = [key, formatConfigValue(value)];
+    
+    if (sources) {
+      const source = sources[key] || 'file';
+      if (source === 'env') {
+        row.push(`env (${CONFIG_ENV_VARS[key]})`);
+      } else if (source === 'flag') {
+        row.push(`flag (${CONFIG_FLAGS[key]})`);
+      } else {
+        row.push(source);
       }
+    }
+    return row;
+  });
+  
+  console.log(formatTable(sources ? ['Key', 'Value', 'Source'] : ['Key', 'Value'], rows));
+}
+
+// Profile command
+const profileCommand = program.command('profile')
+  .description('Manage named configuration profiles');
+
+profileCommand
+  .command('list')
+  .description('List configuration profiles')
+  .action(() => {
+    try {
+      const result = listProfilesCore();
       
-      // Handle exit code
-      handleCommandResult(result);
+      outputResult(result, () => {
+        if (result.success && result.profiles) {
+          const rows = result.profiles.map(profile => [
+            `${profile.active ? '* ' : '  '}${profile.name}`,
+            profile.api_endpoint,
+            profile.service_account_path || 'Not configured'
+          ]);
+          console.log(formatTable(['Profile', 'API Endpoint', 'Service Account'], rows));
+        } else {
+          console.log(result.message);
+        }
+      }, result.profiles);
+    } catch (error: any) {
+      console.error(`Error listing profiles: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+profileCommand
+  .command('add <name>')
+  .description('Create a configuration profile')
+  .option('--endpoint <url>', 'API endpoint for the profile')
+  .option('--service-account <path>', 'Service account JSON file for the profile')
+  .option('--cache-ttl <ttl>', 'Workflow cache time, e.g. 30s, 10m, 2h')
+  .option('--use', 'Switch to the new profile')
+  .action((name, options) => {
+    try {
+      // --endpoint and --service-account are also global options, so commander may hand them to the program
+      const globalOptions = program.opts();
+      const result = addProfileCore(name, {
+        ...options,
+        endpoint: options.endpoint || globalOptions.endpoint,
+        serviceAccount: options.serviceAccount || globalOptions.serviceAccount
+      });
+      outputResult(result, () => console.log(result.message));
+    } catch (error: any) {
+      console.error(`Error adding profile: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+profileCommand
+  .command('use <name>')
+  .description('Set the active configuration profile')
+  .action((name) => {
+    try {
+      const result = useProfileCore(name);
+      outputResult(result, () => console.log(result.message));
+    } catch (error: any) {
+      console.error(`Error switching profile: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+profileCommand
+  .command('remove <name>')
+  .description('Remove a configuration profile and its job history')
+  .action((name) => {
+    try {
+      const result = removeProfileCore(name);
+      outputResult(result, () => console.log(result.message));
+    } catch (error: any) {
+      console.error(`Error removing profile: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Workflows command
+const workflowsCommand = program.command('workflows')
+  .description('Show the workflows available to your account');
+
+workflowsCommand
+  .command('list')
+  .description('List available workflows')
+  .option('--refresh', 'Fetch the list from the API even if a cached copy is fresh')
+  .action(async (options) => {
+    try {
+      const config = loadConfig();
+      const result = await listWorkflowsCore(options, config, { onRetry: (retry) => reportRetry(retry) });
       
-      // Option 2: Use existing wrapper (for compatibility)
-      // await getResults(uuid, options);
+      outputResult(result, () => {
+        if (result.success && result.workflows && result.workflows.length > 0) {
+          const rows = result.workflows.map(workflow => [workflow.workflow_key, workflow.description || '']);
+          console.log(formatTable(['Workflow Key', 'Description'], rows));
+          if (result.stale) {
+            console.log(`\nCached at ${formatTimestamp(result.cachedAt)} and expired; the cache is being refreshed for the next run.`);
+          } else if (result.fromCache) {
+            console.log(`\nCached at ${formatTimestamp(result.cachedAt)}. Use --refresh to fetch the latest list.`);
+          }
+        } else {
+          console.log(result.message);
+        }
+      }, result.workflows);
     } catch (error: any) {
-      console.error(`Error retrieving results: ${error.message}`);
+      console.error(`Error listing workflows: ${error.message}`);
       process.exit(1);
     }
   });
 
+workflowsCommand
+  .command('show <key>')
+  .description('Show details for a workflow')
+  .option('--refresh', 'Fetch the list from the API even if a cached copy is fresh')
+  .action(async (key, options) => {
+    try {
+      const config = loadConfig();
+      const result = await showWorkflowCore(key, options, config, { onRetry: (retry) => reportRetry(retry) });
+      outputResult(result, printWorkflow);
+    } catch (error: any) {
+      console.error(`Error showing workflow: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Print a workflow with any extra fields the API returns
+ */
+function printWorkflow(result: WorkflowsCommandResult): void {
+  if (!result.success || !result.workflow) {
+    console.log(result.message);
+    return;
+  }
+  
+  const { workflow_key, description, ...extra } = result.workflow;
+  console.log(`Workflow Key: ${workflow_key}`);
+  console.log(`Description: ${description || ''}`);
+  for (const [name, value] of Object.entries(extra)) {
+    console.log(`${name}: ${typeof value === 'object' && value !== null ? JSON.stringify(value) : value}`);
+  }
+}
+
+// Cache command
+const cacheCommand = program.command('cache')
+  .description('Manage locally cached data');
+
+cacheCommand
+  .command('clear')
+  .description('Remove cached workflow lists of the active profile')
+  .option('--all', 'Remove the cached workflow lists of every profile')
+  .action((options) => {
+    try {
+      const result = clearCacheCore(options);
+      outputResult(result, () => console.log(result.message));
+    } catch (error: any) {
+      console.error(`Error clearing cache: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Format an ISO timestamp for table display
+ */
+function formatTimestamp(timestamp: string | undefined): string {
+  if (!timestamp) {
+    return '';
+  }
+  
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+/**
+ * Print all recorded details of a job
+ */
+function printJobDetails(job: JobRecord): void {
+  console.log(`Job UUID: ${job.uuid}`);
+  console.log(`File: ${job.file_name}`);
+  if (job.file_path) {
+    console.log(`File Path: ${job.file_path}`);
+  }
+  console.log(`File Hash (SHA-256): ${job.file_hash}`);
+  console.log(`Workflow: ${job.workflow_key}`);
+  console.log(`API Endpoint: ${job.api_endpoint}`);
+  console.log(`Submitted: ${formatTimestamp(job.submitted_at)}`);
+  console.log(`Status: ${job.status}${job.status_updated_at ? ` (as of ${formatTimestamp(job.status_updated_at)})` : ''}`);
+  console.log(`Results: ${job.result_location || `visionfi results ${job.uuid}`}`);
+}
+
+// Mock server command
+program
+  .command('mock-server')
+  .description('Run a local mock of the VisionFi API for offline development and demos')
+  .option('--port <number>', 'Port to listen on', '8787')
+  .option('--host <host>', 'Host to bind to', '127.0.0.1')
+  .option('--config <file>', 'JSON file with route paths, canned responses and other settings')
+  .option('--latency <ms>', 'Delay added to every response, in milliseconds')
+  .option('--failure-rate <rate>', 'Fraction of requests (0-1) answered with an injected failure')
+  .option('--processing-polls <number>', 'Results checks answered as still processing before results are returned')
+  .action(async (options) => {
+    try {
+      const result = await startMockServerCore(options, {
+        onRequest: (entry) => console.error(
+          `${entry.method} ${entry.path} -> ${entry.status}` +
+          (entry.route ? ` (${entry.route}${entry.injectedFailure ? ', injected failure' : ''})` : ' (no matching route)') +
+          ` ${entry.durationMs}ms`
+        )
+      });
+      
+      outputResult(result, printMockServer);
+      
+      const stop = () => {
+        result.close?.().finally(() => process.exit(0));
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+    } catch (error: any) {
+      console.error(`Error starting mock server: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Print the mock server address and how to use it
+ */
+function printMockServer(result: MockServerCommandResult): void {
+  if (!result.success || !result.config) {
+    console.error(result.message);
+    return;
+  }
+  
+  console.log(result.message);
+  console.log();
+  console.log('Routes:');
+  console.log(formatTable(
+    ['Route', 'Method', 'Path'],
+    Object.entries(result.config.routes).map(([name, route]) => [name, route.method, route.path])
+  ));
+  console.log();
+  console.log(`Point the CLI at it with: visionfi --endpoint ${result.url} <command>`);
+  console.log('Requests are logged to stderr. Press Ctrl+C to stop.');
+}
+
 // Interactive mode (default)
 program
   .command('interactive', { isDefault: true })
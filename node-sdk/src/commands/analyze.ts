@@ -7,11 +7,21 @@ import { CLIConfig } from '../types/config';
 import { 
   AnalyzeOptions,
   AnalyzeCommandResult,
-  AnalyzeClientFactory,
-  FileSystem,
-  ConfigManager,
-  PathUtils
+  AnalyzeDependencies,
+  BatchAnalyzeOptions,
+  BatchAnalyzeItem,
+  BatchAnalyzeCommandResult
 } from '../types/analyze';
+import { BatchManifest, BatchManifestFile } from '../types/batch';
+import { createJobStore, hashFileData, findDuplicateJob, classifyJobState } from '../utils/jobs';
+import { createBatchManifest, createBatchManifestStore, isBatchFileFinished } from '../utils/batch-manifest';
+import { expandFileInputs } from '../utils/files';
+import { mapWithConcurrency, parseConcurrency } from '../utils/concurrency';
+import { getResultsCore, validatePollOptions } from './results';
+import { checkWorkflowKeyCore } from './workflows';
+import { preflightFile, parseMaxFileSize } from '../utils/preflight';
+import { withRetries } from '../utils/retry';
+import { withSession } from '../utils/session';
 
 /**
  * Core implementation for analyzing a document
@@ -27,12 +37,7 @@ export async function analyzeDocumentCore(
   filePath: string,
   options: AnalyzeOptions,
   config: CLIConfig,
-  dependencies: {
-    clientFactory?: AnalyzeClientFactory,
-    fileSystem?: FileSystem,
-    pathUtils?: PathUtils,
-    configManager?: ConfigManager
-  } = {}
+  dependencies: AnalyzeDependencies = {}
 ): Promise<AnalyzeCommandResult> {
   // Set up dependencies with defaults
   const clientFactory = dependencies.clientFactory || ((cfg) => new VisionFi(cfg));
@@ -42,6 +47,7 @@ export async function analyzeDocumentCore(
     loadConfig, 
     saveConfig 
   };
+  const jobStore = dependencies.jobStore || createJobStore();
 
   try {
     
@@ -64,10 +70,53 @@ export async function analyzeDocumentCore(
       };
     }
     
+    const maxFileSize = parseMaxFileSize(options.maxFileSize);
+    if (maxFileSize === null) {
+      return {
+        success: false,
+        message: 'Invalid --max-file-size value. Must be a positive number of megabytes.',
+        exitCode: 1
+      };
+    }
+    
+    // Check the file type, size and integrity before anything is sent
+    const preflight = preflightFile(filePath, { maxFileSize }, fileSystem);
+    if (!preflight.success || !preflight.fileData) {
+      return {
+        success: false,
+        message: preflight.message,
+        exitCode: 1
+      };
+    }
+    const fileData = preflight.fileData;
+    const fileHash = hashFileData(fileData);
+    
+    // Reuse an earlier job for the same content and workflow instead of uploading again
+    if (options.workflow && !options.force) {
+      let duplicate = null;
+      try {
+        duplicate = findDuplicateJob(jobStore, fileHash, options.workflow, config.api_endpoint);
+      } catch (err) {
+        // Ledger read failures skip the duplicate check
+      }
+      
+      if (duplicate) {
+        return {
+          success: true,
+          message: `Document already submitted as job ${duplicate.uuid} on ${duplicate.submitted_at}; reusing it. Use --force to submit it again.`,
+          exitCode: 0,
+          uuid: duplicate.uuid,
+          deduplicated: true
+        };
+      }
+    }
+    
     // Initialize client
-    const client = clientFactory({
+    const client = withSession(withRetries(clientFactory({
       serviceAccountPath: config.service_account_path,
       apiBaseUrl: config.api_endpoint
+    }), { retries: config.retries, sleep: dependencies.sleep, onRetry: dependencies.onRetry }), config, {
+      sessionStore: dependencies.sessionStore
     });
     
     
@@ -103,8 +152,19 @@ export async function analyzeDocumentCore(
     const workflowKey = options.workflow;
     
     
-    // Read file
-    const fileData = fileSystem.readFileSync(filePath);
+    // Check the workflow key before uploading the file
+    if (!options.skipWorkflowCheck) {
+      const check = await checkWorkflowKeyCore(workflowKey, config, () => client, {
+        workflowCache: dependencies.workflowCache
+      });
+      if (!check.success) {
+        return {
+          success: false,
+          message: check.message,
+          exitCode: check.exitCode
+        };
+      }
+    }
     
     
     // Submit for analysis
@@ -117,6 +177,22 @@ export async function analyzeDocumentCore(
       
       // Return result
       if (result.uuid) {
+        // Record the job in the local ledger (best-effort, never fails the submission)
+        try {
+          jobStore.recordJob({
+            uuid: result.uuid,
+            file_name: pathUtils.basename(filePath),
+            file_path: path.resolve(filePath),
+            file_hash: fileHash,
+            workflow_key: workflowKey,
+            api_endpoint: config.api_endpoint,
+            submitted_at: new Date().toISOString(),
+            status: 'submitted'
+          });
+        } catch (err) {
+          // Ledger write failures are not submission failures
+        }
+        
         return {
           success: true,
           message: 'Document submitted successfully!',
@@ -150,6 +226,407 @@ export async function analyzeDocumentCore(
   }
 }
 
+/**
+ * Core implementation for submitting a document and waiting for its results
+ * Chains analyzeDocumentCore into the polling logic of getResultsCore
+ * 
+ * @param filePath Path to the document to analyze
+ * @param options Analysis options including workflow, polling settings and output file
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object including the job status and results
+ */
+export async function analyzeAndWaitCore(
+  filePath: string,
+  options: AnalyzeOptions,
+  config: CLIConfig,
+  dependencies: AnalyzeDependencies = {}
+): Promise<AnalyzeCommandResult> {
+  // Reject invalid polling options before anything is uploaded
+  const pollError = validatePollOptions(options);
+  if (pollError) {
+    return {
+      success: false,
+      message: pollError,
+      exitCode: 1
+    };
+  }
+  
+  // Submit the document
+  const submission = await analyzeDocumentCore(filePath, options, config, dependencies);
+  if (!submission.success || !submission.uuid) {
+    return submission;
+  }
+  
+  return waitForAnalysisCore(submission, options, config, dependencies);
+}
+
+/**
+ * Core implementation for waiting for the results of a submitted document
+ * Used by analyzeAndWaitCore, and by batch runs to wait for files submitted
+ * before an interruption.
+ * 
+ * @param submission Successful submission result with the job UUID
+ * @param options Polling settings and output file
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object including the job status and results
+ */
+export async function waitForAnalysisCore(
+  submission: AnalyzeCommandResult,
+  options: AnalyzeOptions,
+  config: CLIConfig,
+  dependencies: AnalyzeDependencies = {}
+): Promise<AnalyzeCommandResult> {
+  const jobStore = dependencies.jobStore || createJobStore();
+  const uuid = submission.uuid!;
+  const reused = submission.deduplicated ? { deduplicated: true } : {};
+  
+  // Poll for results
+  const resultsOutcome = await getResultsCore(
+    uuid,
+    {
+      wait: true,
+      pollInterval: options.pollInterval,
+      maxAttempts: options.maxAttempts,
+      timeout: options.timeout,
+      maxInterval: options.maxInterval,
+      backoff: options.backoff
+    },
+    config,
+    {
+      clientFactory: dependencies.resultsClientFactory,
+      jobStore,
+      sleep: dependencies.sleep,
+      onPollProgress: dependencies.onPollProgress,
+      onRetry: dependencies.onRetry
+    }
+  );
+  
+  if (!resultsOutcome.success) {
+    return {
+      success: false,
+      message: `Document submitted (job ${uuid}), but retrieving results failed: ${resultsOutcome.message}`,
+      exitCode: resultsOutcome.exitCode || 1,
+      uuid,
+      data: submission.data,
+      ...reused,
+      status: resultsOutcome.status,
+      error: resultsOutcome.error
+    };
+  }
+  
+  if (!resultsOutcome.results) {
+    return {
+      success: false,
+      message: `Document submitted (job ${uuid}), but ${resultsOutcome.timedOut ? 'waiting for results timed out' : 'results were not available before polling stopped'}. Retrieve them later with: visionfi results ${uuid} --wait`,
+      exitCode: 1,
+      uuid,
+      data: submission.data,
+      ...reused,
+      status: resultsOutcome.status
+    };
+  }
+  
+  // Write results to disk if requested
+  const outTarget = options.out || (options.outDir ? path.join(options.outDir, `${uuid}.json`) : undefined);
+  let outputPath: string | undefined;
+  if (outTarget) {
+    try {
+      outputPath = path.resolve(outTarget);
+      fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+      fs.writeFileSync(outputPath, JSON.stringify(resultsOutcome.results, null, 2));
+    } catch (err: any) {
+      return {
+        success: false,
+        message: `Results retrieved for job ${uuid}, but writing ${outTarget} failed: ${err.message}`,
+        exitCode: 1,
+        uuid,
+        data: submission.data,
+        ...reused,
+        status: resultsOutcome.status,
+        results: resultsOutcome.results,
+        error: err
+      };
+    }
+    
+    // Remember where the results were saved (best-effort)
+    try {
+      jobStore.updateJob(uuid, { result_location: outputPath });
+    } catch (err) {
+      // Ledger write failures are ignored
+    }
+  }
+  
+  return {
+    success: true,
+    message: 'Document analyzed successfully!',
+    exitCode: 0,
+    uuid,
+    data: submission.data,
+    ...reused,
+    status: resultsOutcome.status,
+    results: resultsOutcome.results,
+    outputPath
+  };
+}
+
+/**
+ * Core implementation for analyzing many documents at once
+ * Expands files, directories and glob patterns, then submits each file
+ * through analyzeDocumentCore with bounded parallelism. Progress is recorded
+ * in a batch manifest that `visionfi batch resume` can continue from.
+ * 
+ * @param inputs File paths, directories or glob patterns
+ * @param options Analysis options including workflow and concurrency
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Batch result with one item per file, and a non-zero exit code if any submission failed
+ */
+export async function analyzeBatchCore(
+  inputs: string[],
+  options: BatchAnalyzeOptions,
+  config: CLIConfig,
+  dependencies: AnalyzeDependencies = {}
+): Promise<BatchAnalyzeCommandResult> {
+  const directoryReader = dependencies.directoryReader || fs;
+  
+  let expanded: { files: string[]; unmatched: string[] };
+  try {
+    expanded = expandFileInputs(inputs, directoryReader);
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to expand file inputs: ${err.message}`,
+      exitCode: 1,
+      items: [],
+      submitted: 0,
+      failed: 0,
+      deduplicated: 0
+    };
+  }
+  
+  // Reject invalid polling options before anything is uploaded
+  const pollError = options.wait ? validatePollOptions(options) : null;
+  if (pollError) {
+    return {
+      success: false,
+      message: pollError,
+      exitCode: 1,
+      items: [],
+      submitted: 0,
+      failed: 0,
+      deduplicated: 0
+    };
+  }
+  
+  // Check the workflow key once for the whole batch
+  let fileOptions: BatchAnalyzeOptions = options;
+  if (!options.skipWorkflowCheck && options.workflow && config.service_account_path && expanded.files.length > 0) {
+    const clientFactory = dependencies.clientFactory || ((cfg) => new VisionFi(cfg));
+    const check = await checkWorkflowKeyCore(options.workflow, config, () => withSession(withRetries(clientFactory({
+      serviceAccountPath: config.service_account_path,
+      apiBaseUrl: config.api_endpoint
+    }), { retries: config.retries, sleep: dependencies.sleep, onRetry: dependencies.onRetry }), config, {
+      sessionStore: dependencies.sessionStore
+    }), {
+      workflowCache: dependencies.workflowCache
+    });
+    if (!check.success) {
+      return {
+        success: false,
+        message: check.message,
+        exitCode: check.exitCode,
+        items: [],
+        submitted: 0,
+        failed: 0,
+        deduplicated: 0
+      };
+    }
+    fileOptions = { ...options, skipWorkflowCheck: true };
+  }
+  
+  // Record every file as pending before anything is uploaded, so an interrupted run can be resumed
+  const manifestStore = dependencies.batchManifestStore || createBatchManifestStore();
+  const manifest = createBatchManifest(expanded.files, fileOptions, config.api_endpoint, (dependencies.now || Date.now)());
+  let manifestPath: string | undefined;
+  if (expanded.files.length > 0) {
+    try {
+      manifestPath = options.manifest ? path.resolve(options.manifest) : manifestStore.defaultPath(manifest.id);
+      manifestStore.write(manifestPath, manifest);
+    } catch (err: any) {
+      return {
+        success: false,
+        message: `Cannot write batch manifest${manifestPath ? ` ${manifestPath}` : ''}: ${err.message}`,
+        exitCode: 1,
+        items: [],
+        submitted: 0,
+        failed: 0,
+        deduplicated: 0,
+        error: err
+      };
+    }
+    dependencies.onBatchStart?.(manifestPath, expanded.files.length);
+  }
+  
+  // Inputs that matched nothing are reported as failures rather than silently dropped
+  const items: BatchAnalyzeItem[] = expanded.unmatched.map(input => ({
+    filePath: input,
+    success: false,
+    message: `No files matched: ${input}`
+  }));
+  
+  if (manifestPath) {
+    items.push(...await runBatchManifestCore(manifest, manifestPath, fileOptions, config, dependencies, expanded.files));
+  }
+  
+  if (items.length === 0) {
+    return {
+      success: false,
+      message: 'No files to analyze.',
+      exitCode: 1,
+      items,
+      submitted: 0,
+      failed: 0,
+      deduplicated: 0
+    };
+  }
+  
+  return summarizeBatch(items, manifestPath);
+}
+
+/**
+ * Build the batch result from its items
+ */
+export function summarizeBatch(items: BatchAnalyzeItem[], manifestPath?: string): BatchAnalyzeCommandResult {
+  const submitted = items.filter(item => item.success).length;
+  const failed = items.length - submitted;
+  const deduplicated = items.filter(item => item.deduplicated).length;
+  const skipped = items.filter(item => item.skipped).length;
+  
+  const notes: string[] = [];
+  if (deduplicated > 0) {
+    notes.push(`${deduplicated} already submitted; existing job${deduplicated !== 1 ? 's' : ''} reused`);
+  }
+  if (skipped > 0) {
+    notes.push(`${skipped} finished in an earlier run`);
+  }
+  
+  return {
+    success: failed === 0,
+    message: `${submitted} of ${items.length} document${items.length !== 1 ? 's' : ''} submitted successfully` +
+      (notes.length > 0 ? ` (${notes.join('; ')}).` : '.'),
+    exitCode: failed === 0 ? 0 : 1,
+    items,
+    submitted,
+    failed,
+    deduplicated,
+    ...(skipped > 0 ? { skipped } : {}),
+    ...(manifestPath ? { manifestPath } : {})
+  };
+}
+
+/**
+ * Core implementation for processing the files of a batch manifest
+ * Unfinished files are submitted with bounded parallelism (files submitted
+ * before an interruption are only waited for), and each file's state is
+ * written back to the manifest as it changes. Finished files are skipped.
+ * 
+ * @param manifest Batch manifest, updated in place
+ * @param manifestPath Where the manifest is saved
+ * @param options Analysis options including workflow and concurrency
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @param labels File names shown in the items (defaults to the manifest paths)
+ * @returns One item per file in the manifest
+ */
+export async function runBatchManifestCore(
+  manifest: BatchManifest,
+  manifestPath: string,
+  options: BatchAnalyzeOptions,
+  config: CLIConfig,
+  dependencies: AnalyzeDependencies = {},
+  labels: string[] = manifest.files.map(file => file.path)
+): Promise<BatchAnalyzeItem[]> {
+  const manifestStore = dependencies.batchManifestStore || createBatchManifestStore();
+  const now = dependencies.now || Date.now;
+  const concurrency = parseConcurrency(options.concurrency);
+  
+  const record = (file: BatchManifestFile, changes: Partial<BatchManifestFile>) => {
+    Object.assign(file, changes, { updated_at: new Date(now()).toISOString() });
+    manifest.updated_at = file.updated_at!;
+    try {
+      manifestStore.write(manifestPath, manifest);
+    } catch (err) {
+      // Manifest write failures are ignored; the file is retried if the run is resumed
+    }
+  };
+  
+  const toItem = (index: number, result: AnalyzeCommandResult): BatchAnalyzeItem => {
+    const file = manifest.files[index];
+    const item: BatchAnalyzeItem = {
+      filePath: labels[index],
+      success: result.success,
+      message: result.message,
+      uuid: result.uuid,
+      status: result.status,
+      outputPath: result.outputPath,
+      state: file.state
+    };
+    if (result.deduplicated) {
+      item.deduplicated = true;
+    }
+    if (result.error) {
+      item.error = result.error;
+    }
+    return item;
+  };
+  
+  return mapWithConcurrency(manifest.files, concurrency, async (file, index) => {
+    if (isBatchFileFinished(file, options.wait)) {
+      return {
+        filePath: labels[index],
+        success: true,
+        message: `Already ${file.state} in an earlier run.`,
+        uuid: file.uuid,
+        outputPath: file.output_path,
+        state: file.state,
+        skipped: true
+      };
+    }
+    
+    let submission: AnalyzeCommandResult;
+    if (file.state === 'submitted' && file.uuid) {
+      // Submitted before the run was interrupted; only its results are still needed
+      submission = { success: true, message: 'Document submitted successfully!', exitCode: 0, uuid: file.uuid };
+    } else {
+      submission = await analyzeDocumentCore(file.path, options, config, dependencies);
+      if (!submission.success || !submission.uuid) {
+        record(file, { state: 'failed', uuid: undefined, message: submission.message });
+        return toItem(index, submission);
+      }
+      record(file, { state: 'submitted', uuid: submission.uuid, message: undefined });
+    }
+    
+    if (!options.wait) {
+      return toItem(index, submission);
+    }
+    
+    // With --out, each file's results are written into the output directory as <uuid>.json
+    const waitOptions = { ...options, out: undefined, outDir: options.out };
+    const result = await waitForAnalysisCore(submission, waitOptions, config, dependencies);
+    if (result.success) {
+      record(file, { state: 'completed', output_path: result.outputPath, message: undefined });
+    } else if (classifyJobState({ status: result.status }) === 'error') {
+      record(file, { state: 'failed', message: result.message });
+    } else {
+      // Still processing, or the results could not be fetched or saved: checked again on resume
+      record(file, { message: result.message });
+    }
+    return toItem(index, result);
+  });
+}
+
 /**
  * CLI command to analyze a document
  * Handles user interaction (console output) and process flow
@@ -1,11 +1,14 @@
 import { VisionFi } from 'visionfi';
 import { error, success, info } from '../ui/colors';
 import { loadConfig } from '../utils/config';
+import { withRetries } from '../utils/retry';
+import { withSession } from '../utils/session';
 import { CLIConfig } from '../types/config';
 import { AuthCommandResult, ClientFactory } from '../types/auth';
 
 /**
  * Core authentication logic - separated for testability
+ * Always checks with the API and saves (or ends) the authentication session
  * 
  * @param config The configuration to use
  * @param clientFactory Factory function to create API client (injectable for testing)
@@ -25,10 +28,10 @@ export async function authenticateWithApi(
   
   try {
     // Create a client instance
-    const client = clientFactory({
+    const client = withSession(withRetries(clientFactory({
       serviceAccountPath: config.service_account_path,
       apiBaseUrl: config.api_endpoint,
-    });
+    }), { retries: config.retries }), config, { force: true });
     
     // Verify authentication
     const authResult = await client.verifyAuth();
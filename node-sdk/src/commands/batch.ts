@@ -0,0 +1,80 @@
+import * as path from 'path';
+import { CLIConfig } from '../types/config';
+import { AnalyzeDependencies, BatchAnalyzeCommandResult } from '../types/analyze';
+import { BatchManifest, BatchResumeOptions } from '../types/batch';
+import { createBatchManifestStore, isBatchFileFinished } from '../utils/batch-manifest';
+import { runBatchManifestCore, summarizeBatch } from './analyze';
+
+/**
+ * Core implementation for resuming an interrupted batch run
+ * Files that already finished are skipped, files submitted before the
+ * interruption are only waited for (with --wait), and pending or failed files
+ * are submitted with the options of the original run.
+ *
+ * @param manifestPath Batch manifest written by `visionfi analyze`
+ * @param options Concurrency override
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Batch result covering every file in the manifest
+ */
+export async function resumeBatchCore(
+  manifestPath: string,
+  options: BatchResumeOptions = {},
+  config: CLIConfig,
+  dependencies: AnalyzeDependencies = {}
+): Promise<BatchAnalyzeCommandResult> {
+  const manifestStore = dependencies.batchManifestStore || createBatchManifestStore();
+  const failure = (message: string, err?: any): BatchAnalyzeCommandResult => ({
+    success: false,
+    message,
+    exitCode: 1,
+    items: [],
+    submitted: 0,
+    failed: 0,
+    deduplicated: 0,
+    ...(err ? { error: err } : {})
+  });
+
+  const resolvedPath = path.resolve(manifestPath);
+  let manifest: BatchManifest;
+  try {
+    manifest = manifestStore.read(resolvedPath);
+  } catch (err: any) {
+    return failure(err.message, err);
+  }
+
+  // Job UUIDs in the manifest only exist on the endpoint the batch was submitted to
+  if (manifest.api_endpoint !== config.api_endpoint) {
+    return failure(
+      `The batch was submitted to ${manifest.api_endpoint}, but the active endpoint is ${config.api_endpoint}. ` +
+      `Resume it with --endpoint ${manifest.api_endpoint}.`
+    );
+  }
+
+  const remaining = manifest.files.filter(file => !isBatchFileFinished(file, manifest.options.wait)).length;
+  if (remaining > 0 && !config.service_account_path) {
+    return failure('No service account configured. Run in interactive mode to set up a service account.');
+  }
+
+  // The workflow key was checked when the batch started
+  const runOptions = {
+    ...manifest.options,
+    skipWorkflowCheck: true,
+    concurrency: options.concurrency ?? manifest.options.concurrency
+  };
+
+  try {
+    if (remaining > 0) {
+      dependencies.onBatchStart?.(resolvedPath, remaining);
+    }
+    const result = summarizeBatch(
+      await runBatchManifestCore(manifest, resolvedPath, runOptions, config, dependencies),
+      resolvedPath
+    );
+    return remaining > 0
+      ? result
+      : { ...result, message: `Nothing to resume: all ${manifest.files.length} file${manifest.files.length !== 1 ? 's' : ''} in the batch are finished.` };
+  } catch (err: any) {
+    return failure(`Unexpected error: ${err.message}`, err);
+  }
+}
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CACHE_DIR, getActiveProfile } from '../utils/config';
+import { CacheClearOptions, CacheCommandResult } from '../types/cache';
+
+// Cached workflow lists, one per API endpoint (see getWorkflowCachePath)
+const WORKFLOW_CACHE_FILE = /^workflows-.*\.json$/;
+
+/**
+ * Remove the cached workflow lists in one profile's cache directory
+ * Other files there, such as the saved authentication session, are kept.
+ *
+ * @returns The number of removed files
+ */
+function clearWorkflowLists(dir: string): number {
+  if (!fs.existsSync(dir)) {
+    return 0;
+  }
+
+  const files = fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isFile() && WORKFLOW_CACHE_FILE.test(entry.name));
+  for (const file of files) {
+    fs.rmSync(path.join(dir, file.name), { force: true });
+  }
+  return files.length;
+}
+
+/**
+ * Core implementation for clearing cached workflow lists
+ * Clears the active profile's lists, or with `all` the lists of every profile
+ *
+ * @param options Whether to clear all profiles
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the number of removed files
+ */
+export function clearCacheCore(
+  options: CacheClearOptions = {},
+  dependencies: { cacheDir?: string; profileResolver?: () => string } = {}
+): CacheCommandResult {
+  const cacheDir = dependencies.cacheDir || CACHE_DIR;
+  const profileResolver = dependencies.profileResolver || getActiveProfile;
+
+  try {
+    const profile = profileResolver();
+    const profileDirs = options.all
+      ? (fs.existsSync(cacheDir) ? fs.readdirSync(cacheDir, { withFileTypes: true }) : [])
+        .filter(entry => entry.isDirectory())
+        .map(entry => path.join(cacheDir, entry.name))
+      : [path.join(cacheDir, profile)];
+    const removed = profileDirs.reduce((count, dir) => count + clearWorkflowLists(dir), 0);
+
+    return {
+      success: true,
+      message: `Removed ${removed} cached workflow list${removed !== 1 ? 's' : ''}` +
+        (options.all ? ' for all profiles.' : ` for profile "${profile}".`),
+      exitCode: 0,
+      removed
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to clear cache: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
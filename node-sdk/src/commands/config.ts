@@ -0,0 +1,371 @@
+import * as path from 'path';
+import {
+  resolveConfig,
+  writeConfigFile,
+  getActiveProfile,
+  parseBoolean,
+  DEFAULT_CONFIG,
+  CONFIG_ENV_VARS,
+  CONFIG_FLAGS
+} from '../utils/config';
+import { CONFIG_KEY_DEFINITIONS, ConfigValidationError, checkConfigValue, isConfigKey } from '../utils/config-schema';
+import { parseRetryCount } from '../utils/retry';
+import { updateConfigCore, parseWorkflowCacheTtlCore } from './interactive-core';
+import {
+  CLIConfig,
+  ConfigKey,
+  ConfigShowOptions,
+  ConfigResetOptions,
+  ConfigDependencies,
+  ConfigCommandResult
+} from '../types/config';
+
+/**
+ * Build the error result for an unknown config key
+ */
+function unknownKeyResult(key: string): ConfigCommandResult {
+  return {
+    success: false,
+    message: `Unknown config key "${key}". Valid keys: ${Object.keys(CONFIG_KEY_DEFINITIONS).join(', ')}`,
+    exitCode: 1
+  };
+}
+
+/**
+ * Describe an environment variable or flag that overrides a stored key, if any
+ */
+function describeOverride(key: string, sources: { [key: string]: string }): string | undefined {
+  if (sources[key] === 'flag') {
+    return CONFIG_FLAGS[key];
+  }
+  if (sources[key] === 'env') {
+    return CONFIG_ENV_VARS[key];
+  }
+  return undefined;
+}
+
+/**
+ * Parse a value given on the command line for a config key
+ *
+ * @param key Config key
+ * @param input Raw value
+ * @returns The typed value, or an error message
+ */
+export function parseConfigValue(key: ConfigKey, input: string): { value?: any; error?: string } {
+  const definition = CONFIG_KEY_DEFINITIONS[key];
+  const trimmed = input.trim();
+
+  switch (definition.type) {
+    case 'boolean': {
+      const value = parseBoolean(trimmed);
+      return value === undefined
+        ? { error: `Invalid value for ${key}: "${input}". Use true or false.` }
+        : { value };
+    }
+    case 'ttl': {
+      const ttlResult = parseWorkflowCacheTtlCore(trimmed);
+      return ttlResult.success
+        ? { value: ttlResult.data?.seconds }
+        : { error: `Invalid value for ${key}: ${ttlResult.message} Examples: 30s, 10m, 2h` };
+    }
+    case 'count': {
+      const count = parseRetryCount(trimmed);
+      return count === null || count === undefined
+        ? { error: `Invalid value for ${key}: "${input}". Use a whole number, e.g. 0 or 3.` }
+        : { value: count };
+    }
+    case 'list':
+      return { value: trimmed.split(',').map(item => item.trim()).filter(item => item) };
+    case 'path':
+      return trimmed ? { value: path.resolve(trimmed) } : { error: `Invalid value for ${key}: a path is required.` };
+    case 'url': {
+      const problem = checkConfigValue(key, trimmed);
+      return problem ? { error: `Invalid value for ${key}: ${problem}.` } : { value: trimmed };
+    }
+  }
+}
+
+/**
+ * Core implementation for showing the configuration
+ * Shows the stored config of the active profile, or with `resolved` the effective
+ * config after environment and flag overrides along with the source of each value
+ *
+ * @param options Whether to show the resolved configuration
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the config (and sources when resolved)
+ */
+export function showConfigCore(
+  options: ConfigShowOptions = {},
+  dependencies: ConfigDependencies = {}
+): ConfigCommandResult {
+  const configResolver = dependencies.configResolver || resolveConfig;
+  const profileResolver = dependencies.profileResolver || getActiveProfile;
+
+  try {
+    const resolved = configResolver();
+    const profile = profileResolver();
+
+    if (options.resolved) {
+      return {
+        success: true,
+        message: `Effective configuration for profile "${profile}".`,
+        exitCode: 0,
+        profile,
+        config: resolved.config,
+        sources: resolved.sources
+      };
+    }
+
+    return {
+      success: true,
+      message: `Configuration for profile "${profile}".`,
+      exitCode: 0,
+      profile,
+      config: resolved.file
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to load configuration: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for reading a single config value
+ *
+ * @param key Config key
+ * @param options Whether to read the effective (resolved) value
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the key and its value
+ */
+export function getConfigValueCore(
+  key: string,
+  options: ConfigShowOptions = {},
+  dependencies: ConfigDependencies = {}
+): ConfigCommandResult {
+  const configResolver = dependencies.configResolver || resolveConfig;
+
+  if (!isConfigKey(key)) {
+    return unknownKeyResult(key);
+  }
+
+  try {
+    const resolved = configResolver();
+    const config = options.resolved ? resolved.config : resolved.file;
+
+    return {
+      success: true,
+      message: `${key} = ${JSON.stringify(config[key])}`,
+      exitCode: 0,
+      key,
+      value: config[key]
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to load configuration: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for setting a config value in the active profile
+ * The value is parsed according to the key's type before it is saved
+ *
+ * @param key Config key
+ * @param input Value as given on the command line
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the saved value
+ */
+export function setConfigValueCore(
+  key: string,
+  input: string,
+  dependencies: ConfigDependencies = {}
+): ConfigCommandResult {
+  const configResolver = dependencies.configResolver || resolveConfig;
+  const configWriter = dependencies.configWriter || writeConfigFile;
+
+  if (!isConfigKey(key)) {
+    return unknownKeyResult(key);
+  }
+
+  const parsed = parseConfigValue(key, input);
+  if (parsed.error) {
+    return {
+      success: false,
+      message: parsed.error,
+      exitCode: 1
+    };
+  }
+
+  return saveConfigValue(key, parsed.value, configResolver, configWriter);
+}
+
+/**
+ * Core implementation for restoring a config value to its default
+ *
+ * @param key Config key
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the restored value
+ */
+export function unsetConfigValueCore(
+  key: string,
+  dependencies: ConfigDependencies = {}
+): ConfigCommandResult {
+  const configResolver = dependencies.configResolver || resolveConfig;
+  const configWriter = dependencies.configWriter || writeConfigFile;
+
+  if (!isConfigKey(key)) {
+    return unknownKeyResult(key);
+  }
+
+  return saveConfigValue(key, DEFAULT_CONFIG[key], configResolver, configWriter);
+}
+
+/**
+ * Load the stored config for editing
+ * A file whose only problems are invalid values of known keys is still returned,
+ * so `config set` can repair it.
+ */
+function loadStoredConfig(
+  configResolver: NonNullable<ConfigDependencies['configResolver']>
+): { file: CLIConfig; sources: { [key: string]: string } } {
+  try {
+    const resolved = configResolver();
+    return { file: resolved.file, sources: resolved.sources };
+  } catch (err) {
+    if (err instanceof ConfigValidationError && err.config && err.issues.every(issue => isConfigKey(issue.key))) {
+      return { file: { ...DEFAULT_CONFIG, ...err.config }, sources: {} };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Save one value to the stored config through updateConfigCore
+ * Notes when an environment variable or flag overrides the stored value
+ */
+function saveConfigValue(
+  key: ConfigKey,
+  value: any,
+  configResolver: NonNullable<ConfigDependencies['configResolver']>,
+  configWriter: NonNullable<ConfigDependencies['configWriter']>
+): ConfigCommandResult {
+  try {
+    const { file, sources } = loadStoredConfig(configResolver);
+    const result = updateConfigCore(file, key, value, {
+      configManager: { loadConfig: () => file, saveConfig: configWriter }
+    });
+
+    if (!result.success) {
+      return {
+        success: false,
+        message: result.message,
+        exitCode: 1,
+        error: result.error
+      };
+    }
+
+    const override = describeOverride(key, sources);
+    return {
+      success: true,
+      message: `Set ${key} = ${JSON.stringify(value)}` +
+        (override ? ` (currently overridden by ${override})` : ''),
+      exitCode: 0,
+      key,
+      value
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to load configuration: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for listing the available config keys
+ *
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with each key, its type, description and stored value
+ */
+export function listConfigKeysCore(
+  dependencies: ConfigDependencies = {}
+): ConfigCommandResult {
+  const configResolver = dependencies.configResolver || resolveConfig;
+
+  try {
+    const config = configResolver().file;
+    const keys = (Object.keys(CONFIG_KEY_DEFINITIONS) as ConfigKey[]).map(key => ({
+      key,
+      ...CONFIG_KEY_DEFINITIONS[key],
+      value: config[key]
+    }));
+
+    return {
+      success: true,
+      message: `${keys.length} configuration keys.`,
+      exitCode: 0,
+      keys
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to load configuration: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for resetting the active profile's config to defaults
+ * Requires confirmation so scripts cannot wipe settings by accident
+ *
+ * @param options Confirmation flag
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the reset config
+ */
+export function resetConfigCore(
+  options: ConfigResetOptions = {},
+  dependencies: ConfigDependencies = {}
+): ConfigCommandResult {
+  const configWriter = dependencies.configWriter || writeConfigFile;
+  const profileResolver = dependencies.profileResolver || getActiveProfile;
+  const profile = profileResolver();
+
+  if (!options.yes) {
+    return {
+      success: false,
+      message: `This resets all settings of profile "${profile}" to their defaults. Re-run with --yes to confirm.`,
+      exitCode: 1
+    };
+  }
+
+  try {
+    const config = { ...DEFAULT_CONFIG, recent_uuids: [] };
+    configWriter(config);
+
+    return {
+      success: true,
+      message: `Configuration for profile "${profile}" reset to defaults.`,
+      exitCode: 0,
+      profile,
+      config
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to reset configuration: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
@@ -5,5 +5,14 @@
 // Export all implemented commands
 export * from './analyze';
 export * from './auth';
+export * from './batch';
+export * from './cache';
+export * from './config';
 export * from './interactive';
-export * from './results';
\ No newline at end of file
+export * from './jobs';
+export * from './mock-server';
+export * from './profile';
+export * from './results';
+export * from './test-suite';
+export * from './watch';
+export * from './workflows';
\ No newline at end of file
@@ -14,7 +14,13 @@ import {
   InteractiveConfigManager,
   InteractiveFileSystem
 } from '../types/interactive';
+import { JobStore } from '../types/jobs';
 import { SERVICE_ACCOUNT_KEY_NAME, DEFAULT_CONFIG } from '../utils/config';
+import { createJobStore, hashFileData, describeJobStatus } from '../utils/jobs';
+import { createResultsCache, readCachedResults, cacheResults } from '../utils/results-cache';
+import { withRetries } from '../utils/retry';
+import { withSession } from '../utils/session';
+import { checkConfigValue, isConfigKey } from '../utils/config-schema';
 
 // Config paths
 const DEFAULT_CONFIG_DIR = path.join(os.homedir(), '.visionfi');
@@ -34,9 +40,11 @@ export async function initializeClientCore(
     const clientFactory = dependencies.clientFactory || ((cfg) => new VisionFi(cfg));
     
     // Initialize client with the service account
-    const client = clientFactory({
+    const client = withSession(withRetries(clientFactory({
       serviceAccountPath,
       apiBaseUrl: config.api_endpoint
+    }), { retries: config.retries }), { ...config, service_account_path: serviceAccountPath }, {
+      sessionStore: dependencies.sessionStore
     });
     
     return {
@@ -327,6 +335,7 @@ export async function analyzeDocumentCore(
   const configManager = dependencies.configManager || {
     saveConfig: (config) => require('../utils/config').saveConfig(config)
   };
+  const jobStore = dependencies.jobStore || createJobStore();
   
   if (!client) {
     return {
@@ -356,6 +365,21 @@ export async function analyzeDocumentCore(
       
       configManager.saveConfig(updatedConfig);
       
+      // Record the job in the local ledger (best-effort)
+      try {
+        jobStore.recordJob({
+          uuid,
+          file_name: fileName,
+          file_hash: hashFileData(fileData),
+          workflow_key: workflowKey,
+          api_endpoint: config.api_endpoint,
+          submitted_at: new Date().toISOString(),
+          status: 'submitted'
+        });
+      } catch (err) {
+        // Ledger write failures are not submission failures
+      }
+      
       return {
         success: true,
         message: 'Document submitted successfully',
@@ -386,12 +410,34 @@ export async function analyzeDocumentCore(
 
 /**
  * Get results for a job UUID
+ * Results saved in the local results cache are returned without contacting
+ * the API, so they can be viewed offline.
  */
 export async function getResultsCore(
   client: VisionFi | null,
-  uuid: string
+  uuid: string,
+  config: any = {},
+  dependencies: InteractiveDependencies = {}
 ): Promise<InteractiveCommandResult> {
   
+  const jobStore = dependencies.jobStore || createJobStore();
+  const resultsCache = dependencies.resultsCache || createResultsCache();
+  
+  const cached = readCachedResults(resultsCache, uuid, config.api_endpoint);
+  if (cached) {
+    return {
+      success: true,
+      message: 'Results loaded from the local cache',
+      exitCode: 0,
+      data: {
+        status: cached.status,
+        results: cached.results,
+        fromCache: true,
+        cachedAt: cached.cached_at
+      }
+    };
+  }
+  
   if (!client) {
     return {
       success: false,
@@ -403,7 +449,12 @@ export async function getResultsCore(
   try {
     const result = await client.getResults(uuid);
     
+    // Keep the ledger's last known status current
+    updateJobStatus(jobStore, uuid, result);
+    
     if (result.results) {
+      cacheResults(resultsCache, uuid, config.api_endpoint, result);
+      
       return {
         success: true,
         message: 'Results retrieved successfully',
@@ -436,6 +487,20 @@ export async function getResultsCore(
   }
 }
 
+/**
+ * Record the latest known status of a job in the ledger (best-effort)
+ */
+function updateJobStatus(jobStore: JobStore, uuid: string, result: any): void {
+  try {
+    jobStore.updateJob(uuid, {
+      status: describeJobStatus(result),
+      status_updated_at: new Date().toISOString()
+    });
+  } catch (err) {
+    // Ledger write failures are ignored
+  }
+}
+
 /**
  * Get client information
  */
@@ -494,6 +559,16 @@ export function updateConfigCore(
     saveConfig: (config) => require('../utils/config').saveConfig(config)
   };
   
+  // Never save a value the config file would be rejected for when it is loaded again
+  const problem = isConfigKey(key) ? checkConfigValue(key, value) : null;
+  if (problem) {
+    return {
+      success: false,
+      message: `Invalid value for ${key}: ${problem}.`,
+      exitCode: 1
+    };
+  }
+  
   try {
     const updatedConfig = { ...config, [key]: value };
     configManager.saveConfig(updatedConfig);
@@ -10,13 +10,20 @@ import * as fs from 'fs';
 import * as os from 'os';
 import { displayBanner } from '../ui/banner';
 import { error, success, info, title, subtitle, menuOption, warning } from '../ui/colors';
-import { loadConfig, saveConfig, SERVICE_ACCOUNT_KEY_NAME, DEFAULT_CONFIG } from '../utils/config';
+import { loadConfig, saveConfig, getActiveProfile, setProfileOverride, SERVICE_ACCOUNT_KEY_NAME, DEFAULT_CONFIG } from '../utils/config';
+import { createProfileManager } from '../utils/profiles';
 import { getExamplesFilesDir } from '../utils/files';
+import { createJobStore } from '../utils/jobs';
+import { createResultsCache, readCachedResults } from '../utils/results-cache';
+import { createWorkflowCache, getWorkflowCacheState } from '../utils/workflow-cache';
+import { preflightFile } from '../utils/preflight';
 import {
   InteractiveOptions,
   InteractiveCommandResult,
   InteractiveDependencies
 } from '../types/interactive';
+import { ProfileManager } from '../types/profiles';
+import { WorkflowCache } from '../types/workflows';
 import {
   initializeClientCore,
   verifyAuthenticationCore,
@@ -30,6 +37,7 @@ import {
   parseWorkflowCacheTtlCore,
   formatCacheTtlCore
 } from './interactive-core';
+import { pruneJobsCore } from './jobs';
 
 // Config paths
 const DEFAULT_CONFIG_DIR = path.join(os.homedir(), '.visionfi');
@@ -48,6 +56,10 @@ class VisionFiCLI {
   private _cachedWorkflows: any = null;
   private _workflowsCachedAt: number = 0;
   private _workflowCacheTtl: number;
+  private _workflowsRevalidation: Promise<void> | null = null;
+  
+  // Outcome of the last authentication check, shown in the main menu header
+  private _authCheck: { client: VisionFi; authenticated: boolean } | null = null;
   
   // Dependencies for testing
   private _dependencies: InteractiveDependencies;
@@ -319,6 +331,33 @@ class VisionFiCLI {
     }
   }
   
+  /**
+   * Check whether the current client is authenticated
+   * The result is kept until the client changes, so redrawing the menu does not
+   * verify again; API calls authenticate again on their own when rejected.
+   */
+  private async checkAuthentication(): Promise<boolean> {
+    if (!this.client) {
+      return false;
+    }
+    
+    const lastCheck = this._authCheck;
+    if (lastCheck && lastCheck.client === this.client) {
+      return lastCheck.authenticated;
+    }
+    
+    let authenticated = false;
+    try {
+      const authResult = await verifyAuthenticationCore(this.client, this._dependencies);
+      authenticated = authResult.success;
+    } catch (err) {
+      // Authentication failed, leave status as Not Authenticated
+    }
+    
+    this._authCheck = { client: this.client, authenticated };
+    return authenticated;
+  }
+  
   /**
    * Run main menu loop
    */
@@ -332,22 +371,9 @@ class VisionFiCLI {
     // Main menu loop
     let running = true;
     while (running) {
-      let authStatus = 'Not Authenticated';
-      let authColor = error;
-      
-      // Check authentication status if client is initialized
-      if (this.client) {
-        try {
-          // Try to verify authentication
-          const authResult = await verifyAuthenticationCore(this.client, this._dependencies);
-          if (authResult.success) {
-            authStatus = 'Authenticated';
-            authColor = success;
-          }
-        } catch (err) {
-          // Authentication failed, leave status as Not Authenticated
-        }
-      }
+      const authenticated = await this.checkAuthentication();
+      const authStatus = authenticated ? 'Authenticated' : 'Not Authenticated';
+      const authColor = authenticated ? success : error;
       
       // Clear screen for main menu
       ui.clearScreen();
@@ -403,12 +429,59 @@ class VisionFiCLI {
     }
   }
   
+  /**
+   * Get the on-disk workflow cache for the current endpoint
+   */
+  private getWorkflowCache(): WorkflowCache {
+    
+    const factory = this._dependencies.workflowCacheFactory || createWorkflowCache;
+    return factory(this.config.api_endpoint);
+  }
+  
+  /**
+   * Load workflows cached by an earlier session, unless they are too old to show
+   * @returns Whether a cached list was loaded
+   */
+  loadPersistedWorkflows(): boolean {
+    
+    const entry = this.getWorkflowCache().read();
+    const state = getWorkflowCacheState(entry?.cached_at, this._workflowCacheTtl, Date.now());
+    
+    if (!entry || (state !== 'fresh' && state !== 'stale')) {
+      return false;
+    }
+    
+    this._cachedWorkflows = { success: true, data: entry.workflows };
+    this._workflowsCachedAt = entry.cached_at;
+    
+    if (this.config.debug_mode) {
+      console.log(info(`Loaded ${entry.workflows.length} workflows from the workflow cache.`));
+    }
+    return true;
+  }
+  
   /**
    * Get workflows with caching
+   * An expired list is returned right away while a fresh one is fetched in the background.
    * @param forceRefresh Force refresh of cache
    */
   async getCachedWorkflows(forceRefresh = false): Promise<any> {
     
+    if (!forceRefresh) {
+      if (this._cachedWorkflows === null) {
+        this.loadPersistedWorkflows();
+      }
+      
+      const state = this._cachedWorkflows === null
+        ? 'missing'
+        : getWorkflowCacheState(this._workflowsCachedAt, this._workflowCacheTtl, Date.now());
+      
+      if (state === 'stale') {
+        this.revalidateWorkflows();
+        return this._cachedWorkflows;
+      }
+    }
+    
     const result = await getWorkflowsCore(
       this.client,
       forceRefresh,
@@ -424,6 +497,10 @@ class VisionFiCLI {
         this._cachedWorkflows = result.data?.workflows;
         this._workflowsCachedAt = result.data?.cachedAt;
         
+        if (this._cachedWorkflows?.success) {
+          this.persistWorkflows();
+        }
+        
         if (this.config.debug_mode) {
           if (this._cachedWorkflows?.success) {
             const count = this._cachedWorkflows.data ? this._cachedWorkflows.data.length : 0;
@@ -442,6 +519,40 @@ class VisionFiCLI {
     return this._cachedWorkflows;
   }
   
+  /**
+   * Refresh the workflow list in the background, once at a time
+   */
+  private revalidateWorkflows(): void {
+    
+    if (this._workflowsRevalidation) {
+      return;
+    }
+    
+    this._workflowsRevalidation = this.getCachedWorkflows(true)
+      .catch(() => undefined)
+      .then(() => {
+        this._workflowsRevalidation = null;
+      });
+  }
+  
+  /**
+   * Save the cached workflows for later sessions (best-effort)
+   */
+  private persistWorkflows(): void {
+    
+    try {
+      this.getWorkflowCache().write({
+        api_endpoint: this.config.api_endpoint,
+        cached_at: this._workflowsCachedAt,
+        workflows: this._cachedWorkflows?.data || []
+      });
+    } catch (err: any) {
+      if (this.config.debug_mode) {
+        console.log(warning(`Failed to save workflow cache: ${err.message}`));
+      }
+    }
+  }
+  
   /**
    * Clear the workflow cache
    */
@@ -449,6 +560,12 @@ class VisionFiCLI {
     
     this._cachedWorkflows = null;
     this._workflowsCachedAt = 0;
+    
+    try {
+      this.getWorkflowCache().clear();
+    } catch (err: any) {
+      console.log(warning(`Failed to remove the cached workflow list: ${err.message}`));
+    }
     console.log(success('Workflow cache cleared.'));
   }
   
@@ -488,7 +605,8 @@ class VisionFiCLI {
     
     const fileSystem = this._dependencies.fileSystem || {
       existsSync: (path) => fs.existsSync(path),
-      readFileSync: (path) => fs.readFileSync(path)
+      readFileSync: (path) => fs.readFileSync(path),
+      statSync: (path) => fs.statSync(path)
     };
     
     if (!this.client) {
@@ -498,7 +616,7 @@ class VisionFiCLI {
     }
     
     // Check if we need to fetch workflows for the first time
-    const isFirstLoad = this._cachedWorkflows === null;
+    const isFirstLoad = this._cachedWorkflows === null && !this.loadPersistedWorkflows();
     
     if (isFirstLoad) {
       // First-time loading needs to fetch workflows - show a clear loading message
@@ -622,10 +740,16 @@ class VisionFiCLI {
           }
           
           if (filePath && fileSystem.existsSync(filePath)) {
-            console.log(info(`Analyzing document with workflow: ${workflowKey}`));
+            // Check the file type, size and integrity before uploading
+            const preflight = preflightFile(filePath, {}, fileSystem);
+            if (!preflight.success || !preflight.fileData) {
+              console.log(error(preflight.message));
+              await ui.prompt([{ type: 'input', name: 'continue', message: 'Press Enter to continue...' }]);
+              return;
+            }
+            const fileData = preflight.fileData;
             
-            // Read file
-            const fileData = fileSystem.readFileSync(filePath);
+            console.log(info(`Analyzing document with workflow: ${workflowKey}`));
             
             // Submit for analysis
             try {
@@ -675,10 +799,16 @@ class VisionFiCLI {
           const filePath = pathInput.filePath.trim().replace(/^~/, os.homedir());
           
           if (fileSystem.existsSync(filePath)) {
-            console.log(info(`Analyzing document with workflow: ${workflowKey}`));
+            // Check the file type, size and integrity before uploading
+            const preflight = preflightFile(filePath, {}, fileSystem);
+            if (!preflight.success || !preflight.fileData) {
+              console.log(error(preflight.message));
+              await ui.prompt([{ type: 'input', name: 'continue', message: 'Press Enter to continue...' }]);
+              return;
+            }
+            const fileData = preflight.fileData;
             
-            // Read file
-            const fileData = fileSystem.readFileSync(filePath);
+            console.log(info(`Analyzing document with workflow: ${workflowKey}`));
             
             // Submit for analysis
             try {
@@ -736,12 +866,6 @@ class VisionFiCLI {
       clearScreen: () => console.clear()
     };
     
-    if (!this.client) {
-      console.log(error('Client not initialized. Please configure a service account first.'));
-      await ui.prompt([{ type: 'input', name: 'continue', message: 'Press Enter to continue...' }]);
-      return;
-    }
-    
     ui.clearScreen();
     displayBanner();
     
@@ -749,15 +873,19 @@ class VisionFiCLI {
     console.log(subtitle('Get analysis results by job UUID'));
     console.log();
     
-    // Show recent UUIDs
-    let choices = [];
-    if (this.config.recent_uuids && this.config.recent_uuids.length > 0) {
-      console.log(subtitle('Recent job UUIDs:'));
-      for (let i = 0; i < this.config.recent_uuids.length; i++) {
-        const uuid = this.config.recent_uuids[i];
-        console.log(menuOption(String(i + 1), uuid));
-        choices.push({ name: uuid, value: uuid });
-      }
+    // Without a client only results saved in the local cache can be shown
+    if (!this.client) {
+      console.log(warning('Client not initialized. Only cached results are available.'));
+      console.log();
+    }
+    
+    // Show recent jobs
+    const recentJobs = this.getRecentJobs();
+    if (recentJobs.length > 0) {
+      console.log(subtitle('Recent jobs:'));
+      recentJobs.forEach((job, i) => {
+        console.log(menuOption(String(i + 1), job.label));
+      });
       console.log();
     } else {
       console.log(info('No recent jobs found.'));
@@ -799,8 +927,8 @@ class VisionFiCLI {
       // Try to parse choice as a number
       try {
         const index = parseInt(input) - 1;
-        if (index >= 0 && index < this.config.recent_uuids.length) {
-          uuid = this.config.recent_uuids[index];
+        if (index >= 0 && index < recentJobs.length) {
+          uuid = recentJobs[index].uuid;
         } else {
           console.log(warning('Invalid choice.'));
         }
@@ -814,7 +942,7 @@ class VisionFiCLI {
         console.log(info(`Retrieving results for job: ${uuid}`));
         
         // Get results
-        const result = await getResultsCore(this.client, uuid);
+        const result = await getResultsCore(this.client, uuid, this.config, this._dependencies);
         
         console.log();
         if (result.data?.status) {
@@ -822,7 +950,9 @@ class VisionFiCLI {
         }
         
         if (result.success && result.data?.results) {
-          console.log(success('Results retrieved successfully!'));
+          console.log(success(result.data.fromCache
+            ? `Results loaded from the local cache (saved ${result.data.cachedAt}).`
+            : 'Results retrieved successfully!'));
           console.log();
           
           // Pretty print the results
@@ -847,6 +977,33 @@ class VisionFiCLI {
     ]);
   }
   
+  /**
+   * Get the most recent jobs for the results menu
+   * Reads the local job ledger, falling back to recent UUIDs saved by older versions
+   */
+  getRecentJobs(limit = 10): Array<{ uuid: string; label: string }> {
+    
+    const jobStore = this._dependencies.jobStore || createJobStore();
+    const resultsCache = this._dependencies.resultsCache || createResultsCache();
+    
+    try {
+      const jobs = jobStore.listJobs().slice(0, limit);
+      if (jobs.length > 0) {
+        return jobs.map(job => ({
+          uuid: job.uuid,
+          label: `${job.uuid}  ${job.file_name} (${job.workflow_key}) - ${job.status}` +
+            (readCachedResults(resultsCache, job.uuid, this.config.api_endpoint) ? ' [cached]' : '')
+        }));
+      }
+    } catch (err: any) {
+      if (this.config.debug_mode) {
+        console.log(warning(`Failed to read job history: ${err.message}`));
+      }
+    }
+    
+    return (this.config.recent_uuids || []).slice(0, limit).map((uuid: string) => ({ uuid, label: uuid }));
+  }
+  
   /**
    * Show configuration menu
    */
@@ -874,8 +1031,11 @@ class VisionFiCLI {
     console.log(subtitle('Manage service account and API settings'));
     console.log();
     
+    const profileManager = this._dependencies.profileManager || createProfileManager();
+    
     // Current settings
     console.log(subtitle('Current Settings:'));
+    console.log(`Profile: ${info(profileManager.getActiveProfile())}`);
     console.log(`Service Account: ${info(this.config.service_account_path || 'Not configured')}`);
     console.log(`API Endpoint: ${info(this.config.api_endpoint)}`);
     console.log(`Default Key Location: ${defaultKeyExists ? success('Found') : warning('Not found')} (${defaultKeyPath})`);
@@ -897,9 +1057,10 @@ class VisionFiCLI {
     console.log(menuOption('4', 'Set API Endpoint'));
     console.log(menuOption('5', 'Test Authentication'));
     console.log(menuOption('6', 'Get Client Info'));
-    console.log(menuOption('7', 'Clear Recent UUIDs'));
+    console.log(menuOption('7', 'Clear Job History'));
     console.log(menuOption('8', 'Clear Workflow Cache'));
     console.log(menuOption('9', 'Set Workflow Cache Time'));
+    console.log(menuOption('p', 'Switch Profile'));
     console.log();
     console.log(menuOption('b', 'Back to Main Menu'));
     console.log();
@@ -1068,6 +1229,7 @@ class VisionFiCLI {
         console.log(error('Client not initialized. Please configure a service account first.'));
       } else {
         const authResult = await verifyAuthenticationCore(this.client, this._dependencies);
+        this._authCheck = { client: this.client, authenticated: authResult.success };
         
         if (authResult.success) {
           console.log(success('Authentication successful!'));
@@ -1080,28 +1242,26 @@ class VisionFiCLI {
       await this.showClientInfo();
       return; // Skip the "Press Enter to continue" at the end
     } else if (choice === '7') {
-      // Clear Recent UUIDs
+      // Clear Job History (the recent jobs menu also falls back to recent UUIDs saved by older versions)
       const confirm = await ui.prompt([
         {
           type: 'input',
           name: 'confirm',
-          message: 'Are you sure you want to clear recent UUIDs? (y/n):',
+          message: 'Are you sure you want to clear the job history? (y/n):',
         }
       ]);
       
       if (confirm.confirm.trim().toLowerCase() === 'y') {
-        const result = updateConfigCore(
-          this.config,
-          'recent_uuids',
-          [],
-          this._dependencies
-        );
+        const pruneResult = pruneJobsCore({ all: true }, { jobStore: this._dependencies.jobStore });
+        const result = pruneResult.success
+          ? updateConfigCore(this.config, 'recent_uuids', [], this._dependencies)
+          : null;
         
-        if (result.success) {
+        if (result?.success) {
           this.config = result.data?.config || this.config;
-          console.log(success('Recent UUIDs cleared.'));
+          console.log(success(pruneResult.message));
         } else {
-          console.log(error(result.message));
+          console.log(error(result ? result.message : pruneResult.message));
         }
       }
     } else if (choice === '8') {
@@ -1144,6 +1304,9 @@ class VisionFiCLI {
       } else {
         console.log(error(parseResult.message));
       }
+    } else if (choice === 'p') {
+      // Switch Profile
+      await this.switchProfile(profileManager);
     } else {
       console.log(warning('Invalid choice.'));
     }
@@ -1157,6 +1320,81 @@ class VisionFiCLI {
     ]);
   }
   
+  /**
+   * Prompt for a profile and switch to it
+   * Reloads the profile's config and re-initializes the client
+   * @param profileManager Profile storage
+   */
+  async switchProfile(profileManager: ProfileManager): Promise<void> {
+    
+    const ui = this._dependencies.ui || {
+      prompt: (questions) => inquirer.prompt(questions),
+      clearScreen: () => console.clear()
+    };
+    
+    const configManager = this._dependencies.configManager || {
+      loadConfig: () => loadConfig(),
+      saveConfig: (config) => saveConfig(config)
+    };
+    
+    const profiles = profileManager.listProfiles();
+    
+    console.log();
+    console.log(subtitle('Profiles:'));
+    profiles.forEach((profile, index) => {
+      const label = `${profile.name} (${profile.api_endpoint})${profile.active ? ' - active' : ''}`;
+      console.log(menuOption(String(index + 1), label));
+    });
+    console.log();
+    
+    const profileInput = await ui.prompt([
+      {
+        type: 'input',
+        name: 'profile',
+        message: 'Select a profile number or name:',
+      }
+    ]);
+    
+    const selection = profileInput.profile.trim();
+    if (!selection) {
+      return;
+    }
+    
+    const index = parseInt(selection, 10);
+    const selected = !isNaN(index) && String(index) === selection
+      ? profiles[index - 1]
+      : profiles.find(profile => profile.name === selection);
+    
+    if (!selected) {
+      console.log(error(`Profile "${selection}" does not exist. Create it with: visionfi profile add ${selection}`));
+      return;
+    }
+    
+    // Load the profile's config before persisting the choice, so a broken profile never becomes active
+    const previousProfile = getActiveProfile();
+    setProfileOverride(selected.name);
+    
+    let config: any;
+    try {
+      config = configManager.loadConfig();
+    } catch (err: any) {
+      setProfileOverride(previousProfile);
+      console.log(warning(`Cannot switch to profile "${selected.name}": ${err.message}`));
+      return;
+    }
+    
+    // Persist the choice and use it for the rest of this session
+    profileManager.setActiveProfile(selected.name);
+    this.config = config;
+    this._workflowCacheTtl = this.config.workflow_cache_ttl;
+    this._cachedWorkflows = null;
+    this._workflowsCachedAt = 0;
+    this.client = null;
+    await this.initializeClient();
+    
+    console.log(success(`Switched to profile "${selected.name}".`));
+  }
+  
   /**
    * Display client account information
    */
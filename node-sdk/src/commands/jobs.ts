@@ -0,0 +1,203 @@
+import { createJobStore } from '../utils/jobs';
+import {
+  JobRecord,
+  JobStore,
+  JobsListOptions,
+  JobsPruneOptions,
+  JobsCommandResult
+} from '../types/jobs';
+
+/**
+ * Core implementation for listing jobs from the local ledger
+ *
+ * @param options Filters for status, workflow and result count
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the matching jobs, most recent first
+ */
+export function listJobsCore(
+  options: JobsListOptions = {},
+  dependencies: { jobStore?: JobStore } = {}
+): JobsCommandResult {
+  const jobStore = dependencies.jobStore || createJobStore();
+
+  const limit = typeof options.limit === 'string' ? Number(options.limit) : options.limit;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    return {
+      success: false,
+      message: 'Invalid --limit value. Must be a positive whole number.',
+      exitCode: 1
+    };
+  }
+
+  try {
+    let jobs = jobStore.listJobs();
+
+    if (options.status) {
+      const status = options.status.toLowerCase();
+      jobs = jobs.filter(job => job.status.toLowerCase() === status);
+    }
+
+    if (options.workflow) {
+      jobs = jobs.filter(job => job.workflow_key === options.workflow);
+    }
+
+    if (limit !== undefined) {
+      jobs = jobs.slice(0, limit);
+    }
+
+    return {
+      success: true,
+      message: jobs.length > 0 ? `Found ${jobs.length} job${jobs.length !== 1 ? 's' : ''}.` : 'No jobs found.',
+      exitCode: 0,
+      jobs
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to read job history: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for showing a single job
+ * Accepts a full UUID or an unambiguous UUID prefix
+ *
+ * @param uuid Job UUID or prefix
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the job record
+ */
+export function showJobCore(
+  uuid: string,
+  dependencies: { jobStore?: JobStore } = {}
+): JobsCommandResult {
+  const jobStore = dependencies.jobStore || createJobStore();
+
+  if (!uuid) {
+    return {
+      success: false,
+      message: 'No job UUID specified.',
+      exitCode: 1
+    };
+  }
+
+  try {
+    const exact = jobStore.getJob(uuid);
+    if (exact) {
+      return {
+        success: true,
+        message: 'Job found.',
+        exitCode: 0,
+        job: exact
+      };
+    }
+
+    const matches = jobStore.listJobs().filter(job => job.uuid.startsWith(uuid));
+
+    if (matches.length === 1) {
+      return {
+        success: true,
+        message: 'Job found.',
+        exitCode: 0,
+        job: matches[0]
+      };
+    } else if (matches.length > 1) {
+      return {
+        success: false,
+        message: `UUID prefix "${uuid}" matches ${matches.length} jobs. Please be more specific.`,
+        exitCode: 1,
+        jobs: matches
+      };
+    }
+
+    return {
+      success: false,
+      message: `No job found with UUID: ${uuid}`,
+      exitCode: 1
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to read job history: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for pruning jobs from the local ledger
+ * At least one filter (or --all) is required so the ledger is never wiped by accident
+ *
+ * @param options Age in days, status filter, or all
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the number of removed jobs
+ */
+export function pruneJobsCore(
+  options: JobsPruneOptions = {},
+  dependencies: { jobStore?: JobStore, now?: () => number } = {}
+): JobsCommandResult {
+  const jobStore = dependencies.jobStore || createJobStore();
+  const now = dependencies.now || Date.now;
+
+  const olderThanDays = typeof options.olderThan === 'string'
+    ? parseFloat(options.olderThan)
+    : options.olderThan;
+
+  if (olderThanDays !== undefined && (isNaN(olderThanDays) || olderThanDays < 0)) {
+    return {
+      success: false,
+      message: 'Invalid --older-than value. Must be a positive number of days.',
+      exitCode: 1
+    };
+  }
+
+  if (!options.all && olderThanDays === undefined && !options.status) {
+    return {
+      success: false,
+      message: 'Specify --older-than <days>, --status <status> or --all to choose which jobs to prune.',
+      exitCode: 1
+    };
+  }
+
+  try {
+    const cutoff = olderThanDays !== undefined ? now() - olderThanDays * 24 * 60 * 60 * 1000 : null;
+    const status = options.status?.toLowerCase();
+
+    const toRemove = jobStore.listJobs().filter((job: JobRecord) => {
+      if (options.all) {
+        return true;
+      }
+      if (cutoff !== null && !(Date.parse(job.submitted_at) < cutoff)) {
+        return false;
+      }
+      if (status && job.status.toLowerCase() !== status) {
+        return false;
+      }
+      return true;
+    });
+
+    let removed = 0;
+    for (const job of toRemove) {
+      if (jobStore.removeJob(job.uuid)) {
+        removed++;
+      }
+    }
+
+    return {
+      success: true,
+      message: `Removed ${removed} job${removed !== 1 ? 's' : ''} from history.`,
+      exitCode: 0,
+      removed
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to prune job history: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
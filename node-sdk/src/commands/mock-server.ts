@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import { AddressInfo } from 'net';
+import {
+  MockServerOptions,
+  MockServerConfig,
+  MockServerDependencies,
+  MockServerCommandResult
+} from '../types/mock-server';
+import { createDefaultMockConfig, mergeMockConfig, createMockServer } from '../utils/mock-server';
+
+/**
+ * Parse a non-negative number option
+ * @returns The value, undefined when not given, or null if invalid
+ */
+function parseNumberOption(value: number | string | undefined): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const number = typeof value === 'string' ? Number(value) : value;
+  return isNaN(number) || number < 0 ? null : number;
+}
+
+/**
+ * Core implementation for starting the mock API server
+ * Settings come from the defaults, then the --config file, then the
+ * command line options. The server keeps running until close() is called.
+ *
+ * @param options Port, host, config file, latency, failure rate and processing polls
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the server URL and a close function
+ */
+export async function startMockServerCore(
+  options: MockServerOptions = {},
+  dependencies: MockServerDependencies = {}
+): Promise<MockServerCommandResult> {
+  const fileReader = dependencies.fileReader || fs;
+  const failure = (message: string, err?: any): MockServerCommandResult => ({
+    success: false,
+    message,
+    exitCode: 1,
+    ...(err ? { error: err } : {})
+  });
+
+  let config: MockServerConfig = createDefaultMockConfig();
+
+  if (options.config) {
+    try {
+      config = mergeMockConfig(config, JSON.parse(fileReader.readFileSync(options.config, 'utf8')));
+    } catch (err: any) {
+      return failure(`Invalid mock server config ${options.config}: ${err.message}`, err);
+    }
+  }
+
+  const port = parseNumberOption(options.port);
+  if (port === null || (port !== undefined && (!Number.isInteger(port) || port > 65535))) {
+    return failure('Invalid --port value. Must be a port number between 0 and 65535.');
+  }
+
+  const latency = parseNumberOption(options.latency);
+  if (latency === null) {
+    return failure('Invalid --latency value. Must be a non-negative number of milliseconds.');
+  }
+
+  const failureRate = parseNumberOption(options.failureRate);
+  if (failureRate === null || (failureRate !== undefined && failureRate > 1)) {
+    return failure('Invalid --failure-rate value. Must be a number between 0 and 1.');
+  }
+
+  const processingPolls = parseNumberOption(options.processingPolls);
+  if (processingPolls === null || (processingPolls !== undefined && !Number.isInteger(processingPolls))) {
+    return failure('Invalid --processing-polls value. Must be a whole number of 0 or more.');
+  }
+
+  config = {
+    ...config,
+    host: options.host || config.host,
+    port: port ?? config.port,
+    latencyMs: latency ?? config.latencyMs,
+    failureRate: failureRate ?? config.failureRate,
+    processingPolls: processingPolls ?? config.processingPolls
+  };
+
+  const server = createMockServer(config, dependencies);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(config.port, config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+  } catch (err: any) {
+    return failure(`Could not start the mock server on ${config.host}:${config.port}: ${err.message}`, err);
+  }
+
+  const address = server.address() as AddressInfo;
+  const url = `http://${config.host}:${address.port}`;
+
+  return {
+    success: true,
+    message: `Mock VisionFi API listening on ${url}`,
+    exitCode: 0,
+    url,
+    config: { ...config, port: address.port },
+    close: () => new Promise<void>((resolve, reject) => server.close(err => err ? reject(err) : resolve()))
+  };
+}
@@ -0,0 +1,213 @@
+import * as path from 'path';
+import { DEFAULT_PROFILE } from '../utils/config';
+import { createProfileManager, isValidProfileName } from '../utils/profiles';
+import { checkConfigValue } from '../utils/config-schema';
+import { parseWorkflowCacheTtlCore } from './interactive-core';
+import { CLIConfig } from '../types/config';
+import {
+  ProfileManager,
+  ProfileAddOptions,
+  ProfileCommandResult
+} from '../types/profiles';
+
+/**
+ * Core implementation for listing profiles
+ *
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with all profiles, the default profile first
+ */
+export function listProfilesCore(
+  dependencies: { profileManager?: ProfileManager } = {}
+): ProfileCommandResult {
+  const profileManager = dependencies.profileManager || createProfileManager();
+
+  try {
+    const profiles = profileManager.listProfiles();
+    return {
+      success: true,
+      message: `Found ${profiles.length} profile${profiles.length !== 1 ? 's' : ''}.`,
+      exitCode: 0,
+      profiles
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to read profiles: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for adding a profile
+ * Unspecified settings start from the defaults
+ *
+ * @param name Profile name
+ * @param options Initial endpoint, service account and cache TTL
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the created profile
+ */
+export function addProfileCore(
+  name: string,
+  options: ProfileAddOptions = {},
+  dependencies: { profileManager?: ProfileManager } = {}
+): ProfileCommandResult {
+  const profileManager = dependencies.profileManager || createProfileManager();
+
+  if (!name || !isValidProfileName(name)) {
+    return {
+      success: false,
+      message: `Invalid profile name "${name || ''}". Use letters, numbers, dashes and underscores.`,
+      exitCode: 1
+    };
+  }
+
+  if (profileManager.profileExists(name)) {
+    return {
+      success: false,
+      message: `Profile "${name}" already exists.`,
+      exitCode: 1
+    };
+  }
+
+  const settings: Partial<CLIConfig> = {};
+
+  if (options.endpoint) {
+    const problem = checkConfigValue('api_endpoint', options.endpoint);
+    if (problem) {
+      return {
+        success: false,
+        message: `Invalid --endpoint value: ${problem}.`,
+        exitCode: 1
+      };
+    }
+    settings.api_endpoint = options.endpoint;
+  }
+
+  if (options.serviceAccount) {
+    settings.service_account_path = path.resolve(options.serviceAccount);
+  }
+
+  if (options.cacheTtl !== undefined) {
+    const ttlResult = parseWorkflowCacheTtlCore(options.cacheTtl);
+    if (!ttlResult.success) {
+      return {
+        success: false,
+        message: ttlResult.message,
+        exitCode: 1
+      };
+    }
+    settings.workflow_cache_ttl = ttlResult.data?.seconds as number;
+  }
+
+  try {
+    let profile = profileManager.createProfile(name, settings);
+
+    if (options.use) {
+      profileManager.setActiveProfile(name);
+      profile = { ...profile, active: true };
+    }
+
+    return {
+      success: true,
+      message: options.use
+        ? `Profile "${name}" created and set as active.`
+        : `Profile "${name}" created. Switch to it with: visionfi profile use ${name}`,
+      exitCode: 0,
+      profile
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to create profile: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for switching the active profile
+ *
+ * @param name Profile name
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with success status, message, and exit code
+ */
+export function useProfileCore(
+  name: string,
+  dependencies: { profileManager?: ProfileManager } = {}
+): ProfileCommandResult {
+  const profileManager = dependencies.profileManager || createProfileManager();
+
+  if (!profileManager.profileExists(name)) {
+    return {
+      success: false,
+      message: `Profile "${name}" does not exist. Create it with: visionfi profile add ${name}`,
+      exitCode: 1
+    };
+  }
+
+  try {
+    profileManager.setActiveProfile(name);
+    return {
+      success: true,
+      message: `Switched to profile "${name}".`,
+      exitCode: 0
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to switch profile: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Core implementation for removing a profile
+ * Deletes the profile's config and job history; the default profile cannot be removed
+ *
+ * @param name Profile name
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with success status, message, and exit code
+ */
+export function removeProfileCore(
+  name: string,
+  dependencies: { profileManager?: ProfileManager } = {}
+): ProfileCommandResult {
+  const profileManager = dependencies.profileManager || createProfileManager();
+
+  if (name === DEFAULT_PROFILE) {
+    return {
+      success: false,
+      message: 'The default profile cannot be removed.',
+      exitCode: 1
+    };
+  }
+
+  if (!profileManager.profileExists(name)) {
+    return {
+      success: false,
+      message: `Profile "${name}" does not exist.`,
+      exitCode: 1
+    };
+  }
+
+  try {
+    profileManager.removeProfile(name);
+    return {
+      success: true,
+      message: `Profile "${name}" removed.`,
+      exitCode: 0
+    };
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to remove profile: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
@@ -1,13 +1,203 @@
 import { VisionFi } from 'visionfi';
-import { loadConfig, saveConfig } from '../utils/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig } from '../utils/config';
 import { error, success, info, warning } from '../ui/colors';
 import { CLIConfig } from '../types/config';
 import {
   ResultsOptions,
   ResultsCommandResult,
+  ResultsDependencies,
   ResultsClientFactory,
-  ResultsConfigManager
+  BulkResultsOptions,
+  BulkResultsItem,
+  BulkResultsCommandResult,
+  ResultsDiffCommandResult,
+  CachedResults,
+  Selector
 } from '../types/results';
+import { JobStore } from '../types/jobs';
+import { createJobStore, classifyJobState, describeJobStatus } from '../utils/jobs';
+import { createResultsCache, readCachedResults, cacheResults } from '../utils/results-cache';
+import { pollUntil, PollProgress } from '../utils/polling';
+import { formatResults, formatResultsReport, parseResultsFormat, ResultsFormat, UTF8_BOM } from '../ui/export';
+import { mapWithConcurrency, parseConcurrency } from '../utils/concurrency';
+import { diffValues } from '../utils/diff';
+import { parseSelector, selectFields } from '../utils/select';
+import { withRetries } from '../utils/retry';
+import { withSession } from '../utils/session';
+
+/**
+ * Polling settings parsed from results options
+ */
+interface ResultsPollSettings {
+  wait: boolean;
+  pollInterval: number;
+  maxAttempts?: number;
+  maxInterval?: number;
+  multiplier?: number;
+  timeoutSeconds?: number;
+}
+
+/**
+ * Parse the polling options shared by single and bulk retrieval
+ * @returns The settings, or an error message for an invalid value
+ */
+function parsePollSettings(options: ResultsOptions): ResultsPollSettings | { error: string } {
+  const pollInterval = typeof options.pollInterval === 'string' 
+    ? parseInt(options.pollInterval, 10) 
+    : (options.pollInterval ?? 3000); // 3 seconds default
+  
+  const timeoutSeconds = typeof options.timeout === 'string'
+    ? parseFloat(options.timeout)
+    : options.timeout;
+  
+  if (timeoutSeconds !== undefined && (isNaN(timeoutSeconds) || timeoutSeconds <= 0)) {
+    return { error: 'Invalid --timeout value. Must be a positive number of seconds.' };
+  }
+  
+  if (!Number.isFinite(pollInterval) || pollInterval <= 0) {
+    return { error: 'Invalid --poll-interval value. Must be a positive number of milliseconds.' };
+  }
+  
+  // With a wall-clock timeout the attempt count is unlimited unless given explicitly
+  const maxAttempts = typeof options.maxAttempts === 'string'
+    ? Number(options.maxAttempts)
+    : (options.maxAttempts ?? (timeoutSeconds !== undefined ? undefined : 10)); // 10 attempts default
+  
+  if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts <= 0)) {
+    return { error: 'Invalid --max-attempts value. Must be a positive whole number.' };
+  }
+  
+  const maxInterval = typeof options.maxInterval === 'string'
+    ? parseInt(options.maxInterval, 10)
+    : options.maxInterval;
+  
+  if (maxInterval !== undefined && (!Number.isFinite(maxInterval) || maxInterval <= 0)) {
+    return { error: 'Invalid --max-interval value. Must be a positive number of milliseconds.' };
+  }
+  
+  const multiplier = typeof options.backoff === 'string'
+    ? parseFloat(options.backoff)
+    : options.backoff;
+  
+  if (multiplier !== undefined && (!Number.isFinite(multiplier) || multiplier < 1)) {
+    return { error: 'Invalid --backoff value. Must be a number of 1 or more.' };
+  }
+  
+  return {
+    wait: options.wait || false,
+    pollInterval,
+    maxAttempts,
+    maxInterval,
+    multiplier,
+    timeoutSeconds
+  };
+}
+
+/**
+ * Check the polling options of a command that waits for results
+ * Lets commands reject invalid values before submitting anything.
+ *
+ * @returns An error message for the first invalid value, or null
+ */
+export function validatePollOptions(options: ResultsOptions): string | null {
+  const settings = parsePollSettings(options);
+  return 'error' in settings ? settings.error : null;
+}
+
+/**
+ * Fetch one job's results with an authenticated client
+ * Waits with backoff when requested and keeps the job ledger's status current.
+ */
+async function fetchJobResults(
+  client: ReturnType<ResultsClientFactory>,
+  uuid: string,
+  settings: ResultsPollSettings,
+  jobStore: JobStore,
+  onPollProgress?: (progress: PollProgress) => void,
+  sleep?: (ms: number) => Promise<void>
+): Promise<ResultsCommandResult> {
+  try {
+    let result;
+    let timedOut = false;
+    
+    if (settings.wait) {
+      // Each attempt is a single check; backoff between checks is handled here
+      const outcome = await pollUntil(
+        () => client.getResults(uuid, 0, 1),
+        (response: any) => ['complete', 'error'].includes(classifyJobState(response)),
+        {
+          initialInterval: settings.pollInterval,
+          maxInterval: settings.maxInterval,
+          multiplier: settings.multiplier,
+          maxAttempts: settings.maxAttempts,
+          timeout: settings.timeoutSeconds !== undefined ? settings.timeoutSeconds * 1000 : undefined,
+          onAttempt: onPollProgress,
+          sleep
+        }
+      );
+      result = outcome.value;
+      timedOut = outcome.reason === 'timeout';
+    } else {
+      result = await client.getResults(uuid, 0, 1);
+    }
+    
+    // Keep the ledger's last known status current (best-effort)
+    try {
+      jobStore.updateJob(uuid, {
+        status: describeJobStatus(result),
+        status_updated_at: new Date().toISOString()
+      });
+    } catch (err) {
+      // Ledger write failures are ignored
+    }
+    
+    
+    // Return different success/failure based on the job's state; partial results of a running job are not returned
+    const state = classifyJobState(result);
+    if (state === 'complete' && result.results) {
+      return {
+        success: true,
+        message: 'Results retrieved successfully!',
+        exitCode: 0,
+        status: result.status,
+        results: result.results
+      };
+    } else if (state === 'error') {
+      return {
+        success: false,
+        message: 'Analysis error occurred during processing.',
+        exitCode: 1,
+        status: result.status,
+        error: result.error
+      };
+    } else if (timedOut) {
+      return {
+        success: true,
+        message: `Timed out after ${settings.timeoutSeconds}s waiting for results. The job may still be processing.`,
+        exitCode: 0,
+        status: result.status,
+        timedOut
+      };
+    } else {
+      // No results yet, but not an error
+      return {
+        success: true,
+        message: 'No results available yet. The job may still be processing.',
+        exitCode: 0,
+        status: result.status
+      };
+    }
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Failed to retrieve results: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
 
 /**
  * Core implementation for retrieving results
@@ -23,20 +213,80 @@ export async function getResultsCore(
   uuid: string,
   options: ResultsOptions = {},
   config: CLIConfig,
-  dependencies: {
-    clientFactory?: ResultsClientFactory,
-    configManager?: ResultsConfigManager
-  } = {}
+  dependencies: ResultsDependencies = {}
 ): Promise<ResultsCommandResult> {
   // Set up dependencies with defaults
   const clientFactory = dependencies.clientFactory || ((cfg) => new VisionFi(cfg));
-  const configManager = dependencies.configManager || { 
-    loadConfig, 
-    saveConfig 
-  };
+  const jobStore = dependencies.jobStore || createJobStore();
+  const resultsCache = dependencies.resultsCache || createResultsCache();
 
   try {
     
+    // Validate the export format before contacting the API
+    let format: ResultsFormat;
+    try {
+      format = parseResultsFormat(options.format);
+    } catch (err: any) {
+      return {
+        success: false,
+        message: err.message,
+        exitCode: 1
+      };
+    }
+    
+    let selectors: Selector[];
+    try {
+      selectors = parseSelectors(options.select);
+    } catch (err: any) {
+      return {
+        success: false,
+        message: err.message,
+        exitCode: 1
+      };
+    }
+    
+    if (options.cached && options.refresh) {
+      return {
+        success: false,
+        message: 'Use either --cached or --refresh, not both.',
+        exitCode: 1
+      };
+    }
+    
+    // Polling options are checked before the API is contacted
+    const settings = parsePollSettings(options);
+    if ('error' in settings) {
+      return {
+        success: false,
+        message: settings.error,
+        exitCode: 1
+      };
+    }
+    
+    // Completed results do not change, so a cached copy is used without contacting the API
+    if (uuid && !options.refresh) {
+      const cached = readCachedResults(resultsCache, uuid, config.api_endpoint);
+      if (cached) {
+        return finishResults(uuid, {
+          success: true,
+          message: 'Results loaded from the local cache.',
+          exitCode: 0,
+          status: cached.status,
+          results: cached.results,
+          fromCache: true,
+          cachedAt: cached.cached_at
+        }, selectors, format, options.out, jobStore);
+      }
+      
+      if (options.cached) {
+        return {
+          success: false,
+          message: `No cached results for job ${uuid}. Run "visionfi results ${uuid}" while online to fetch them.`,
+          exitCode: 1
+        };
+      }
+    }
+    
     // Check if service account is configured
     if (!config.service_account_path) {
       return {
@@ -47,9 +297,11 @@ export async function getResultsCore(
     }
     
     // Initialize client
-    const client = clientFactory({
+    const client = withSession(withRetries(clientFactory({
       serviceAccountPath: config.service_account_path,
       apiBaseUrl: config.api_endpoint
+    }), { retries: config.retries, sleep: dependencies.sleep, onRetry: dependencies.onRetry }), config, {
+      sessionStore: dependencies.sessionStore
     });
     
     
@@ -83,70 +335,496 @@ export async function getResultsCore(
     }
     
     
-    // Save UUID to recent list if not already there
-    if (!config.recent_uuids.includes(uuid)) {
-      config.recent_uuids = [uuid, ...config.recent_uuids.filter((u: string) => u !== uuid).slice(0, 9)];
-      configManager.saveConfig(config);
+    // Get results
+    const result = await fetchJobResults(
+      client,
+      uuid,
+      settings,
+      jobStore,
+      dependencies.onPollProgress,
+      dependencies.sleep
+    );
+    
+    if (result.results) {
+      cacheResults(resultsCache, uuid, config.api_endpoint, result);
     }
     
+    return finishResults(uuid, result, selectors, format, options.out, jobStore);
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Unexpected error: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Apply field selection and the --out file to retrieved results
+ */
+function finishResults(
+  uuid: string,
+  result: ResultsCommandResult,
+  selectors: Selector[],
+  format: ResultsFormat,
+  outTarget: string | undefined,
+  jobStore: JobStore
+): ResultsCommandResult {
+  // Narrow the results to the selected fields
+  if (result.results && selectors.length > 0) {
+    try {
+      result.selected = selectFields(result.results, selectors);
+    } catch (err: any) {
+      return {
+        success: false,
+        message: err.message,
+        exitCode: 1,
+        status: result.status
+      };
+    }
+  }
+  
+  if (result.results && outTarget) {
+    return writeResults(uuid, result, format, outTarget, jobStore);
+  }
+  return result;
+}
+
+/**
+ * Write exported text to a file, creating its directory
+ * Spreadsheet formats get a byte order mark so the file opens as UTF-8.
+ *
+ * @returns The absolute path written
+ */
+function writeExport(outTarget: string, text: string, format: ResultsFormat): string {
+  const outputPath = path.resolve(outTarget);
+  const bom = format === 'csv' || format === 'tsv' ? UTF8_BOM : '';
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, bom + text);
+  return outputPath;
+}
+
+/**
+ * Parse the --select option, which may be given several times
+ * @throws Error for the first invalid expression
+ */
+function parseSelectors(select: string | string[] | undefined): Selector[] {
+  const expressions = select === undefined ? [] : Array.isArray(select) ? select : [select];
+  return expressions.map(parseSelector);
+}
+
+/**
+ * Write formatted results (or the selected fields) to a file and record its
+ * location in the job ledger
+ */
+function writeResults(
+  uuid: string,
+  result: ResultsCommandResult,
+  format: ResultsFormat,
+  outTarget: string,
+  jobStore: JobStore
+): ResultsCommandResult {
+  let outputPath: string;
+  try {
+    outputPath = writeExport(outTarget, formatResults(result.selected ?? result.results, format), format);
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Results retrieved, but writing ${outTarget} failed: ${err.message}`,
+      exitCode: 1,
+      status: result.status,
+      results: result.results,
+      error: err
+    };
+  }
+  
+  // Remember where the results were saved (best-effort)
+  try {
+    jobStore.updateJob(uuid, { result_location: outputPath });
+  } catch (err) {
+    // Ledger write failures are ignored
+  }
+  
+  return {
+    success: true,
+    message: `Results written to ${outputPath}`,
+    exitCode: 0,
+    status: result.status,
+    results: result.results,
+    ...(result.selected ? { selected: result.selected } : {}),
+    ...(result.fromCache ? { fromCache: true, cachedAt: result.cachedAt } : {}),
+    outputPath
+  };
+}
+
+// Number of ledger jobs included by --all-recent
+const RECENT_JOB_LIMIT = 10;
+
+/**
+ * Collect the job UUIDs for a bulk retrieval
+ * Combines explicit UUIDs, a --from-file list (one per line, blank lines and
+ * `#` comments ignored) and the most recent jobs in the ledger for the active
+ * endpoint, dropping duplicates.
+ *
+ * @throws Error if the UUID file or the job ledger cannot be read
+ */
+export function resolveJobUuids(
+  uuids: string[],
+  options: BulkResultsOptions,
+  config: CLIConfig,
+  jobStore: JobStore,
+  fileReader: { readFileSync: (path: string, encoding: 'utf8') => string } = fs
+): string[] {
+  const collected = [...uuids];
+  
+  if (options.fromFile) {
+    let contents: string;
+    try {
+      contents = fileReader.readFileSync(options.fromFile, 'utf8');
+    } catch (err: any) {
+      throw new Error(`Failed to read ${options.fromFile}: ${err.message}`);
+    }
+    const lines = contents.split(/\r?\n/);
+    collected.push(...lines.map(line => line.trim()).filter(line => line && !line.startsWith('#')));
+  }
+  
+  if (options.allRecent) {
+    let recent: string[];
+    try {
+      // The ledger lists the most recent submissions first
+      recent = jobStore.listJobs()
+        .filter(job => job.api_endpoint === config.api_endpoint)
+        .slice(0, RECENT_JOB_LIMIT)
+        .map(job => job.uuid);
+    } catch (err: any) {
+      throw new Error(`Failed to read job history: ${err.message}`);
+    }
+    collected.push(...recent);
+  }
+  
+  return collected.filter((uuid, index) => uuid && collected.indexOf(uuid) === index);
+}
+
+/**
+ * Core implementation for retrieving the results of several jobs
+ * Authenticates once and fetches all jobs concurrently with the same client,
+ * then combines them into a single report.
+ * 
+ * @param uuids Job UUIDs given on the command line
+ * @param options Options for results retrieval, including the UUID sources
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with per-job outcomes and counts
+ */
+export async function getBulkResultsCore(
+  uuids: string[],
+  options: BulkResultsOptions = {},
+  config: CLIConfig,
+  dependencies: ResultsDependencies = {}
+): Promise<BulkResultsCommandResult> {
+  const clientFactory = dependencies.clientFactory || ((cfg) => new VisionFi(cfg));
+  const jobStore = dependencies.jobStore || createJobStore();
+  const resultsCache = dependencies.resultsCache || createResultsCache();
+  const concurrency = parseConcurrency(options.concurrency);
+  const failure = (message: string, err?: any): BulkResultsCommandResult => ({
+    success: false,
+    message,
+    exitCode: 1,
+    items: [],
+    retrieved: 0,
+    pending: 0,
+    failed: 0,
+    ...(err ? { error: err } : {})
+  });
+  
+  try {
+    let format: ResultsFormat;
+    try {
+      format = parseResultsFormat(options.format);
+    } catch (err: any) {
+      return failure(err.message);
+    }
     
-    // Optional parameters
-    const pollInterval = typeof options.pollInterval === 'string' 
-      ? parseInt(options.pollInterval, 10) 
-      : (options.pollInterval || 3000); // 3 seconds default
-      
-    const maxAttempts = typeof options.maxAttempts === 'string'
-      ? parseInt(options.maxAttempts, 10)
-      : (options.maxAttempts || 10);    // 10 attempts default
+    let selectors: Selector[];
+    try {
+      selectors = parseSelectors(options.select);
+    } catch (err: any) {
+      return failure(err.message);
+    }
     
-    // Check for wait option
-    const shouldWait = options.wait || false;
+    const settings = parsePollSettings(options);
+    if ('error' in settings) {
+      return failure(settings.error);
+    }
     
-    // Get results
+    let jobUuids: string[];
     try {
-      let result;
-      
-      if (shouldWait) {
-        result = await client.getResults(uuid, pollInterval, maxAttempts);
-      } else {
-        result = await client.getResults(uuid, 0, 1);
+      jobUuids = resolveJobUuids(uuids, options, config, jobStore);
+    } catch (err: any) {
+      return failure(err.message, err);
+    }
+    
+    if (jobUuids.length === 0) {
+      return failure('No job UUIDs specified. Pass UUIDs, --from-file or --all-recent.');
+    }
+    
+    if (options.cached && options.refresh) {
+      return failure('Use either --cached or --refresh, not both.');
+    }
+    
+    // Jobs with cached results need no API calls
+    const cached = new Map<string, CachedResults>();
+    if (!options.refresh) {
+      for (const uuid of jobUuids) {
+        const entry = readCachedResults(resultsCache, uuid, config.api_endpoint);
+        if (entry) {
+          cached.set(uuid, entry);
+        }
+      }
+    }
+    
+    let client: ReturnType<ResultsClientFactory> | undefined;
+    if (!options.cached && jobUuids.some(uuid => !cached.has(uuid))) {
+      if (!config.service_account_path) {
+        return failure('No service account configured. Run in interactive mode to set up a service account.');
       }
       
+      // One client and one authentication check for every job
+      const apiClient = withSession(withRetries(clientFactory({
+        serviceAccountPath: config.service_account_path,
+        apiBaseUrl: config.api_endpoint
+      }), { retries: config.retries, sleep: dependencies.sleep, onRetry: dependencies.onRetry }), config, {
+        sessionStore: dependencies.sessionStore
+      });
       
-      // Return different success/failure based on what's available
-      if (result.results) {
-        return {
+      try {
+        const authResult = await apiClient.verifyAuth();
+        if (!authResult.data) {
+          return failure('Authentication failed.');
+        }
+      } catch (err: any) {
+        return failure(`Authentication error: ${err.message}`, err);
+      }
+      client = apiClient;
+    }
+    
+    const items = await mapWithConcurrency(jobUuids, concurrency, async (uuid): Promise<BulkResultsItem> => {
+      const entry = cached.get(uuid);
+      let result: ResultsCommandResult;
+      if (entry) {
+        result = {
           success: true,
-          message: 'Results retrieved successfully!',
+          message: 'Results loaded from the local cache.',
           exitCode: 0,
-          status: result.status,
-          results: result.results
+          status: entry.status,
+          results: entry.results,
+          fromCache: true
         };
-      } else if ('error' in result && result.error) {
+      } else if (!client) {
+        result = { success: false, message: `No cached results for job ${uuid}.`, exitCode: 1 };
+      } else {
+        result = await fetchJobResults(client, uuid, settings, jobStore, undefined, dependencies.sleep);
+        if (result.results) {
+          cacheResults(resultsCache, uuid, config.api_endpoint, result);
+        }
+      }
+      
+      const item: BulkResultsItem = {
+        uuid,
+        success: result.success,
+        message: result.message,
+        status: result.status
+      };
+      if (result.fromCache) {
+        item.fromCache = true;
+      }
+      if (result.results !== undefined) {
+        item.results = result.results;
+        
+        // Each job reports only the selected fields
+        if (selectors.length > 0) {
+          try {
+            item.results = selectFields(result.results, selectors);
+          } catch (err: any) {
+            item.success = false;
+            item.message = err.message;
+            delete item.results;
+          }
+        }
+      }
+      if (result.timedOut) {
+        item.timedOut = true;
+      }
+      if (result.error) {
+        item.error = result.error;
+      }
+      return item;
+    });
+    
+    const retrieved = items.filter(item => item.success && item.results !== undefined).length;
+    const failed = items.filter(item => !item.success).length;
+    const pending = items.length - retrieved - failed;
+    const fromCache = items.filter(item => item.fromCache).length;
+    
+    let outputPath: string | undefined;
+    if (options.out) {
+      try {
+        outputPath = writeExport(options.out, formatResultsReport(items, format), format);
+      } catch (err: any) {
+        return {
+          ...failure(`Results retrieved, but writing ${options.out} failed: ${err.message}`, err),
+          items,
+          retrieved,
+          pending,
+          failed
+        };
+      }
+    }
+    
+    return {
+      success: failed === 0,
+      message: `${retrieved} of ${items.length} job${items.length !== 1 ? 's' : ''} returned results` +
+        (fromCache > 0 ? ` (${fromCache} from the local cache).` : '.'),
+      exitCode: failed === 0 ? 0 : 1,
+      items,
+      retrieved,
+      pending,
+      failed,
+      outputPath
+    };
+  } catch (err: any) {
+    return failure(`Unexpected error: ${err.message}`, err);
+  }
+}
+
+/**
+ * Read results saved to a local file (for example by --out)
+ */
+function readLocalResults(filePath: string): { results?: any; message?: string } {
+  try {
+    return { results: JSON.parse(fs.readFileSync(filePath, 'utf8')) };
+  } catch (err: any) {
+    return { message: `Failed to read ${filePath}: ${err.message}` };
+  }
+}
+
+/**
+ * Core implementation for comparing the results of two jobs
+ * Each side is a job UUID, fetched through the results path, or the path of a
+ * local JSON results file. Jobs with completed results in the local results
+ * cache are read from it; the API is only contacted when a side needs it.
+ *
+ * @param left Job UUID or results file to compare from
+ * @param right Job UUID or results file to compare to
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the added, removed and changed fields
+ */
+export async function diffResultsCore(
+  left: string,
+  right: string,
+  config: CLIConfig,
+  dependencies: ResultsDependencies = {}
+): Promise<ResultsDiffCommandResult> {
+  const clientFactory = dependencies.clientFactory || ((cfg) => new VisionFi(cfg));
+  const resultsCache = dependencies.resultsCache || createResultsCache();
+  
+  try {
+    if (!left || !right) {
+      return {
+        success: false,
+        message: 'Two job UUIDs or results files are required.',
+        exitCode: 1
+      };
+    }
+    
+    const sources = [left, right];
+    const isLocal = sources.map(source => fs.existsSync(source) && fs.statSync(source).isFile());
+    const cached = sources.map((source, index) => isLocal[index]
+      ? null
+      : readCachedResults(resultsCache, source, config.api_endpoint));
+    
+    let client: ReturnType<ResultsClientFactory> | undefined;
+    if (isLocal.some((local, index) => !local && !cached[index])) {
+      if (!config.service_account_path) {
         return {
           success: false,
-          message: 'Analysis error occurred during processing.',
-          exitCode: 1,
-          status: result.status,
-          error: result.error
+          message: 'No service account configured. Run in interactive mode to set up a service account.',
+          exitCode: 1
         };
-      } else {
-        // No results yet, but not an error
+      }
+      
+      const apiClient = withSession(withRetries(clientFactory({
+        serviceAccountPath: config.service_account_path,
+        apiBaseUrl: config.api_endpoint
+      }), { retries: config.retries, sleep: dependencies.sleep, onRetry: dependencies.onRetry }), config, {
+        sessionStore: dependencies.sessionStore
+      });
+      client = apiClient;
+      
+      try {
+        const authResult = await apiClient.verifyAuth();
+        if (!authResult.data) {
+          return {
+            success: false,
+            message: 'Authentication failed.',
+            exitCode: 1
+          };
+        }
+      } catch (err: any) {
         return {
-          success: true,
-          message: 'No results available yet. The job may still be processing.',
-          exitCode: 0,
-          status: result.status
+          success: false,
+          message: `Authentication error: ${err.message}`,
+          exitCode: 1,
+          error: err
         };
       }
-    } catch (err: any) {
+    }
+    
+    const jobStore = dependencies.jobStore || createJobStore();
+    const settings = parsePollSettings({}) as ResultsPollSettings;
+    const sides = await Promise.all(sources.map(async (source, index) => {
+      if (isLocal[index]) {
+        return readLocalResults(source);
+      }
+      const entry = cached[index];
+      if (entry) {
+        return { results: entry.results };
+      }
+      const result = await fetchJobResults(client!, source, settings, jobStore);
+      cacheResults(resultsCache, source, config.api_endpoint, result);
+      return result.results !== undefined
+        ? { results: result.results }
+        : { message: `No results for job ${source}: ${result.message}` };
+    }));
+    
+    const missing = sides.find(side => side.message);
+    if (missing) {
       return {
         success: false,
-        message: `Failed to retrieve results: ${err.message}`,
+        message: missing.message!,
         exitCode: 1,
-        error: err
+        left,
+        right
       };
     }
+    
+    const changes = diffValues(sides[0].results, sides[1].results);
+    const count = (kind: string) => changes.filter(change => change.kind === kind).length;
+    
+    return {
+      success: true,
+      message: changes.length === 0
+        ? 'Results are identical.'
+        : `${changes.length} difference${changes.length !== 1 ? 's' : ''}: ` +
+          `${count('added')} added, ${count('removed')} removed, ${count('changed')} changed.`,
+      exitCode: 0,
+      left,
+      right,
+      identical: changes.length === 0,
+      changes
+    };
   } catch (err: any) {
     return {
       success: false,
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CLIConfig } from '../types/config';
+import { AnalyzeDependencies } from '../types/analyze';
+import { TestSuite, TestRunOptions, TestCaseResult, TestRunCommandResult } from '../types/test-suite';
+import { loadTestSuite, checkExpectations, toJUnitXml } from '../utils/test-suite';
+import { mapWithConcurrency, parseConcurrency } from '../utils/concurrency';
+import { analyzeAndWaitCore } from './analyze';
+
+// Seconds to wait for each case's results unless the suite or --timeout says otherwise
+const DEFAULT_CASE_TIMEOUT = 300;
+
+/**
+ * Core implementation for running a regression suite
+ * Each case's document is submitted and its results awaited through
+ * analyzeAndWaitCore, then the results are checked against the case's
+ * expected fields.
+ *
+ * @param suitePath Path to the suite JSON file
+ * @param options JUnit output file, timeout and concurrency
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the outcome of every case
+ */
+export async function runTestSuiteCore(
+  suitePath: string,
+  options: TestRunOptions = {},
+  config: CLIConfig,
+  dependencies: AnalyzeDependencies & { now?: () => number } = {}
+): Promise<TestRunCommandResult> {
+  const now = dependencies.now || Date.now;
+  const concurrency = parseConcurrency(options.concurrency, 2);
+  const failure = (message: string, err?: any): TestRunCommandResult => ({
+    success: false,
+    message,
+    exitCode: 1,
+    cases: [],
+    passed: 0,
+    failed: 0,
+    errors: 0,
+    ...(err ? { error: err } : {})
+  });
+
+  const timeoutOverride = typeof options.timeout === 'string' ? parseFloat(options.timeout) : options.timeout;
+  if (timeoutOverride !== undefined && (isNaN(timeoutOverride) || timeoutOverride <= 0)) {
+    return failure('Invalid --timeout value. Must be a positive number of seconds.');
+  }
+
+  let suite: TestSuite;
+  try {
+    suite = loadTestSuite(suitePath);
+  } catch (err: any) {
+    return failure(err.message, err);
+  }
+
+  if (!config.service_account_path) {
+    return failure('No service account configured. Run in interactive mode to set up a service account.');
+  }
+
+  const suiteName = suite.name || path.basename(suitePath, path.extname(suitePath));
+  const timeout = timeoutOverride ?? suite.timeout ?? DEFAULT_CASE_TIMEOUT;
+  const startedAt = now();
+
+  try {
+    const cases = await mapWithConcurrency(suite.cases, concurrency, async (testCase): Promise<TestCaseResult> => {
+      const caseStartedAt = now();
+      const workflow = (testCase.workflow || suite.workflow)!;
+      const base = {
+        name: testCase.name || path.basename(testCase.file),
+        file: testCase.file,
+        workflow
+      };
+
+      // Always analyze again: reusing an earlier job would hide changes to the workflow
+      const outcome = await analyzeAndWaitCore(testCase.file, { workflow, timeout, force: true }, config, dependencies);
+      const durationMs = now() - caseStartedAt;
+
+      if (!outcome.success || outcome.results === undefined) {
+        return { ...base, outcome: 'error', durationMs, uuid: outcome.uuid, failures: [outcome.message] };
+      }
+
+      const failures = checkExpectations(outcome.results, testCase.expect);
+      return {
+        ...base,
+        outcome: failures.length === 0 ? 'passed' : 'failed',
+        durationMs,
+        uuid: outcome.uuid,
+        failures
+      };
+    });
+
+    const passed = cases.filter(testCase => testCase.outcome === 'passed').length;
+    const failed = cases.filter(testCase => testCase.outcome === 'failed').length;
+    const errors = cases.length - passed - failed;
+    const result: TestRunCommandResult = {
+      success: passed === cases.length,
+      message: `${passed} of ${cases.length} case${cases.length !== 1 ? 's' : ''} passed` +
+        (failed + errors > 0 ? ` (${failed} failed, ${errors} error${errors !== 1 ? 's' : ''}).` : '.'),
+      exitCode: passed === cases.length ? 0 : 1,
+      suite: suiteName,
+      cases,
+      passed,
+      failed,
+      errors,
+      durationMs: now() - startedAt
+    };
+
+    if (options.junit) {
+      try {
+        const junitPath = path.resolve(options.junit);
+        fs.mkdirSync(path.dirname(junitPath), { recursive: true });
+        fs.writeFileSync(junitPath, toJUnitXml(result, new Date(startedAt)));
+        result.junitPath = junitPath;
+      } catch (err: any) {
+        return {
+          ...result,
+          success: false,
+          message: `${result.message} Writing ${options.junit} failed: ${err.message}`,
+          exitCode: 1,
+          error: err
+        };
+      }
+    }
+
+    return result;
+  } catch (err: any) {
+    return failure(`Unexpected error: ${err.message}`, err);
+  }
+}
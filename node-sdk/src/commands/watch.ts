@@ -0,0 +1,307 @@
+import { VisionFi } from 'visionfi';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CLIConfig } from '../types/config';
+import { JobStore } from '../types/jobs';
+import { ResultsClientFactory } from '../types/results';
+import {
+  WatchOptions,
+  WatchJob,
+  WatchCommandResult,
+  WatchDependencies
+} from '../types/watch';
+import { createJobStore, classifyJobState, describeJobStatus } from '../utils/jobs';
+import { mapWithConcurrency, parseConcurrency } from '../utils/concurrency';
+import { runShellHook } from '../utils/hooks';
+import { classifyError, withRetries } from '../utils/retry';
+import { withSession } from '../utils/session';
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+// Checks in a row that may fail before a job is given up on
+const MAX_FAILED_CHECKS = 5;
+
+/**
+ * Check whether a watched job has finished
+ */
+function isFinished(job: WatchJob): boolean {
+  return job.state === 'complete' || job.state === 'error';
+}
+
+/**
+ * Parse a positive number of seconds from an option value
+ * @returns The value in seconds, undefined when not given, or null if invalid
+ */
+function parseSeconds(value: number | string | undefined): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const seconds = typeof value === 'string' ? parseFloat(value) : value;
+  return isNaN(seconds) || seconds <= 0 ? null : seconds;
+}
+
+/**
+ * Select the jobs to watch
+ * Explicit UUIDs are watched as given; otherwise every job in the local
+ * history submitted to the configured endpoint whose recorded status is not final.
+ */
+function selectJobs(uuids: string[], jobStore: JobStore, apiEndpoint: string, now: number): WatchJob[] {
+  if (uuids.length > 0) {
+    // Jobs given explicitly are polled even if the history says they finished
+    return uuids
+      .filter((uuid, index) => uuids.indexOf(uuid) === index)
+      .map(uuid => {
+        const record = jobStore.getJob(uuid);
+        return {
+          uuid,
+          state: 'pending' as const,
+          status: record?.status,
+          fileName: record?.file_name,
+          startedAt: record ? Date.parse(record.submitted_at) || now : now
+        };
+      });
+  }
+
+  return jobStore.listJobs()
+    .filter(record => record.api_endpoint === apiEndpoint)
+    .map((record): WatchJob => ({
+      uuid: record.uuid,
+      state: classifyJobState({ status: record.status }),
+      status: record.status,
+      fileName: record.file_name,
+      startedAt: Date.parse(record.submitted_at) || now
+    }))
+    .filter(job => !isFinished(job));
+}
+
+/**
+ * Save a finished job's results and record their location (best-effort ledger update)
+ * @returns The path written
+ */
+function saveJobResults(job: WatchJob, results: any, outDir: string, jobStore: JobStore): string {
+  const outputPath = path.resolve(outDir, `${job.uuid}.json`);
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(results, null, 2));
+
+  try {
+    jobStore.updateJob(job.uuid, { result_location: outputPath });
+  } catch (err) {
+    // Ledger write failures are ignored
+  }
+  return outputPath;
+}
+
+/**
+ * Check one job and apply the outcome to its watch entry
+ * Transient request failures are shown on the job but do not stop the watch;
+ * the job is checked again in the next round. A job whose check is rejected
+ * (e.g. HTTP 404) or fails too many times in a row is marked as an error.
+ */
+async function pollJob(
+  job: WatchJob,
+  client: ReturnType<ResultsClientFactory>,
+  options: WatchOptions,
+  jobStore: JobStore,
+  now: () => number
+): Promise<{ job: WatchJob; finishedNow: boolean }> {
+  let response;
+  try {
+    response = await client.getResults(job.uuid, 0, 1);
+  } catch (err: any) {
+    const failedChecks = (job.failedChecks || 0) + 1;
+    const classification = classifyError(err);
+    const rejected = classification.status !== undefined && !classification.retryable;
+    if (rejected || failedChecks >= MAX_FAILED_CHECKS) {
+      return {
+        job: { ...job, state: 'error', failedChecks, finishedAt: now(), message: `Check failed: ${err.message}` },
+        finishedNow: true
+      };
+    }
+    return { job: { ...job, failedChecks, message: `Check failed: ${err.message}` }, finishedNow: false };
+  }
+
+  const updated: WatchJob = {
+    ...job,
+    state: classifyJobState(response),
+    status: describeJobStatus(response),
+    message: undefined,
+    failedChecks: undefined
+  };
+
+  // Keep the ledger's last known status current (best-effort)
+  try {
+    jobStore.updateJob(job.uuid, {
+      status: updated.status,
+      status_updated_at: new Date(now()).toISOString()
+    });
+  } catch (err) {
+    // Ledger write failures are ignored
+  }
+
+  if (!isFinished(updated)) {
+    return { job: updated, finishedNow: false };
+  }
+
+  updated.finishedAt = now();
+  if (updated.state === 'error') {
+    updated.message = typeof response.error === 'string'
+      ? response.error
+      : response.error?.message || 'Analysis error occurred during processing.';
+  } else if (options.outDir && response.results) {
+    try {
+      updated.outputPath = saveJobResults(updated, response.results, options.outDir, jobStore);
+    } catch (err: any) {
+      updated.message = `Writing results failed: ${err.message}`;
+    }
+  }
+
+  return { job: updated, finishedNow: true };
+}
+
+/**
+ * Core implementation for watching jobs until they finish
+ * Polls every unfinished job in rounds with a single authenticated client,
+ * reporting the job table after each round. As each job finishes its results
+ * can be written to a directory and a shell hook is run.
+ *
+ * @param uuids Jobs to watch (defaults to the unfinished jobs in the local history)
+ * @param options Polling interval, timeout, output directory and hook
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the final state of every job
+ */
+export async function watchJobsCore(
+  uuids: string[],
+  options: WatchOptions = {},
+  config: CLIConfig,
+  dependencies: WatchDependencies = {}
+): Promise<WatchCommandResult> {
+  const clientFactory = dependencies.clientFactory || ((cfg) => new VisionFi(cfg));
+  const sleep = dependencies.sleep || defaultSleep;
+  const now = dependencies.now || Date.now;
+  const runHook = dependencies.runHook || runShellHook;
+  const concurrency = parseConcurrency(options.concurrency);
+  const summarize = (jobs: WatchJob[]) => ({
+    completed: jobs.filter(job => job.state === 'complete').length,
+    failed: jobs.filter(job => job.state === 'error').length,
+    pending: jobs.filter(job => !isFinished(job)).length
+  });
+  const failure = (message: string, err?: any): WatchCommandResult => ({
+    success: false,
+    message,
+    exitCode: 1,
+    jobs: [],
+    completed: 0,
+    failed: 0,
+    pending: 0,
+    ...(err ? { error: err } : {})
+  });
+
+  const interval = parseSeconds(options.interval);
+  if (interval === null) {
+    return failure('Invalid --interval value. Must be a positive number of seconds.');
+  }
+
+  const timeout = parseSeconds(options.timeout);
+  if (timeout === null) {
+    return failure('Invalid --timeout value. Must be a positive number of seconds.');
+  }
+
+  try {
+    const jobStore = dependencies.jobStore || createJobStore();
+    const startedAt = now();
+    let jobs = selectJobs(uuids, jobStore, config.api_endpoint, startedAt);
+
+    if (jobs.length === 0) {
+      return {
+        success: true,
+        message: 'No pending jobs to watch.',
+        exitCode: 0,
+        jobs,
+        ...summarize(jobs)
+      };
+    }
+
+    if (!config.service_account_path) {
+      return failure('No service account configured. Run in interactive mode to set up a service account.');
+    }
+
+    // One client and one authentication check for the whole watch
+    const client = withSession(withRetries(clientFactory({
+      serviceAccountPath: config.service_account_path,
+      apiBaseUrl: config.api_endpoint
+    }), { retries: config.retries, sleep, onRetry: dependencies.onRetry }), config, {
+      sessionStore: dependencies.sessionStore
+    });
+
+    try {
+      const authResult = await client.verifyAuth();
+      if (!authResult.data) {
+        return failure('Authentication failed.');
+      }
+    } catch (err: any) {
+      return failure(`Authentication error: ${err.message}`, err);
+    }
+
+    dependencies.onUpdate?.(jobs);
+
+    let timedOut = false;
+    while (jobs.some(job => !isFinished(job))) {
+      const round = await mapWithConcurrency(jobs, concurrency, (job) => isFinished(job)
+        ? Promise.resolve({ job, finishedNow: false })
+        : pollJob(job, client, options, jobStore, now));
+      jobs = round.map(entry => entry.job);
+
+      // Hooks run one at a time, in job order, after the round's results are saved
+      for (const entry of round.filter(item => item.finishedNow)) {
+        const job = entry.job;
+        if (options.onComplete) {
+          try {
+            const exitCode = await runHook(options.onComplete, {
+              VISIONFI_JOB_UUID: job.uuid,
+              VISIONFI_JOB_STATE: job.state,
+              VISIONFI_JOB_STATUS: job.status || '',
+              VISIONFI_RESULT_PATH: job.outputPath || '',
+              VISIONFI_FILE_NAME: job.fileName || ''
+            });
+            if (exitCode !== 0) {
+              job.message = `Hook exited with code ${exitCode}`;
+            }
+          } catch (err: any) {
+            job.message = `Hook failed: ${err.message}`;
+          }
+        }
+        dependencies.onJobFinished?.(job);
+      }
+
+      dependencies.onUpdate?.(jobs);
+
+      if (!jobs.some(job => !isFinished(job))) {
+        break;
+      }
+
+      const delay = (interval ?? 5) * 1000;
+      if (timeout !== undefined && now() + delay - startedAt > timeout * 1000) {
+        timedOut = true;
+        break;
+      }
+      await sleep(delay);
+    }
+
+    const counts = summarize(jobs);
+    const total = `${jobs.length} job${jobs.length !== 1 ? 's' : ''}`;
+    return {
+      success: counts.failed === 0,
+      message: timedOut
+        ? `Stopped watching after ${timeout}s: ${counts.completed + counts.failed} of ${total} finished.`
+        : `All ${total} finished: ${counts.completed} complete, ${counts.failed} failed.`,
+      exitCode: counts.failed === 0 ? 0 : 1,
+      jobs,
+      ...counts,
+      ...(timedOut ? { timedOut } : {})
+    };
+  } catch (err: any) {
+    return failure(`Unexpected error: ${err.message}`, err);
+  }
+}
@@ -0,0 +1,311 @@
+import { VisionFi } from 'visionfi';
+import { getWorkflowsCore } from './interactive-core';
+import { createWorkflowCache, getWorkflowCacheState } from '../utils/workflow-cache';
+import { findClosestMatch } from '../utils/suggest';
+import { withRetries } from '../utils/retry';
+import { withSession } from '../utils/session';
+import { CLIConfig, Workflow } from '../types/config';
+import {
+  WorkflowsOptions,
+  WorkflowCache,
+  WorkflowsDependencies,
+  WorkflowsCommandResult,
+  WorkflowCheckResult
+} from '../types/workflows';
+
+/**
+ * Core implementation for listing the workflows available to the account
+ * Uses the cached list while it is younger than workflow_cache_ttl. An expired list
+ * is still returned (marked stale) while a fresh one is fetched in the background.
+ *
+ * @param options Options (refresh bypasses the cache)
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the workflows
+ */
+export async function listWorkflowsCore(
+  options: WorkflowsOptions = {},
+  config: CLIConfig,
+  dependencies: WorkflowsDependencies = {}
+): Promise<WorkflowsCommandResult> {
+  // Set up dependencies with defaults
+  const workflowCache = dependencies.workflowCache || createWorkflowCache(config.api_endpoint);
+  const now = dependencies.now || Date.now;
+
+  try {
+
+    const cached = options.refresh ? null : workflowCache.read();
+    const state = getWorkflowCacheState(cached?.cached_at, config.workflow_cache_ttl, now());
+
+    if (cached && (state === 'fresh' || state === 'stale')) {
+      // Show a stale list right away and refresh the cache for the next run
+      if (state === 'stale') {
+        const revalidation = fetchWorkflows(config, { ...dependencies, workflowCache });
+        if (dependencies.onRevalidate) {
+          dependencies.onRevalidate(revalidation);
+        }
+      }
+
+      return {
+        success: true,
+        message: `Found ${cached.workflows.length} workflow${cached.workflows.length !== 1 ? 's' : ''} (cached${state === 'stale' ? ', refreshing' : ''}).`,
+        exitCode: 0,
+        workflows: cached.workflows,
+        fromCache: true,
+        stale: state === 'stale',
+        cachedAt: new Date(cached.cached_at).toISOString()
+      };
+    }
+
+    return await fetchWorkflows(config, { ...dependencies, workflowCache });
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Unexpected error: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Fetch the workflow list from the API and store it in the cache
+ * Never rejects, so it can run in the background
+ */
+async function fetchWorkflows(
+  config: CLIConfig,
+  dependencies: WorkflowsDependencies & { workflowCache: WorkflowCache }
+): Promise<WorkflowsCommandResult> {
+  const clientFactory = dependencies.clientFactory || ((cfg) => new VisionFi(cfg));
+  const now = dependencies.now || Date.now;
+
+  try {
+
+    // Check if service account is configured
+    if (!config.service_account_path) {
+      return {
+        success: false,
+        message: 'No service account configured. Run in interactive mode to set up a service account.',
+        exitCode: 1
+      };
+    }
+
+    // Initialize client
+    const client = withSession(withRetries(clientFactory({
+      serviceAccountPath: config.service_account_path,
+      apiBaseUrl: config.api_endpoint
+    }), { retries: config.retries, sleep: dependencies.sleep, onRetry: dependencies.onRetry }), config, {
+      sessionStore: dependencies.sessionStore
+    });
+
+
+    // Verify authentication
+    try {
+      const authResult = await client.verifyAuth();
+      if (!authResult.data) {
+        return {
+          success: false,
+          message: 'Authentication failed.',
+          exitCode: 1
+        };
+      }
+    } catch (err: any) {
+      return {
+        success: false,
+        message: `Authentication error: ${err.message}`,
+        exitCode: 1,
+        error: err
+      };
+    }
+
+
+    return await fetchWithClient(client, config, dependencies.workflowCache, now);
+  } catch (err: any) {
+    return {
+      success: false,
+      message: `Unexpected error: ${err.message}`,
+      exitCode: 1,
+      error: err
+    };
+  }
+}
+
+/**
+ * Fetch the workflow list with an initialized client and store it in the cache
+ */
+async function fetchWithClient(
+  client: any,
+  config: CLIConfig,
+  workflowCache: WorkflowCache,
+  now: () => number
+): Promise<WorkflowsCommandResult> {
+  const fetched = await getWorkflowsCore(client, true);
+  if (!fetched.success) {
+    return {
+      success: false,
+      message: fetched.message,
+      exitCode: 1,
+      error: fetched.error
+    };
+  }
+
+  const workflows: Workflow[] = fetched.data?.workflows?.data || [];
+  const cachedAt = now();
+
+  // Cache the list for later runs (best-effort)
+  try {
+    workflowCache.write({ api_endpoint: config.api_endpoint, cached_at: cachedAt, workflows });
+  } catch (err) {
+    // Cache write failures are ignored
+  }
+
+  return {
+    success: true,
+    message: `Found ${workflows.length} workflow${workflows.length !== 1 ? 's' : ''}.`,
+    exitCode: 0,
+    workflows,
+    fromCache: false,
+    cachedAt: new Date(cachedAt).toISOString()
+  };
+}
+
+/**
+ * Core implementation for showing a single workflow
+ *
+ * @param workflowKey Workflow key to look up
+ * @param options Options (refresh bypasses the cache)
+ * @param config Configuration object
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object with the workflow
+ */
+export async function showWorkflowCore(
+  workflowKey: string,
+  options: WorkflowsOptions = {},
+  config: CLIConfig,
+  dependencies: WorkflowsDependencies = {}
+): Promise<WorkflowsCommandResult> {
+  if (!workflowKey) {
+    return {
+      success: false,
+      message: 'No workflow key specified.',
+      exitCode: 1
+    };
+  }
+
+  let revalidation: Promise<WorkflowsCommandResult> | undefined;
+  let listResult = await listWorkflowsCore(options, config, {
+    ...dependencies,
+    onRevalidate: (pending) => {
+      revalidation = pending;
+      if (dependencies.onRevalidate) {
+        dependencies.onRevalidate(pending);
+      }
+    }
+  });
+  if (!listResult.success) {
+    return listResult;
+  }
+
+  let workflow = (listResult.workflows || []).find(item => item.workflow_key === workflowKey);
+
+  // The workflow may have been added since the list was cached
+  if (!workflow && listResult.fromCache) {
+    listResult = revalidation
+      ? await revalidation
+      : await listWorkflowsCore({ ...options, refresh: true }, config, dependencies);
+    if (!listResult.success) {
+      return listResult;
+    }
+    workflow = (listResult.workflows || []).find(item => item.workflow_key === workflowKey);
+  }
+
+  if (!workflow) {
+    return {
+      success: false,
+      message: `Workflow "${workflowKey}" not found. Run "visionfi workflows list" to see available workflows.`,
+      exitCode: 1,
+      fromCache: listResult.fromCache
+    };
+  }
+
+  return {
+    success: true,
+    message: 'Workflow found.',
+    exitCode: 0,
+    workflow,
+    fromCache: listResult.fromCache,
+    stale: listResult.stale,
+    cachedAt: listResult.cachedAt
+  };
+}
+
+/**
+ * Core implementation for checking a workflow key before a document is uploaded
+ * Uses the cached workflow list when it can be shown, and fetches the list with
+ * the given client when there is none or the key is not in it. If the list cannot
+ * be fetched the check is skipped, so the API still gets the final say.
+ *
+ * @param workflowKey Workflow key to check
+ * @param config Configuration object
+ * @param getClient Returns an initialized client, only called when the list must be fetched
+ * @param dependencies Injectable dependencies for testing
+ * @returns Result object, with a suggestion when the key looks like a typo
+ */
+export async function checkWorkflowKeyCore(
+  workflowKey: string,
+  config: CLIConfig,
+  getClient: () => any,
+  dependencies: WorkflowsDependencies = {}
+): Promise<WorkflowCheckResult> {
+  const now = dependencies.now || Date.now;
+  const hasKey = (workflows: Workflow[]) => workflows.some(workflow => workflow.workflow_key === workflowKey);
+
+  try {
+    const workflowCache = dependencies.workflowCache || createWorkflowCache(config.api_endpoint);
+    const cached = workflowCache.read();
+    const state = getWorkflowCacheState(cached?.cached_at, config.workflow_cache_ttl, now());
+    if (cached && (state === 'fresh' || state === 'stale') && hasKey(cached.workflows)) {
+      return {
+        success: true,
+        message: `Workflow "${workflowKey}" found.`,
+        exitCode: 0
+      };
+    }
+
+    // The key may have been added since the list was cached
+    const fetched = await fetchWithClient(getClient(), config, workflowCache, now);
+    if (!fetched.success || !fetched.workflows) {
+      return {
+        success: true,
+        message: `Could not check workflow "${workflowKey}": ${fetched.message}`,
+        exitCode: 0,
+        skipped: true
+      };
+    }
+
+    if (hasKey(fetched.workflows)) {
+      return {
+        success: true,
+        message: `Workflow "${workflowKey}" found.`,
+        exitCode: 0
+      };
+    }
+
+    const suggestion = findClosestMatch(workflowKey, fetched.workflows.map(workflow => workflow.workflow_key));
+    return {
+      success: false,
+      message: `Unknown workflow "${workflowKey}".` +
+        (suggestion ? ` Did you mean "${suggestion}"?` : '') +
+        ' Run "visionfi workflows list" to see available workflows, or pass --skip-workflow-check to submit anyway.',
+      exitCode: 1,
+      suggestion
+    };
+  } catch (err: any) {
+    return {
+      success: true,
+      message: `Could not check workflow "${workflowKey}": ${err.message}`,
+      exitCode: 0,
+      skipped: true
+    };
+  }
+}
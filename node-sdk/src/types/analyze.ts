@@ -3,12 +3,30 @@
  */
 
 import { CLIConfig } from './config';
+import { JobStore } from './jobs';
+import { ResultsClientFactory } from './results';
+import { WorkflowCache } from './workflows';
+import { RetryAttempt } from './retry';
+import { BatchFileState, BatchManifestStore } from './batch';
+import { SessionStore } from './session';
+import { PollProgress } from '../utils/polling';
 
 /**
  * Options for document analysis
  */
 export interface AnalyzeOptions {
   workflow: string;
+  wait?: boolean;
+  pollInterval?: number | string;
+  maxAttempts?: number | string;
+  timeout?: number | string;
+  maxInterval?: number | string;
+  backoff?: number | string;
+  out?: string;
+  outDir?: string;
+  skipWorkflowCheck?: boolean;
+  maxFileSize?: number | string;
+  force?: boolean;
   [key: string]: any;
 }
 
@@ -22,6 +40,10 @@ export interface AnalyzeCommandResult {
   uuid?: string;
   data?: any;
   error?: Error;
+  status?: string;
+  results?: any;
+  outputPath?: string;
+  deduplicated?: boolean;
 }
 
 /**
@@ -36,6 +58,7 @@ export type AnalyzeClientFactory = (config: {
     fileName: string;
     analysisType: string;
   }) => Promise<{ uuid?: string; [key: string]: any }>;
+  getWorkflows?: () => Promise<{ success: boolean; data?: any; [key: string]: any }>;
 };
 
 /**
@@ -44,6 +67,7 @@ export type AnalyzeClientFactory = (config: {
 export interface FileSystem {
   existsSync: (path: string) => boolean;
   readFileSync: (path: string) => Buffer;
+  statSync?: (path: string) => { size: number } | undefined;
 }
 
 /**
@@ -59,4 +83,75 @@ export interface ConfigManager {
  */
 export interface PathUtils {
   basename: (path: string) => string;
-}
\ No newline at end of file
+}
+
+/**
+ * Injectable dependencies for analyze operations
+ */
+export interface AnalyzeDependencies {
+  clientFactory?: AnalyzeClientFactory;
+  fileSystem?: FileSystem;
+  pathUtils?: PathUtils;
+  configManager?: ConfigManager;
+  directoryReader?: DirectoryReader;
+  jobStore?: JobStore;
+  workflowCache?: WorkflowCache;
+  resultsClientFactory?: ResultsClientFactory;
+  sleep?: (ms: number) => Promise<void>;
+  onPollProgress?: (progress: PollProgress) => void;
+  onRetry?: (retry: RetryAttempt) => void;
+  sessionStore?: SessionStore;
+  batchManifestStore?: BatchManifestStore;
+  now?: () => number;
+  onBatchStart?: (manifestPath: string, fileCount: number) => void;
+}
+
+/**
+ * Options for batch document analysis
+ */
+export interface BatchAnalyzeOptions extends AnalyzeOptions {
+  concurrency?: number | string;
+  manifest?: string;
+}
+
+/**
+ * Outcome of a single file within a batch analysis
+ */
+export interface BatchAnalyzeItem {
+  filePath: string;
+  success: boolean;
+  message: string;
+  uuid?: string;
+  status?: string;
+  outputPath?: string;
+  deduplicated?: boolean;
+  state?: BatchFileState;
+  skipped?: boolean;
+  error?: Error;
+}
+
+/**
+ * Result of batch analyze operations
+ */
+export interface BatchAnalyzeCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  items: BatchAnalyzeItem[];
+  submitted: number;
+  failed: number;
+  deduplicated: number;
+  skipped?: number;
+  manifestPath?: string;
+  error?: Error;
+}
+
+/**
+ * Type for directory traversal operations used when expanding batch inputs
+ */
+export interface DirectoryReader {
+  existsSync: (path: string) => boolean;
+  readdirSync: (path: string) => string[];
+  statSync: (path: string) => { isDirectory: () => boolean; isFile: () => boolean };
+  realpathSync?: (path: string) => string;
+}
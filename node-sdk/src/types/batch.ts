@@ -0,0 +1,63 @@
+/**
+ * Types for batch manifests and resuming interrupted batch runs
+ */
+
+import { BatchAnalyzeOptions } from './analyze';
+
+/**
+ * Progress of one file in a batch
+ * Files are pending until submitted; with --wait a submitted file becomes
+ * completed once its results are retrieved.
+ */
+export type BatchFileState = 'pending' | 'submitted' | 'completed' | 'failed';
+
+/**
+ * A file in a batch manifest
+ */
+export interface BatchManifestFile {
+  path: string;
+  state: BatchFileState;
+  uuid?: string;
+  message?: string;
+  output_path?: string;
+  updated_at?: string;
+}
+
+/**
+ * Analysis options recorded in a manifest so a resumed run behaves like the original
+ */
+export type BatchManifestOptions = Pick<
+  BatchAnalyzeOptions,
+  'workflow' | 'wait' | 'out' | 'pollInterval' | 'maxInterval' | 'backoff' | 'timeout' |
+  'maxAttempts' | 'maxFileSize' | 'force' | 'concurrency'
+>;
+
+/**
+ * Checkpoint file written during a batch run
+ */
+export interface BatchManifest {
+  version: number;
+  id: string;
+  created_at: string;
+  updated_at: string;
+  api_endpoint: string;
+  options: BatchManifestOptions;
+  files: BatchManifestFile[];
+}
+
+/**
+ * Storage operations for batch manifests
+ */
+export interface BatchManifestStore {
+  /** Path used for a new manifest when none is given */
+  defaultPath: (batchId: string) => string;
+  read: (filePath: string) => BatchManifest;
+  write: (filePath: string, manifest: BatchManifest) => void;
+}
+
+/**
+ * Options for resuming a batch
+ */
+export interface BatchResumeOptions {
+  concurrency?: number | string;
+}
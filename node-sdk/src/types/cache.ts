@@ -0,0 +1,21 @@
+/**
+ * Types for the local cache
+ */
+
+/**
+ * Options for clearing cached data
+ */
+export interface CacheClearOptions {
+  all?: boolean;
+}
+
+/**
+ * Result of cache operations
+ */
+export interface CacheCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  removed?: number;
+  error?: Error | any;
+}
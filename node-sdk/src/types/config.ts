@@ -9,6 +9,96 @@ export interface CLIConfig {
   debug_mode: boolean;
   test_mode: boolean;
   workflow_cache_ttl: number;
+  retries?: number;
+  session_ttl?: number;
+  config_version?: number;
+}
+
+/**
+ * Config keys that can be read and set by users
+ */
+export type ConfigKey = Exclude<keyof CLIConfig, 'config_version'>;
+
+/**
+ * Value type of a config key, used to parse values given on the command line
+ */
+export type ConfigValueType = 'url' | 'path' | 'boolean' | 'ttl' | 'list' | 'count';
+
+/**
+ * Definition of a config key
+ */
+export interface ConfigKeyDefinition {
+  type: ConfigValueType;
+  description: string;
+}
+
+/**
+ * A schema violation in the config file
+ */
+export interface ConfigIssue {
+  key: string;
+  message: string;
+}
+
+/**
+ * Configuration layer a value came from, lowest to highest precedence
+ */
+export type ConfigSource = 'default' | 'file' | 'env' | 'flag';
+
+/**
+ * Effective configuration with the layer each value came from
+ */
+export interface ResolvedConfig {
+  config: CLIConfig;
+  file: CLIConfig;
+  sources: { [key: string]: ConfigSource };
+}
+
+/**
+ * Options for showing the configuration
+ */
+export interface ConfigShowOptions {
+  resolved?: boolean;
+}
+
+/**
+ * Options for resetting the configuration
+ */
+export interface ConfigResetOptions {
+  yes?: boolean;
+}
+
+/**
+ * A config key with its definition and current value, as shown by `config list`
+ */
+export interface ConfigKeyInfo extends ConfigKeyDefinition {
+  key: string;
+  value: any;
+}
+
+/**
+ * Injectable dependencies for config operations
+ */
+export interface ConfigDependencies {
+  configResolver?: () => ResolvedConfig;
+  configWriter?: (config: CLIConfig) => void;
+  profileResolver?: () => string;
+}
+
+/**
+ * Result of config operations
+ */
+export interface ConfigCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  profile?: string;
+  config?: CLIConfig;
+  sources?: { [key: string]: ConfigSource };
+  key?: string;
+  value?: any;
+  keys?: ConfigKeyInfo[];
+  error?: Error;
 }
 
 export interface ClientInfo {
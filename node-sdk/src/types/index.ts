@@ -7,4 +7,15 @@ export * from './api';
 export * from './auth';
 export * from './analyze';
 export * from './results';
-export * from './interactive';
\ No newline at end of file
+export * from './interactive';
+export * from './jobs';
+export * from './profiles';
+export * from './cache';
+export * from './workflows';
+export * from './preflight';
+export * from './watch';
+export * from './test-suite';
+export * from './mock-server';
+export * from './retry';
+export * from './batch';
+export * from './session';
\ No newline at end of file
@@ -3,6 +3,11 @@
  */
 
 import { VisionFi } from 'visionfi';
+import { JobStore } from './jobs';
+import { ProfileManager } from './profiles';
+import { WorkflowCache } from './workflows';
+import { ResultsCache } from './results';
+import { SessionStore } from './session';
 
 /**
  * Options for interactive CLI
@@ -77,6 +82,31 @@ export interface InteractiveDependencies {
    * UI interface for interactive CLI
    */
   ui?: InteractiveUI;
+  
+  /**
+   * Local job ledger
+   */
+  jobStore?: JobStore;
+  
+  /**
+   * Named configuration profiles
+   */
+  profileManager?: ProfileManager;
+  
+  /**
+   * Factory for the on-disk workflow cache of an endpoint
+   */
+  workflowCacheFactory?: (apiEndpoint: string) => WorkflowCache;
+  
+  /**
+   * Saved results of completed jobs
+   */
+  resultsCache?: ResultsCache;
+  
+  /**
+   * Saved authentication session
+   */
+  sessionStore?: SessionStore;
 }
 
 /**
@@ -118,6 +148,11 @@ export interface InteractiveFileSystem {
    */
   readFileSync: (path: string) => Buffer;
   
+  /**
+   * Get file information (used to reject oversized documents before reading them)
+   */
+  statSync?: (path: string) => { size: number };
+  
   /**
    * Copy a file synchronously
    */
@@ -0,0 +1,61 @@
+/**
+ * Types for the local job ledger
+ */
+
+/**
+ * A job submitted through the CLI, as persisted in the local ledger
+ */
+export interface JobRecord {
+  uuid: string;
+  file_name: string;
+  file_path?: string;
+  file_hash: string;
+  workflow_key: string;
+  api_endpoint: string;
+  submitted_at: string;
+  status: string;
+  status_updated_at?: string;
+  result_location?: string;
+}
+
+/**
+ * Storage operations for the job ledger
+ */
+export interface JobStore {
+  recordJob: (record: JobRecord) => void;
+  updateJob: (uuid: string, changes: Partial<JobRecord>) => JobRecord | null;
+  getJob: (uuid: string) => JobRecord | null;
+  listJobs: () => JobRecord[];
+  removeJob: (uuid: string) => boolean;
+}
+
+/**
+ * Options for listing jobs
+ */
+export interface JobsListOptions {
+  status?: string;
+  workflow?: string;
+  limit?: number | string;
+}
+
+/**
+ * Options for pruning jobs
+ */
+export interface JobsPruneOptions {
+  olderThan?: number | string;
+  status?: string;
+  all?: boolean;
+}
+
+/**
+ * Result of jobs operations
+ */
+export interface JobsCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  jobs?: JobRecord[];
+  job?: JobRecord;
+  removed?: number;
+  error?: Error;
+}
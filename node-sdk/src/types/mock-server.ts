@@ -0,0 +1,85 @@
+/**
+ * Types for the local mock VisionFi server
+ */
+
+/**
+ * Name of an endpoint the mock server implements
+ */
+export type MockRouteName = 'authVerify' | 'clientInfo' | 'workflows' | 'analyze' | 'results';
+
+/**
+ * How the mock server answers one endpoint
+ * Paths may contain `:param` segments (e.g. `/results/:uuid`). String values
+ * in the body may use `{{uuid}}`, `{{workflow}}` and `{{now}}` placeholders.
+ */
+export interface MockRouteConfig {
+  method: string;
+  path: string;
+  status: number;
+  body: any;
+  latencyMs?: number;             // Overrides the server-wide latency
+  failureRate?: number;           // Overrides the server-wide failure rate (0-1)
+  failureStatus?: number;         // Status returned for injected failures
+}
+
+/**
+ * Mock server settings, as merged from defaults, a config file and options
+ */
+export interface MockServerConfig {
+  host: string;
+  port: number;
+  latencyMs: number;
+  failureRate: number;
+  failureStatus: number;
+  processingPolls: number;        // Results checks answered with processingBody before the results
+  processingBody: any;
+  routes: { [name in MockRouteName]: MockRouteConfig };
+}
+
+/**
+ * Command line options for the mock server
+ */
+export interface MockServerOptions {
+  port?: number | string;
+  host?: string;
+  config?: string;                // JSON file overriding any MockServerConfig fields
+  latency?: number | string;
+  failureRate?: number | string;
+  processingPolls?: number | string;
+}
+
+/**
+ * One request handled by the mock server, for logging
+ */
+export interface MockRequestLog {
+  method: string;
+  path: string;
+  status: number;
+  route?: MockRouteName;
+  injectedFailure?: boolean;
+  durationMs: number;
+}
+
+/**
+ * Injectable dependencies for the mock server
+ */
+export interface MockServerDependencies {
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  generateUuid?: () => string;
+  onRequest?: (entry: MockRequestLog) => void;
+  fileReader?: { readFileSync: (path: string, encoding: 'utf8') => string };
+}
+
+/**
+ * Result of starting the mock server
+ */
+export interface MockServerCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  url?: string;
+  config?: MockServerConfig;
+  close?: () => Promise<void>;
+  error?: Error | any;
+}
@@ -0,0 +1,35 @@
+/**
+ * Types for local document checks before upload
+ */
+
+/**
+ * Document types accepted for analysis
+ */
+export type DocumentType = 'pdf' | 'png' | 'jpeg' | 'tiff';
+
+/**
+ * Options for preflight checks
+ */
+export interface PreflightOptions {
+  maxFileSize?: number;
+}
+
+/**
+ * File system operations used by preflight checks
+ * statSync is optional; when present, oversized files are rejected before they are read.
+ */
+export interface PreflightFileSystem {
+  readFileSync: (path: string) => Buffer;
+  statSync?: (path: string) => { size: number } | undefined;
+}
+
+/**
+ * Result of preflight checks
+ */
+export interface PreflightResult {
+  success: boolean;
+  message: string;
+  fileType?: DocumentType;
+  size?: number;
+  fileData?: Buffer;
+}
@@ -0,0 +1,51 @@
+/**
+ * Types for named configuration profiles
+ */
+
+import { CLIConfig } from './config';
+
+/**
+ * Summary of a profile as shown by `profile list`
+ */
+export interface ProfileSummary {
+  name: string;
+  active: boolean;
+  config_path: string;
+  service_account_path: string;
+  api_endpoint: string;
+  workflow_cache_ttl: number;
+}
+
+/**
+ * Storage operations for profiles
+ */
+export interface ProfileManager {
+  listProfiles: () => ProfileSummary[];
+  profileExists: (name: string) => boolean;
+  createProfile: (name: string, settings: Partial<CLIConfig>) => ProfileSummary;
+  removeProfile: (name: string) => boolean;
+  getActiveProfile: () => string;
+  setActiveProfile: (name: string) => void;
+}
+
+/**
+ * Options for adding a profile
+ */
+export interface ProfileAddOptions {
+  endpoint?: string;
+  serviceAccount?: string;
+  cacheTtl?: string;
+  use?: boolean;
+}
+
+/**
+ * Result of profile operations
+ */
+export interface ProfileCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  profiles?: ProfileSummary[];
+  profile?: ProfileSummary;
+  error?: Error;
+}
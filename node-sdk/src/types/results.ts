@@ -2,7 +2,10 @@
  * Types for results retrieval functionality
  */
 
-import { CLIConfig } from './config';
+import { JobStore } from './jobs';
+import { RetryAttempt } from './retry';
+import { SessionStore } from './session';
+import { PollProgress } from '../utils/polling';
 
 /**
  * Options for results retrieval
@@ -11,6 +14,14 @@ export interface ResultsOptions {
   wait?: boolean;
   pollInterval?: number | string;
   maxAttempts?: number | string;
+  timeout?: number | string;      // Wall-clock limit for --wait, in seconds
+  maxInterval?: number | string;  // Upper bound for the backoff delay, in ms
+  backoff?: number | string;      // Delay multiplier applied after each attempt
+  format?: string;                // Export format: json, yaml, csv, tsv or table
+  out?: string;                   // File to write the formatted results to
+  select?: string | string[];     // Selector expressions for the fields to return
+  cached?: boolean;               // Only use results saved in the local results cache
+  refresh?: boolean;              // Ignore the local results cache and fetch again
   [key: string]: any;
 }
 
@@ -23,9 +34,112 @@ export interface ResultsCommandResult {
   exitCode: number;
   status?: string;
   results?: any;
+  timedOut?: boolean;
+  outputPath?: string;
+  selected?: { [expression: string]: any };
+  fromCache?: boolean;
+  cachedAt?: string;
   error?: Error | any;
 }
 
+/**
+ * Options for retrieving the results of several jobs at once
+ */
+export interface BulkResultsOptions extends ResultsOptions {
+  fromFile?: string;              // File listing job UUIDs, one per line
+  allRecent?: boolean;            // Include the most recent jobs from the job ledger
+  concurrency?: number | string;
+}
+
+/**
+ * Outcome of a single job within a bulk retrieval
+ */
+export interface BulkResultsItem {
+  uuid: string;
+  success: boolean;
+  message: string;
+  status?: string;
+  results?: any;
+  timedOut?: boolean;
+  fromCache?: boolean;
+  error?: Error | any;
+}
+
+/**
+ * Result of bulk results retrieval
+ */
+export interface BulkResultsCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  items: BulkResultsItem[];
+  retrieved: number;
+  pending: number;
+  failed: number;
+  outputPath?: string;
+  error?: Error | any;
+}
+
+/**
+ * One step of a parsed selector expression
+ */
+export type SelectorToken =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+/**
+ * A parsed selector expression such as `$.line_items[*].amount`
+ */
+export interface Selector {
+  expression: string;
+  tokens: SelectorToken[];
+  wildcard: boolean;              // Whether the selector can match several values
+}
+
+/**
+ * A single difference between two results
+ */
+export interface ResultDiffEntry {
+  path: string;                   // Dotted path of the field ('' for the whole result)
+  kind: 'added' | 'removed' | 'changed';
+  before?: any;
+  after?: any;
+}
+
+/**
+ * Result of comparing two results
+ */
+export interface ResultsDiffCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  left?: string;
+  right?: string;
+  identical?: boolean;
+  changes?: ResultDiffEntry[];
+  error?: Error | any;
+}
+
+/**
+ * Completed results saved in the local results cache
+ */
+export interface CachedResults {
+  uuid: string;
+  api_endpoint: string;
+  cached_at: string;
+  status?: string;
+  results: any;
+}
+
+/**
+ * Storage operations for the local results cache
+ */
+export interface ResultsCache {
+  read: (uuid: string) => CachedResults | null;
+  write: (entry: CachedResults) => void;
+}
+
 /**
  * Type for API client factory functions
  */
@@ -47,9 +161,14 @@ export type ResultsClientFactory = (config: {
 };
 
 /**
- * Type for config operations
+ * Injectable dependencies for results operations
  */
-export interface ResultsConfigManager {
-  loadConfig: () => CLIConfig;
-  saveConfig: (config: CLIConfig) => void;
+export interface ResultsDependencies {
+  clientFactory?: ResultsClientFactory;
+  jobStore?: JobStore;
+  resultsCache?: ResultsCache;
+  sleep?: (ms: number) => Promise<void>;
+  onPollProgress?: (progress: PollProgress) => void;
+  onRetry?: (retry: RetryAttempt) => void;
+  sessionStore?: SessionStore;
 }
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * Type definitions for retrying VisionFi API calls
+ */
+
+/**
+ * How a failed API call should be treated
+ */
+export interface RetryClassification {
+  retryable: boolean;
+  /** Short description of the failure, e.g. "HTTP 503" or "ECONNRESET" */
+  reason: string;
+  /** HTTP status of the failure, if known */
+  status?: number;
+  /** Delay requested by the server with Retry-After, in milliseconds */
+  retryAfterMs?: number;
+}
+
+/**
+ * Information about a retry, reported before waiting
+ */
+export interface RetryAttempt {
+  /** The retry about to be made (1-based) */
+  attempt: number;
+  retries: number;
+  delayMs: number;
+  reason: string;
+  method?: string;
+  error: any;
+}
+
+/**
+ * Options for retrying API calls
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt (defaults to 3) */
+  retries?: number;
+  /** Delay before the first retry, in milliseconds */
+  initialDelay?: number;
+  /** Upper bound for the delay between attempts, in milliseconds */
+  maxDelay?: number;
+  /** Called before waiting for each retry */
+  onRetry?: (attempt: RetryAttempt) => void;
+  /** Injectable timer functions for testing */
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  random?: () => number;
+}
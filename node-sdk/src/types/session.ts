@@ -0,0 +1,36 @@
+/**
+ * Types for cached authentication sessions
+ */
+
+/**
+ * A successful authentication check saved on disk
+ * The session only applies to the service account file it was verified with
+ * (same path and unchanged contents) and to the same API endpoint.
+ */
+export interface AuthSession {
+  service_account_path: string;
+  /** Size and modification time of the service account file */
+  service_account_fingerprint: string;
+  api_endpoint: string;
+  verified_at: number;
+  expires_at: number;
+}
+
+/**
+ * Storage operations for the active profile's session
+ */
+export interface SessionStore {
+  read: () => AuthSession | null;
+  write: (session: AuthSession) => void;
+  clear: () => void;
+}
+
+/**
+ * Options for wrapping a client with session handling
+ */
+export interface SessionOptions {
+  sessionStore?: SessionStore;
+  /** Always verify with the API, ignoring a cached session (the result is still saved) */
+  force?: boolean;
+  now?: () => number;
+}
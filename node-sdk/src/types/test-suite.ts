@@ -0,0 +1,81 @@
+/**
+ * Types for workflow regression suites
+ */
+
+/**
+ * Expected value of a field
+ * A plain value must match exactly; an object form allows a regular
+ * expression, a presence check or an exact match on an object.
+ */
+export type FieldExpectation =
+  | string
+  | number
+  | boolean
+  | null
+  | any[]
+  | { equals: any }
+  | { pattern: string; flags?: string }
+  | { exists: boolean };
+
+/**
+ * A single regression case: one document, one workflow, expected fields
+ */
+export interface TestCase {
+  name?: string;
+  file: string;                   // Relative to the suite's baseDir
+  workflow?: string;              // Defaults to the suite's workflow
+  expect: { [selector: string]: FieldExpectation };
+}
+
+/**
+ * A regression suite as stored in a suite JSON file
+ */
+export interface TestSuite {
+  name?: string;
+  workflow?: string;
+  baseDir?: string;               // Relative to the suite file (defaults to its directory)
+  timeout?: number;               // Seconds to wait for each case's results
+  cases: TestCase[];
+}
+
+/**
+ * Options for running a suite
+ */
+export interface TestRunOptions {
+  junit?: string;                 // File to write a JUnit XML report to
+  timeout?: number | string;      // Overrides the suite's timeout, in seconds
+  concurrency?: number | string;
+}
+
+/**
+ * Outcome of a single case
+ * - passed: every expectation matched
+ * - failed: results came back but did not match
+ * - error: the document could not be analyzed or no results arrived
+ */
+export interface TestCaseResult {
+  name: string;
+  file: string;
+  workflow: string;
+  outcome: 'passed' | 'failed' | 'error';
+  durationMs: number;
+  uuid?: string;
+  failures: string[];
+}
+
+/**
+ * Result of running a suite
+ */
+export interface TestRunCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  suite?: string;
+  cases: TestCaseResult[];
+  passed: number;
+  failed: number;
+  errors: number;
+  durationMs?: number;
+  junitPath?: string;
+  error?: Error | any;
+}
@@ -0,0 +1,80 @@
+/**
+ * Types for watching in-flight jobs
+ */
+
+import { JobStore } from './jobs';
+import { ResultsClientFactory } from './results';
+import { RetryAttempt } from './retry';
+import { SessionStore } from './session';
+
+/**
+ * Coarse state of a watched job
+ */
+export type WatchJobState = 'pending' | 'processing' | 'complete' | 'error';
+
+/**
+ * Options for watching jobs
+ */
+export interface WatchOptions {
+  interval?: number | string;     // Seconds between polling rounds
+  timeout?: number | string;      // Stop watching after this many seconds
+  outDir?: string;                // Directory to write each job's results to
+  onComplete?: string;            // Shell command run as each job finishes
+  concurrency?: number | string;
+}
+
+/**
+ * A job being watched
+ */
+export interface WatchJob {
+  uuid: string;
+  state: WatchJobState;
+  status?: string;
+  fileName?: string;
+  startedAt: number;
+  finishedAt?: number;
+  outputPath?: string;
+  message?: string;
+  failedChecks?: number;          // Checks in a row that failed
+}
+
+/**
+ * Environment passed to the completion hook
+ */
+export interface WatchHookEnv {
+  VISIONFI_JOB_UUID: string;
+  VISIONFI_JOB_STATE: WatchJobState;
+  VISIONFI_JOB_STATUS: string;
+  VISIONFI_RESULT_PATH: string;
+  VISIONFI_FILE_NAME: string;
+}
+
+/**
+ * Injectable dependencies for watch operations
+ */
+export interface WatchDependencies {
+  clientFactory?: ResultsClientFactory;
+  jobStore?: JobStore;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  runHook?: (command: string, env: WatchHookEnv) => Promise<number>;
+  onUpdate?: (jobs: WatchJob[]) => void;
+  onJobFinished?: (job: WatchJob) => void;
+  onRetry?: (retry: RetryAttempt) => void;
+  sessionStore?: SessionStore;
+}
+
+/**
+ * Result of watch operations
+ */
+export interface WatchCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  jobs: WatchJob[];
+  completed: number;
+  failed: number;
+  pending: number;
+  timedOut?: boolean;
+  error?: Error | any;
+}
@@ -0,0 +1,94 @@
+/**
+ * Types for workflow listing functionality
+ */
+
+import { Workflow } from './config';
+import { RetryAttempt } from './retry';
+import { SessionStore } from './session';
+
+/**
+ * Options for listing and showing workflows
+ */
+export interface WorkflowsOptions {
+  refresh?: boolean;
+}
+
+/**
+ * Cached workflow list as stored on disk
+ */
+export interface WorkflowCacheEntry {
+  api_endpoint: string;
+  cached_at: number;
+  workflows: Workflow[];
+}
+
+/**
+ * Freshness of a cached workflow list
+ * - fresh: younger than workflow_cache_ttl
+ * - stale: expired, but can be shown while a newer list is fetched
+ * - expired: too old to show
+ */
+export type WorkflowCacheState = 'fresh' | 'stale' | 'expired' | 'missing';
+
+/**
+ * Storage for the cached workflow list of one profile and endpoint
+ */
+export interface WorkflowCache {
+  read: () => WorkflowCacheEntry | null;
+  write: (entry: WorkflowCacheEntry) => void;
+  clear: () => void;
+}
+
+/**
+ * Type for API client factory functions
+ */
+export type WorkflowsClientFactory = (config: {
+  serviceAccountPath: string;
+  apiBaseUrl: string;
+}) => {
+  verifyAuth: () => Promise<{ data: any }>;
+  getWorkflows: () => Promise<{
+    success: boolean;
+    data?: Workflow[];
+    [key: string]: any;
+  }>;
+};
+
+/**
+ * Injectable dependencies for workflow operations
+ */
+export interface WorkflowsDependencies {
+  clientFactory?: WorkflowsClientFactory;
+  workflowCache?: WorkflowCache;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  onRevalidate?: (revalidation: Promise<WorkflowsCommandResult>) => void;
+  onRetry?: (retry: RetryAttempt) => void;
+  sessionStore?: SessionStore;
+}
+
+/**
+ * Result of workflow operations
+ */
+export interface WorkflowsCommandResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  workflows?: Workflow[];
+  workflow?: Workflow;
+  fromCache?: boolean;
+  stale?: boolean;
+  cachedAt?: string;
+  error?: Error | any;
+}
+
+/**
+ * Result of checking a workflow key before upload
+ */
+export interface WorkflowCheckResult {
+  success: boolean;
+  message: string;
+  exitCode: number;
+  suggestion?: string;
+  skipped?: boolean;
+}
@@ -0,0 +1,34 @@
+/**
+ * Text rendering for results diffs
+ */
+
+import chalk from 'chalk';
+import { ResultDiffEntry } from '../types/results';
+
+/**
+ * Render a value compactly on one line
+ */
+function inline(value: any): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/**
+ * Render diff entries as colored lines: `+` added, `-` removed, `~` changed
+ * Colors are dropped automatically when stdout is not a terminal.
+ *
+ * @param entries Differences to render
+ * @returns One line per difference
+ */
+export function formatResultsDiff(entries: ResultDiffEntry[]): string {
+  return entries.map(entry => {
+    const path = entry.path || '(root)';
+    switch (entry.kind) {
+      case 'added':
+        return chalk.green(`+ ${path}: ${inline(entry.after)}`);
+      case 'removed':
+        return chalk.red(`- ${path}: ${inline(entry.before)}`);
+      case 'changed':
+        return chalk.yellow(`~ ${path}: ${inline(entry.before)} -> ${inline(entry.after)}`);
+    }
+  }).join('\n');
+}
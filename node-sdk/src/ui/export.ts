@@ -0,0 +1,246 @@
+/**
+ * Export formats for analysis results
+ * Spreadsheet formats (csv, tsv) get one row per result record with dotted-path
+ * columns; table and yaml are meant for reading in a terminal.
+ */
+
+import { formatTable } from './table';
+import { flattenObject, isPlainObject, toRecords } from '../utils/flatten';
+import { BulkResultsItem } from '../types/results';
+
+export type ResultsFormat = 'json' | 'yaml' | 'csv' | 'tsv' | 'table';
+
+export const RESULTS_FORMATS: ResultsFormat[] = ['json', 'yaml', 'csv', 'tsv', 'table'];
+
+// Byte order mark so spreadsheet applications detect UTF-8 in exported files
+export const UTF8_BOM = '\ufeff';
+
+/**
+ * Validate a --format option value
+ * @throws Error if the format is not supported
+ */
+export function parseResultsFormat(value: string | undefined): ResultsFormat {
+  const format = (value || 'json').trim().toLowerCase();
+
+  if (!RESULTS_FORMATS.includes(format as ResultsFormat)) {
+    throw new Error(`Invalid format "${value}". Use one of: ${RESULTS_FORMATS.join(', ')}`);
+  }
+
+  return format as ResultsFormat;
+}
+
+/**
+ * Render a leaf value as cell text
+ */
+function cellText(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (isPlainObject(value)) {
+    return '{}';
+  }
+  return String(value);
+}
+
+/**
+ * Quote a cell for csv/tsv output when it contains the delimiter, quotes or line breaks
+ */
+function escapeCell(text: string, delimiter: string): string {
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render results as delimited rows with a header of dotted-path columns
+ * Columns are the union of all records' fields, in order of first appearance.
+ *
+ * @param results Results to export
+ * @param delimiter Cell separator (`,` for csv, tab for tsv)
+ */
+export function toDelimited(results: any, delimiter: string): string {
+  const rows = toRecords(results).map(record => flattenObject(record));
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const column of Object.keys(row)) {
+      if (!columns.includes(column)) {
+        columns.push(column);
+      }
+    }
+  }
+
+  const lines = [
+    columns.map(column => escapeCell(column, delimiter)).join(delimiter),
+    ...rows.map(row => columns.map(column => escapeCell(cellText(row[column]), delimiter)).join(delimiter))
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Render results as a two-column table of dotted paths and values
+ */
+export function toKeyValueTable(results: any): string {
+  const rows = Object.entries(flattenObject(results)).map(([key, value]) => [
+    key,
+    cellText(value).replace(/\r?\n/g, ' ')
+  ]);
+  return formatTable(['Field', 'Value'], rows);
+}
+
+/**
+ * Render a scalar, quoting it when YAML would otherwise read it as another type
+ */
+function yamlScalar(value: any): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+
+  const text = String(value);
+  const needsQuotes =
+    text === '' ||
+    /^\s|\s$/.test(text) ||
+    /[:#\n\r\t"'\\]/.test(text) ||
+    /^[-?[\]{},&*!|>%@`]/.test(text) ||
+    /^(true|false|null|yes|no|on|off|~)$/i.test(text) ||
+    /^[-+]?(\d|\.\d)/.test(text);
+  return needsQuotes ? JSON.stringify(text) : text;
+}
+
+/**
+ * Render a value on the same line as its key or list marker
+ */
+function yamlInline(value: any): string {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (isPlainObject(value)) {
+    return '{}';
+  }
+  return yamlScalar(value);
+}
+
+/**
+ * Check whether a value is rendered as an indented block
+ */
+function isBlock(value: any): boolean {
+  return (Array.isArray(value) && value.length > 0) || (isPlainObject(value) && Object.keys(value).length > 0);
+}
+
+/**
+ * Render a value as YAML lines at the given indentation level
+ */
+function yamlLines(value: any, indent: number): string[] {
+  const pad = '  '.repeat(indent);
+
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap(item => {
+      if (!isBlock(item)) {
+        return [`${pad}- ${yamlInline(item)}`];
+      }
+      const [first, ...rest] = yamlLines(item, indent + 1);
+      return [`${pad}- ${first.trimStart()}`, ...rest];
+    });
+  }
+
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    return Object.entries(value).flatMap(([key, item]) => isBlock(item)
+      ? [`${pad}${yamlScalar(key)}:`, ...yamlLines(item, indent + 1)]
+      : [`${pad}${yamlScalar(key)}: ${yamlInline(item)}`]);
+  }
+
+  return [`${pad}${yamlInline(value)}`];
+}
+
+/**
+ * Render a value as a YAML document
+ */
+export function toYaml(value: any): string {
+  return yamlLines(value, 0).join('\n') + '\n';
+}
+
+/**
+ * Render results in the given format
+ *
+ * @param results Results to render
+ * @param format Export format
+ * @returns The rendered text, ending with a line break
+ */
+export function formatResults(results: any, format: ResultsFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(results, null, 2) + '\n';
+    case 'yaml':
+      return toYaml(results);
+    case 'csv':
+      return toDelimited(results, ',');
+    case 'tsv':
+      return toDelimited(results, '\t');
+    case 'table':
+      return toKeyValueTable(results) + '\n';
+  }
+}
+
+/**
+ * Render fields picked with --select
+ * A single field in json format is printed as a bare value (strings without
+ * quotes) so scripts can use it directly; otherwise the fields are rendered as
+ * an object keyed by expression.
+ *
+ * @param selected Map of each selector expression to its value
+ * @param format Export format
+ */
+export function formatSelection(selected: { [expression: string]: any }, format: ResultsFormat): string {
+  const values = Object.values(selected);
+
+  if (values.length === 1 && format === 'json') {
+    return typeof values[0] === 'string' ? `${values[0]}\n` : JSON.stringify(values[0], null, 2) + '\n';
+  }
+  return formatResults(selected, format);
+}
+
+/**
+ * Render a combined report for several jobs
+ * Spreadsheet formats get one row per job with its status followed by the
+ * job's flattened results; table gives a per-job status summary.
+ *
+ * @param items Per-job outcomes
+ * @param format Export format
+ * @returns The rendered text, ending with a line break
+ */
+export function formatResultsReport(items: BulkResultsItem[], format: ResultsFormat): string {
+  switch (format) {
+    case 'json':
+    case 'yaml': {
+      const entries = items.map(item => ({
+        uuid: item.uuid,
+        success: item.success,
+        status: item.status,
+        message: item.message,
+        ...(item.results !== undefined ? { results: item.results } : {})
+      }));
+      return format === 'json' ? JSON.stringify(entries, null, 2) + '\n' : toYaml(entries);
+    }
+    case 'csv':
+    case 'tsv': {
+      const rows = items.map(item => ({
+        uuid: item.uuid,
+        status: item.status || (item.success ? '' : 'failed'),
+        error: item.success ? '' : item.message,
+        ...(item.results !== undefined ? { results: item.results } : {})
+      }));
+      return toDelimited(rows, format === 'csv' ? ',' : '\t');
+    }
+    case 'table': {
+      const rows = items.map(item => [
+        item.uuid,
+        item.status || (item.success ? '' : 'failed'),
+        item.message
+      ]);
+      return formatTable(['Job UUID', 'Status', 'Result'], rows) + '\n';
+    }
+  }
+}
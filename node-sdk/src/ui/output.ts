@@ -0,0 +1,103 @@
+/**
+ * Machine-readable output for command results
+ * Text output is the default; json and ndjson write results to stdout so the
+ * CLI can be used in pipelines, with diagnostics kept on stderr.
+ */
+
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'ndjson'];
+
+/**
+ * Validate an --output option value
+ * @throws Error if the format is not supported
+ */
+export function parseOutputFormat(value: string | undefined): OutputFormat {
+  const format = (value || 'text').trim().toLowerCase();
+
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new Error(`Invalid output format "${value}". Use one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  return format as OutputFormat;
+}
+
+/**
+ * Check whether the format writes structured data instead of prose
+ */
+export function isStructuredOutput(format: OutputFormat): boolean {
+  return format !== 'text';
+}
+
+/**
+ * Convert a value into plain JSON data
+ * Keeps Error details (which JSON.stringify drops) and removes circular references.
+ */
+export function toSerializable(value: any, ancestors: object[] = []): any {
+  if (value instanceof Error) {
+    return toSerializable({ ...value, name: value.name, message: value.message }, ancestors);
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  if (ancestors.includes(value)) {
+    return undefined;
+  }
+
+  if (Buffer.isBuffer(value)) {
+    return `<${value.length} bytes>`;
+  }
+
+  if (typeof value.toJSON === 'function') {
+    return value.toJSON();
+  }
+
+  const nextAncestors = [...ancestors, value];
+
+  if (Array.isArray(value)) {
+    return value.map(item => toSerializable(item, nextAncestors));
+  }
+
+  const result: { [key: string]: any } = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = toSerializable(item, nextAncestors);
+  }
+  return result;
+}
+
+/**
+ * Serialize a value for structured output
+ * @param value Value to serialize
+ * @param pretty Indent the output (json) or keep it on one line (ndjson)
+ */
+export function serializeOutput(value: any, pretty: boolean): string {
+  return JSON.stringify(toSerializable(value), null, pretty ? 2 : undefined);
+}
+
+/**
+ * Write a command result in a structured format
+ * With ndjson, `records` (when given) are written one per line instead of the whole result,
+ * so list-like commands stream one object per file or job.
+ *
+ * @param result The command result object
+ * @param format Output format (json or ndjson)
+ * @param records Optional per-record values for ndjson output
+ * @param write Output sink (defaults to stdout)
+ */
+export function writeStructuredOutput(
+  result: any,
+  format: OutputFormat,
+  records?: any[],
+  write: (text: string) => void = (text) => process.stdout.write(text)
+): void {
+  if (format === 'ndjson') {
+    const lines = records ? records : [result];
+    for (const line of lines) {
+      write(serializeOutput(line, false) + '\n');
+    }
+  } else {
+    write(serializeOutput(result, true) + '\n');
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Single-line live status display for long-running operations
+ * Rewrites one line on stderr so stdout stays clean for results
+ */
+
+import { PollProgress } from '../utils/polling';
+
+/**
+ * Minimal writable stream used by the status line
+ */
+export interface StatusStream {
+  isTTY?: boolean;
+  write: (text: string) => any;
+}
+
+/**
+ * Live status line handle
+ */
+export interface StatusLine {
+  update: (text: string) => void;
+  done: () => void;
+}
+
+/**
+ * Format a duration in milliseconds as a short human-readable string
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Create a status line that rewrites itself in place
+ * Nothing is written when the stream is not a terminal, so logs and pipes stay quiet.
+ *
+ * @param stream Output stream (defaults to stderr)
+ * @returns Status line handle
+ */
+export function createStatusLine(stream: StatusStream = process.stderr): StatusLine {
+  let active = false;
+
+  return {
+    update(text: string) {
+      if (!stream.isTTY) {
+        return;
+      }
+      stream.write(`\r\u001b[2K${text}`);
+      active = true;
+    },
+    done() {
+      if (active) {
+        stream.write('\r\u001b[2K');
+        active = false;
+      }
+    }
+  };
+}
+
+/**
+ * Create a multi-line status block that redraws itself in place
+ * Like the status line, nothing is written when the stream is not a terminal.
+ *
+ * @param stream Output stream (defaults to stderr)
+ * @returns Status handle; update() replaces the whole block
+ */
+export function createStatusBlock(stream: StatusStream = process.stderr): StatusLine {
+  let lineCount = 0;
+
+  const clear = () => {
+    if (lineCount > 0) {
+      stream.write(`\u001b[${lineCount}A\r\u001b[0J`);
+      lineCount = 0;
+    }
+  };
+
+  return {
+    update(text: string) {
+      if (!stream.isTTY) {
+        return;
+      }
+      clear();
+      stream.write(text.endsWith('\n') ? text : `${text}\n`);
+      lineCount = text.replace(/\n$/, '').split('\n').length;
+    },
+    done() {
+      clear();
+    }
+  };
+}
+
+/**
+ * Describe a polling attempt for the status line
+ *
+ * @param label What is being waited for
+ * @param progress Progress reported by the polling engine
+ * @returns Status text with elapsed time, attempt count and the next check
+ */
+export function describePollProgress(label: string, progress: PollProgress): string {
+  const parts = [
+    `${label}`,
+    `elapsed ${formatDuration(progress.elapsedMs)}`,
+    `attempt ${progress.attempt}`
+  ];
+
+  if (progress.value && progress.value.status) {
+    parts.push(`status ${progress.value.status}`);
+  }
+
+  if (progress.nextDelayMs !== undefined) {
+    parts.push(`next check in ${formatDuration(progress.nextDelayMs)}`);
+  }
+
+  return parts.join(' | ');
+}
@@ -0,0 +1,44 @@
+/**
+ * Plain-text table rendering for command summaries
+ */
+
+// Matches ANSI color escape sequences so colored cells are padded correctly
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+/**
+ * Get the printable width of a string, ignoring color codes
+ */
+export function visibleLength(text: string): number {
+  return text.replace(ANSI_PATTERN, '').length;
+}
+
+/**
+ * Pad a string to the given printable width
+ */
+function padCell(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - visibleLength(text)));
+}
+
+/**
+ * Render rows as an aligned table with a header row and separator
+ *
+ * @param headers Column headings
+ * @param rows Table rows (cells may contain color codes)
+ * @returns The rendered table as a single string
+ */
+export function formatTable(headers: string[], rows: string[][]): string {
+  const widths = headers.map((header, column) =>
+    Math.max(visibleLength(header), ...rows.map(row => visibleLength(row[column] || '')))
+  );
+
+  const renderRow = (cells: string[]) =>
+    cells.map((cell, column) => padCell(cell || '', widths[column])).join('  ').trimEnd();
+
+  const lines = [
+    renderRow(headers),
+    widths.map(width => '-'.repeat(width)).join('  '),
+    ...rows.map(renderRow)
+  ];
+
+  return lines.join('\n');
+}
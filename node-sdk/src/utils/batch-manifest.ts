@@ -0,0 +1,138 @@
+/**
+ * Batch manifests: checkpoint files recording the progress of every file in a
+ * batch run, so an interrupted run can be resumed without resubmitting files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { getBatchesDir } from './config';
+import { BatchAnalyzeOptions } from '../types/analyze';
+import { BatchManifest, BatchManifestFile, BatchManifestOptions, BatchManifestStore } from '../types/batch';
+
+// Version written to new manifests
+export const BATCH_MANIFEST_VERSION = 1;
+
+const FILE_STATES = ['pending', 'submitted', 'completed', 'failed'];
+
+// Options copied into the manifest, see BatchManifestOptions
+const RECORDED_OPTIONS: (keyof BatchManifestOptions)[] = [
+  'workflow',
+  'wait',
+  'out',
+  'pollInterval',
+  'maxInterval',
+  'backoff',
+  'timeout',
+  'maxAttempts',
+  'maxFileSize',
+  'force',
+  'concurrency'
+];
+
+/**
+ * Create the manifest for a new batch run with every file pending
+ *
+ * @param files Files in the batch
+ * @param options Analysis options of the run
+ * @param apiEndpoint Endpoint the files are submitted to
+ * @param now Current time in milliseconds
+ */
+export function createBatchManifest(
+  files: string[],
+  options: BatchAnalyzeOptions,
+  apiEndpoint: string,
+  now: number = Date.now()
+): BatchManifest {
+  const timestamp = new Date(now).toISOString();
+  const recorded: BatchManifestOptions = { workflow: options.workflow };
+
+  for (const key of RECORDED_OPTIONS) {
+    if (options[key] !== undefined) {
+      (recorded as any)[key] = options[key];
+    }
+  }
+  // Output directories are stored as absolute paths so the batch can be resumed from anywhere
+  if (recorded.out) {
+    recorded.out = path.resolve(recorded.out);
+  }
+
+  return {
+    version: BATCH_MANIFEST_VERSION,
+    id: `batch-${timestamp.replace(/[:.]/g, '-')}`,
+    created_at: timestamp,
+    updated_at: timestamp,
+    api_endpoint: apiEndpoint,
+    options: recorded,
+    files: files.map(file => ({ path: path.resolve(file), state: 'pending' }))
+  };
+}
+
+/**
+ * Check whether a file needs no more work
+ * Submitted files are finished unless the batch waits for results.
+ */
+export function isBatchFileFinished(file: BatchManifestFile, wait?: boolean): boolean {
+  return file.state === 'completed' || (file.state === 'submitted' && !wait);
+}
+
+/**
+ * Check that parsed JSON has the shape of a batch manifest
+ * @returns A description of the problem, or null if it is valid
+ */
+function checkManifest(manifest: any): string | null {
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    return 'expected a JSON object';
+  }
+  if (manifest.version !== BATCH_MANIFEST_VERSION) {
+    return `unsupported manifest version ${JSON.stringify(manifest.version)}`;
+  }
+  if (typeof manifest.api_endpoint !== 'string' || typeof manifest.options?.workflow !== 'string') {
+    return 'missing api_endpoint or workflow';
+  }
+  if (!Array.isArray(manifest.files)) {
+    return 'missing the list of files';
+  }
+
+  const invalid = manifest.files.findIndex((file: any) =>
+    typeof file?.path !== 'string' || !FILE_STATES.includes(file.state));
+  return invalid === -1 ? null : `file ${invalid + 1} has no path or an unknown state`;
+}
+
+/**
+ * Create a manifest store for JSON files on disk
+ *
+ * @param batchesDir Directory for manifests without an explicit path (defaults to the active profile's batches directory)
+ */
+export function createBatchManifestStore(batchesDir: string = getBatchesDir()): BatchManifestStore {
+  return {
+    defaultPath(batchId: string): string {
+      return path.join(batchesDir, `${batchId}.json`);
+    },
+
+    read(filePath: string): BatchManifest {
+      let manifest: any;
+      try {
+        manifest = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      } catch (err: any) {
+        throw new Error(err.code === 'ENOENT'
+          ? `Batch manifest not found: ${filePath}`
+          : `Cannot read batch manifest ${filePath}: ${err.message}`);
+      }
+
+      const problem = checkManifest(manifest);
+      if (problem) {
+        throw new Error(`Invalid batch manifest ${filePath}: ${problem}`);
+      }
+      return manifest as BatchManifest;
+    },
+
+    write(filePath: string, manifest: BatchManifest): void {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      // Write to a temporary file first so an interrupted write never leaves a truncated manifest
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(manifest, null, 2));
+      fs.renameSync(tempPath, filePath);
+    }
+  };
+}
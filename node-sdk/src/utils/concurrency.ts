@@ -0,0 +1,54 @@
+/**
+ * Helpers for running asynchronous work with bounded parallelism
+ */
+
+/**
+ * Map over items with at most `limit` promises in flight at once
+ * Results are returned in the same order as the input items.
+ *
+ * @param items Items to process
+ * @param limit Maximum number of concurrent workers (minimum 1)
+ * @param worker Async function applied to each item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  let nextIndex = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < workerCount; i++) {
+    workers.push(runWorker());
+  }
+
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Parse a concurrency option from the command line
+ *
+ * @param value Raw option value
+ * @param fallback Value to use when the option is missing or invalid
+ * @returns A positive integer
+ */
+export function parseConcurrency(value: number | string | undefined, fallback: number = 4): number {
+  const parsed = typeof value === 'string' ? parseInt(value, 10) : value;
+
+  if (parsed === undefined || isNaN(parsed) || parsed < 1) {
+    return fallback;
+  }
+
+  return Math.floor(parsed);
+}
@@ -0,0 +1,202 @@
+/**
+ * Schema, validation and migrations for the config file
+ */
+
+import { CLIConfig, ConfigIssue, ConfigKey, ConfigKeyDefinition } from '../types/config';
+
+// Version written to new and migrated config files
+export const CURRENT_CONFIG_VERSION = 3;
+
+// Config keys with their value types, matching CLIConfig
+export const CONFIG_KEY_DEFINITIONS: { [K in ConfigKey]: ConfigKeyDefinition } = {
+  service_account_path: { type: 'path', description: 'Service account JSON file used to authenticate' },
+  api_endpoint: { type: 'url', description: 'VisionFi API base URL' },
+  recent_uuids: { type: 'list', description: 'Recently used job UUIDs (comma-separated)' },
+  debug_mode: { type: 'boolean', description: 'Show debug output' },
+  test_mode: { type: 'boolean', description: 'Enable test mode' },
+  workflow_cache_ttl: { type: 'ttl', description: 'How long workflow lists are cached, e.g. 30s, 10m, 2h' },
+  retries: { type: 'count', description: 'How many times failed API requests are retried' },
+  session_ttl: { type: 'ttl', description: 'How long a successful authentication check is reused, e.g. 30s, 10m, 2h' }
+};
+
+/**
+ * Base class for config file errors
+ */
+export class ConfigError extends Error {
+  constructor(message: string, public readonly filePath: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * The config file is not valid JSON
+ */
+export class ConfigParseError extends ConfigError {
+  constructor(filePath: string, public readonly cause?: Error) {
+    super(`Config file ${filePath} is not valid JSON${cause ? `: ${cause.message}` : ''}`, filePath);
+    this.name = 'ConfigParseError';
+  }
+}
+
+/**
+ * The config file has values that do not match the schema
+ * `config` holds the file contents so callers can repair individual keys.
+ */
+export class ConfigValidationError extends ConfigError {
+  public readonly key: string;
+
+  constructor(filePath: string, public readonly issues: ConfigIssue[], public readonly config?: any) {
+    super(
+      `Invalid config file ${filePath}:\n` +
+        issues.map(issue => `  ${issue.key}: ${issue.message}`).join('\n') +
+        '\nFix the file, or update the value with: visionfi config set <key> <value>',
+      filePath
+    );
+    this.name = 'ConfigValidationError';
+    this.key = issues[0]?.key;
+  }
+}
+
+/**
+ * Check whether a key is a known config key
+ */
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.prototype.hasOwnProperty.call(CONFIG_KEY_DEFINITIONS, key);
+}
+
+/**
+ * Check a single value against its key definition
+ * @returns A description of the problem, or null if the value is valid
+ */
+function checkValue(definition: ConfigKeyDefinition, value: any): string | null {
+  switch (definition.type) {
+    case 'path':
+      return typeof value === 'string' ? null : `expected a file path string, got ${JSON.stringify(value)}`;
+    case 'url':
+      if (typeof value !== 'string') {
+        return `expected a URL string, got ${JSON.stringify(value)}`;
+      }
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? null : `"${value}" is not an http(s) URL`;
+      } catch (err) {
+        return `"${value}" is not a valid URL`;
+      }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `expected true or false, got ${JSON.stringify(value)}`;
+    case 'ttl':
+      return Number.isInteger(value) && value >= 0
+        ? null
+        : `expected a whole number of seconds, got ${JSON.stringify(value)}`;
+    case 'list':
+      return Array.isArray(value) && value.every(item => typeof item === 'string')
+        ? null
+        : `expected a list of strings, got ${JSON.stringify(value)}`;
+    case 'count':
+      return Number.isInteger(value) && value >= 0
+        ? null
+        : `expected a whole number, got ${JSON.stringify(value)}`;
+  }
+}
+
+/**
+ * Check a single value against the schema of its key
+ * Used when values are written, so nothing is saved that loading would reject.
+ *
+ * @returns A description of the problem, or null if the value is valid
+ */
+export function checkConfigValue(key: ConfigKey, value: any): string | null {
+  return checkValue(CONFIG_KEY_DEFINITIONS[key], value);
+}
+
+/**
+ * Validate config file contents against the schema
+ *
+ * @param config Parsed config file contents
+ * @returns One issue per offending key (empty if valid)
+ */
+export function validateConfig(config: any): ConfigIssue[] {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return [{ key: '(root)', message: 'expected a JSON object' }];
+  }
+
+  const issues: ConfigIssue[] = [];
+
+  for (const [key, value] of Object.entries(config)) {
+    if (key === 'config_version') {
+      if (!Number.isInteger(value) || (value as number) < 1) {
+        issues.push({ key, message: `expected a positive whole number, got ${JSON.stringify(value)}` });
+      }
+      continue;
+    }
+
+    if (!isConfigKey(key)) {
+      issues.push({ key, message: 'unknown key' });
+      continue;
+    }
+
+    const problem = checkValue(CONFIG_KEY_DEFINITIONS[key], value);
+    if (problem) {
+      issues.push({ key, message: problem });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Migrations from each version to the next
+ * Files written before versioning have no config_version and are treated as version 0.
+ */
+const CONFIG_MIGRATIONS: { [fromVersion: number]: (config: any, defaults: CLIConfig) => any } = {
+  // 0 -> 1: add config_version and back-fill keys added since the file was written
+  0: (config, defaults) => ({ ...defaults, ...config }),
+  // 1 -> 2: add retries
+  1: (config, defaults) => ({ retries: defaults.retries, ...config }),
+  // 2 -> 3: add session_ttl
+  2: (config, defaults) => ({ session_ttl: defaults.session_ttl, ...config })
+};
+
+/**
+ * Upgrade config file contents to the current version
+ *
+ * @param config Parsed config file contents
+ * @param defaults Default config values
+ * @param filePath Config file path, for error messages
+ * @returns The migrated config and the version the file was at
+ * @throws ConfigValidationError if the file is from a newer CLI version
+ */
+export function migrateConfig(
+  config: any,
+  defaults: CLIConfig,
+  filePath: string
+): { config: any; fromVersion: number } {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new ConfigValidationError(filePath, [{ key: '(root)', message: 'expected a JSON object' }], config);
+  }
+
+  const fromVersion = config.config_version !== undefined ? config.config_version : 0;
+
+  if (!Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new ConfigValidationError(filePath, [
+      { key: 'config_version', message: `expected a positive whole number, got ${JSON.stringify(fromVersion)}` }
+    ], config);
+  }
+
+  if (fromVersion > CURRENT_CONFIG_VERSION) {
+    throw new ConfigValidationError(filePath, [
+      {
+        key: 'config_version',
+        message: `version ${fromVersion} is newer than this CLI supports (${CURRENT_CONFIG_VERSION}). Please upgrade the VisionFi CLI.`
+      }
+    ], config);
+  }
+
+  let migrated = config;
+  for (let version = fromVersion; version < CURRENT_CONFIG_VERSION; version++) {
+    migrated = { ...CONFIG_MIGRATIONS[version](migrated, defaults), config_version: version + 1 };
+  }
+
+  return { config: migrated, fromVersion };
+}
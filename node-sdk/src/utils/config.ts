@@ -1,14 +1,55 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { CLIConfig } from '../types/config';
+import { CLIConfig, ConfigSource, ResolvedConfig } from '../types/config';
+import {
+  CURRENT_CONFIG_VERSION,
+  ConfigParseError,
+  ConfigValidationError,
+  migrateConfig,
+  validateConfig
+} from './config-schema';
+import { DEFAULT_RETRIES, parseRetryCount } from './retry';
 
 // Config paths
-const DEFAULT_CONFIG_DIR = path.join(os.homedir(), '.visionfi');
-const DEFAULT_CONFIG_PATH = path.join(DEFAULT_CONFIG_DIR, 'config.json');
+export const DEFAULT_CONFIG_DIR = path.join(os.homedir(), '.visionfi');
 const DEFAULT_KEY_DIR = path.join(DEFAULT_CONFIG_DIR, 'keys');
 export const SERVICE_ACCOUNT_KEY_NAME = 'visionfi_service_account.json';
 
+// Profile paths: the default profile uses the top-level config, others live in profiles/<name>
+export const DEFAULT_PROFILE = 'default';
+export const PROFILES_DIR = path.join(DEFAULT_CONFIG_DIR, 'profiles');
+export const PROFILE_STATE_PATH = path.join(DEFAULT_CONFIG_DIR, 'profiles.json');
+export const PROFILE_ENV_VAR = 'VISIONFI_PROFILE';
+export const CACHE_DIR = path.join(DEFAULT_CONFIG_DIR, 'cache');
+
+// Profile selected with the global --profile flag
+let profileOverride: string | undefined;
+
+// Environment variables that override config file values
+export const CONFIG_ENV_VARS: { [key: string]: string } = {
+  service_account_path: 'VISIONFI_SERVICE_ACCOUNT_PATH',
+  api_endpoint: 'VISIONFI_API_ENDPOINT',
+  debug_mode: 'VISIONFI_DEBUG',
+  test_mode: 'VISIONFI_TEST_MODE',
+  workflow_cache_ttl: 'VISIONFI_WORKFLOW_CACHE_TTL',
+  retries: 'VISIONFI_RETRIES',
+  session_ttl: 'VISIONFI_SESSION_TTL'
+};
+
+// Global CLI flags that override config values (highest precedence)
+export const CONFIG_FLAGS: { [key: string]: string } = {
+  service_account_path: '--service-account',
+  api_endpoint: '--endpoint',
+  retries: '--retries'
+};
+
+// Values set with global CLI flags
+let flagOverrides: Partial<CLIConfig> = {};
+
+// Overrides applied by the last load, so saving never persists them by accident
+let appliedOverrides: { [key: string]: { value: any; fileValue: any } } = {};
+
 // Default config values
 export const DEFAULT_CONFIG: CLIConfig = {
   service_account_path: '',
@@ -17,12 +58,205 @@ export const DEFAULT_CONFIG: CLIConfig = {
   debug_mode: false,
   test_mode: false,
   workflow_cache_ttl: 1200, // 20 minutes
+  retries: DEFAULT_RETRIES,
+  session_ttl: 900, // 15 minutes
+  config_version: CURRENT_CONFIG_VERSION,
 };
 
+/**
+ * Select the profile for this process (used by the global --profile flag)
+ * Takes precedence over VISIONFI_PROFILE and the saved active profile.
+ */
+export function setProfileOverride(profile: string | undefined): void {
+  profileOverride = profile || undefined;
+}
+
+/**
+ * Read the profile saved with `visionfi profile use`
+ */
+export function getSavedProfile(): string {
+  try {
+    const state = JSON.parse(fs.readFileSync(PROFILE_STATE_PATH, 'utf8'));
+    if (state && typeof state.active_profile === 'string' && state.active_profile) {
+      return state.active_profile;
+    }
+  } catch (error) {
+    // No saved profile yet
+  }
+  return DEFAULT_PROFILE;
+}
+
+/**
+ * Resolve the active profile name
+ * Order: --profile flag, VISIONFI_PROFILE, saved active profile, default
+ */
+export function getActiveProfile(): string {
+  return profileOverride || process.env[PROFILE_ENV_VAR] || getSavedProfile();
+}
+
+/**
+ * Get the directory holding a profile's config file and job history
+ */
+export function getProfileDir(profile: string = getActiveProfile()): string {
+  return profile === DEFAULT_PROFILE ? DEFAULT_CONFIG_DIR : path.join(PROFILES_DIR, profile);
+}
+
+/**
+ * Get the config file path for a profile
+ */
+export function getConfigPath(profile: string = getActiveProfile()): string {
+  return path.join(getProfileDir(profile), 'config.json');
+}
+
+/**
+ * Get the job history directory for a profile
+ */
+export function getJobsDir(profile: string = getActiveProfile()): string {
+  return path.join(getProfileDir(profile), 'jobs');
+}
+
+/**
+ * Get the directory holding a profile's saved job results
+ */
+export function getResultsDir(profile: string = getActiveProfile()): string {
+  return path.join(getProfileDir(profile), 'results');
+}
+
+/**
+ * Get the directory holding a profile's batch manifests
+ */
+export function getBatchesDir(profile: string = getActiveProfile()): string {
+  return path.join(getProfileDir(profile), 'batches');
+}
+
+/**
+ * Get the cache directory for a profile
+ */
+export function getCacheDir(profile: string = getActiveProfile()): string {
+  return path.join(CACHE_DIR, profile);
+}
+
+/**
+ * Set config values from global CLI flags for this process
+ */
+export function setConfigOverrides(overrides: Partial<CLIConfig>): void {
+  flagOverrides = {};
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value !== undefined) {
+      (flagOverrides as any)[key] = value;
+    }
+  }
+}
+
+/**
+ * Parse a boolean setting such as true/false, yes/no, on/off or 1/0
+ * @returns The boolean value, or undefined if the text is not a boolean
+ */
+export function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.trim().toLowerCase();
+  if (['1', 'true', 'yes', 'on'].includes(normalized)) {
+    return true;
+  }
+  if (['0', 'false', 'no', 'off'].includes(normalized)) {
+    return false;
+  }
+  return undefined;
+}
+
+/**
+ * Parse a boolean environment variable value (empty counts as false)
+ */
+function parseEnvBoolean(name: string, value: string): boolean {
+  const parsed = value.trim() === '' ? false : parseBoolean(value);
+  if (parsed === undefined) {
+    throw new Error(`Invalid value for ${name}: "${value}". Use true or false.`);
+  }
+  return parsed;
+}
+
+/**
+ * Read config overrides from environment variables
+ * @param env Environment to read (defaults to process.env)
+ * @throws Error if a variable has an invalid value
+ */
+export function getEnvOverrides(env: NodeJS.ProcessEnv = process.env): Partial<CLIConfig> {
+  const overrides: Partial<CLIConfig> = {};
+  
+  for (const [key, name] of Object.entries(CONFIG_ENV_VARS)) {
+    const value = env[name];
+    if (value === undefined) {
+      continue;
+    }
+    
+    if (key === 'debug_mode' || key === 'test_mode') {
+      overrides[key] = parseEnvBoolean(name, value);
+    } else if (key === 'workflow_cache_ttl' || key === 'session_ttl') {
+      const seconds = Number(value.trim());
+      if (!Number.isInteger(seconds) || seconds < 0) {
+        throw new Error(`Invalid value for ${name}: "${value}". Use a number of seconds.`);
+      }
+      overrides[key] = seconds;
+    } else if (key === 'retries') {
+      const retries = parseRetryCount(value);
+      if (retries === null || retries === undefined) {
+        throw new Error(`Invalid value for ${name}: "${value}". Use a whole number of retries.`);
+      }
+      overrides.retries = retries;
+    } else if (key === 'service_account_path') {
+      overrides.service_account_path = value ? path.resolve(value) : value;
+    } else {
+      (overrides as any)[key] = value;
+    }
+  }
+  
+  return overrides;
+}
+
 /**
  * Load configuration from file or create with defaults
+ * Reads the config of the active profile, then applies environment and flag overrides
  */
 export function loadConfig(): CLIConfig {
+  return resolveConfig().config;
+}
+
+/**
+ * Resolve the effective configuration and where each value came from
+ * Layers, lowest to highest precedence: defaults, config file, environment, CLI flags
+ */
+export function resolveConfig(): ResolvedConfig {
+  const { config: fileConfig, fileKeys } = loadConfigFile();
+  const config: CLIConfig = { ...fileConfig };
+  const sources: { [key: string]: ConfigSource } = {};
+  
+  for (const key of Object.keys(config)) {
+    sources[key] = fileKeys.includes(key) ? 'file' : 'default';
+  }
+  
+  appliedOverrides = {};
+  const layers: [ConfigSource, Partial<CLIConfig>][] = [
+    ['env', getEnvOverrides()],
+    ['flag', flagOverrides]
+  ];
+  
+  for (const [source, overrides] of layers) {
+    for (const [key, value] of Object.entries(overrides)) {
+      (config as any)[key] = value;
+      sources[key] = source;
+      appliedOverrides[key] = { value, fileValue: (fileConfig as any)[key] };
+    }
+  }
+  
+  return { config, file: fileConfig, sources };
+}
+
+/**
+ * Load the config file of the active profile merged with defaults
+ * @returns The config and the keys that were present in the file
+ */
+function loadConfigFile(): { config: CLIConfig; fileKeys: string[] } {
+  const configPath = getConfigPath();
+  
   // Create config directory if it doesn't exist
   if (!fs.existsSync(DEFAULT_CONFIG_DIR)) {
     fs.mkdirSync(DEFAULT_CONFIG_DIR, { recursive: true });
@@ -34,32 +268,73 @@ export function loadConfig(): CLIConfig {
   }
 
   // Load existing config or create new one
-  if (fs.existsSync(DEFAULT_CONFIG_PATH)) {
+  if (fs.existsSync(configPath)) {
+    let raw: any;
     try {
-      const config = JSON.parse(fs.readFileSync(DEFAULT_CONFIG_PATH, 'utf8'));
-      
-      // Ensure all keys exist
-      for (const [key, value] of Object.entries(DEFAULT_CONFIG)) {
-        if (!(key in config)) {
-          config[key] = value;
-        }
-      }
-      
-      return config as CLIConfig;
-    } catch (error) {
-      console.error('Error loading config file. Using defaults.');
-      return { ...DEFAULT_CONFIG };
+      raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    } catch (error: any) {
+      throw new ConfigParseError(configPath, error);
+    }
+    
+    // Upgrade older files, then check every value against the schema
+    const { config: migrated, fromVersion } = migrateConfig(raw, DEFAULT_CONFIG, configPath);
+    const issues = validateConfig(migrated);
+    if (issues.length > 0) {
+      throw new ConfigValidationError(configPath, issues, migrated);
     }
+    
+    if (fromVersion < CURRENT_CONFIG_VERSION) {
+      backupAndWriteMigratedConfig(configPath, fromVersion, migrated);
+    }
+    
+    // Ensure all keys exist
+    const config = { ...DEFAULT_CONFIG, ...migrated };
+    return { config: config as CLIConfig, fileKeys: Object.keys(raw) };
   } else {
     // Create new config file with defaults
+    appliedOverrides = {};
     saveConfig(DEFAULT_CONFIG);
-    return { ...DEFAULT_CONFIG };
+    return { config: { ...DEFAULT_CONFIG }, fileKeys: [] };
+  }
+}
+
+/**
+ * Keep a copy of a config file before replacing it with its migrated version
+ * The backup is named after the version it was written for, e.g. config.json.v0.bak
+ */
+function backupAndWriteMigratedConfig(configPath: string, fromVersion: number, config: any): void {
+  try {
+    fs.copyFileSync(configPath, `${configPath}.v${fromVersion}.bak`);
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+  } catch (error: any) {
+    // The migrated config is still used for this run; the file is upgraded next time
+    console.error(`Could not upgrade config file ${configPath}: ${error.message}`);
   }
 }
 
 /**
  * Save configuration to file
+ * Writes the config of the active profile
  */
 export function saveConfig(config: CLIConfig): void {
-  fs.writeFileSync(DEFAULT_CONFIG_PATH, JSON.stringify(config, null, 2));
+  const fileConfig: { [key: string]: any } = { ...config };
+  
+  // Keep the file value for overridden keys unless the value was changed since loading
+  for (const [key, override] of Object.entries(appliedOverrides)) {
+    if (JSON.stringify(fileConfig[key]) === JSON.stringify(override.value)) {
+      fileConfig[key] = override.fileValue;
+    }
+  }
+  
+  writeConfigFile(fileConfig as CLIConfig);
+}
+
+/**
+ * Write a config file as-is, without the override protection of saveConfig
+ * Used when the caller edits the stored values directly (e.g. `visionfi config set`)
+ */
+export function writeConfigFile(config: CLIConfig): void {
+  const configPath = getConfigPath();
+  fs.mkdirSync(path.dirname(configPath), { recursive: true });
+  fs.writeFileSync(configPath, JSON.stringify({ ...config, config_version: CURRENT_CONFIG_VERSION }, null, 2));
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+/**
+ * Structural comparison of extraction results
+ */
+
+import { isPlainObject } from './flatten';
+import { ResultDiffEntry } from '../types/results';
+
+/**
+ * Join a parent path and a key into a dotted path
+ */
+function childPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Compare two values field by field
+ * Objects are compared by key and arrays by index, using the same dotted paths
+ * as the flattened export formats (e.g. `line_items.0.amount`). A field whose
+ * type changes is reported as a single change rather than per nested field.
+ *
+ * @param before Original value
+ * @param after Value to compare against
+ * @param path Path of the values within their parents
+ * @returns Added, removed and changed fields in document order
+ */
+export function diffValues(before: any, after: any, path: string = ''): ResultDiffEntry[] {
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const entries: ResultDiffEntry[] = [];
+    for (let index = 0; index < Math.max(before.length, after.length); index++) {
+      const itemPath = childPath(path, String(index));
+      if (index >= after.length) {
+        entries.push({ path: itemPath, kind: 'removed', before: before[index] });
+      } else if (index >= before.length) {
+        entries.push({ path: itemPath, kind: 'added', after: after[index] });
+      } else {
+        entries.push(...diffValues(before[index], after[index], itemPath));
+      }
+    }
+    return entries;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const entries: ResultDiffEntry[] = [];
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        entries.push({ path: childPath(path, key), kind: 'removed', before: before[key] });
+      } else {
+        entries.push(...diffValues(before[key], after[key], childPath(path, key)));
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        entries.push({ path: childPath(path, key), kind: 'added', after: after[key] });
+      }
+    }
+    return entries;
+  }
+
+  return JSON.stringify(before) === JSON.stringify(after)
+    ? []
+    : [{ path, kind: 'changed', before, after }];
+}
@@ -1,5 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import { DirectoryReader } from '../types/analyze';
+import { hasGlobPattern, globToRegExp, splitGlobBase } from './glob';
 
 /**
  * Browse example files directory and let the user select a file
@@ -137,4 +139,95 @@ export function getExamplesFilesDir(): string {
   const filesDir = path.join(nodeSdkDir, '..', 'common', 'files');
   
   return filesDir;
-}
\ No newline at end of file
+}
+
+/**
+ * Recursively list all files below a directory, skipping hidden entries
+ * Symlinked directories are followed, but each directory is walked only once
+ * so a symlink loop cannot recurse forever.
+ *
+ * @param dir Directory to walk
+ * @param fileSystem File system operations (injectable for testing)
+ * @param visited Real paths of the directories walked so far
+ * @returns File paths in sorted order
+ */
+export function listFilesRecursive(
+  dir: string,
+  fileSystem: DirectoryReader = fs,
+  visited: Set<string> = new Set()
+): string[] {
+  const results: string[] = [];
+  
+  const realDir = fileSystem.realpathSync ? fileSystem.realpathSync(dir) : path.resolve(dir);
+  if (visited.has(realDir)) {
+    return results;
+  }
+  visited.add(realDir);
+  
+  const entries = fileSystem.readdirSync(dir)
+    .filter(entry => !entry.startsWith('.'))
+    .sort();
+  
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry);
+    const stats = fileSystem.statSync(entryPath);
+    
+    if (stats.isDirectory()) {
+      results.push(...listFilesRecursive(entryPath, fileSystem, visited));
+    } else if (stats.isFile()) {
+      results.push(entryPath);
+    }
+  }
+  
+  return results;
+}
+
+/**
+ * Expand file, directory and glob inputs into a list of files
+ * Directories are walked recursively; glob patterns are matched relative to their static base
+ * @param inputs Paths, directories or glob patterns as given on the command line
+ * @param fileSystem File system operations (injectable for testing)
+ * @returns Matched files (deduplicated, in input order) and inputs that matched nothing
+ */
+export function expandFileInputs(
+  inputs: string[],
+  fileSystem: DirectoryReader = fs
+): { files: string[]; unmatched: string[] } {
+  const files: string[] = [];
+  const unmatched: string[] = [];
+  const seen = new Set<string>();
+  
+  const addFile = (filePath: string) => {
+    if (!seen.has(filePath)) {
+      seen.add(filePath);
+      files.push(filePath);
+    }
+  };
+  
+  for (const input of inputs) {
+    let matches: string[] = [];
+    
+    if (fileSystem.existsSync(input)) {
+      matches = fileSystem.statSync(input).isDirectory()
+        ? listFilesRecursive(input, fileSystem)
+        : [input];
+    } else if (hasGlobPattern(input)) {
+      const { base, pattern } = splitGlobBase(input);
+      
+      if (fileSystem.existsSync(base) && fileSystem.statSync(base).isDirectory()) {
+        const regex = globToRegExp(pattern);
+        matches = listFilesRecursive(base, fileSystem).filter(file =>
+          regex.test(path.relative(base, file).split(path.sep).join('/'))
+        );
+      }
+    }
+    
+    if (matches.length === 0) {
+      unmatched.push(input);
+    } else {
+      matches.forEach(addFile);
+    }
+  }
+  
+  return { files, unmatched };
+}
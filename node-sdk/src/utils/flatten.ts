@@ -0,0 +1,44 @@
+/**
+ * Helpers for turning nested results into flat key/value rows
+ */
+
+/**
+ * Check whether a value is a plain object (not an array or null)
+ */
+export function isPlainObject(value: any): value is { [key: string]: any } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten nested objects and arrays into dotted-path keys
+ * Array elements use their index as the path segment, e.g. `line_items.0.amount`.
+ * Empty objects and arrays are kept as leaf values so no field disappears.
+ *
+ * @param value Value to flatten
+ * @param prefix Path of the value within its parent
+ * @returns Flat map of dotted paths to leaf values, in document order
+ */
+export function flattenObject(value: any, prefix: string = ''): { [path: string]: any } {
+  const isContainer = Array.isArray(value) || isPlainObject(value);
+  const entries: [string, any][] = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : isContainer ? Object.entries(value) : [];
+
+  if (!isContainer || entries.length === 0) {
+    return { [prefix || 'value']: value };
+  }
+
+  const flat: { [path: string]: any } = {};
+  for (const [key, item] of entries) {
+    Object.assign(flat, flattenObject(item, prefix ? `${prefix}.${key}` : key));
+  }
+  return flat;
+}
+
+/**
+ * Split results into records, one per output row
+ * An array of results gives one record per element; anything else is a single record.
+ */
+export function toRecords(results: any): any[] {
+  return Array.isArray(results) ? results : [results];
+}
@@ -0,0 +1,92 @@
+/**
+ * Minimal glob matching for expanding file patterns passed to the CLI.
+ * Supports `*`, `**`, `?`, character classes (`[abc]`) and braces (`{pdf,png}`).
+ */
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Check whether a path segment contains glob syntax
+ */
+export function hasGlobPattern(input: string): boolean {
+  return GLOB_CHARS.test(input);
+}
+
+/**
+ * Convert a glob pattern into an anchored regular expression.
+ * Paths are matched using forward slashes.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let regex = '';
+  let inBraces = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        regex += '\\[';
+      } else {
+        let cls = pattern.slice(i + 1, end);
+        if (cls.startsWith('!')) {
+          cls = '^' + cls.slice(1);
+        }
+        regex += `[${cls.replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      inBraces = true;
+      regex += '(?:';
+    } else if (char === '}' && inBraces) {
+      inBraces = false;
+      regex += ')';
+    } else if (char === ',' && inBraces) {
+      regex += '|';
+    } else {
+      regex += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`);
+}
+
+/**
+ * Split a glob pattern into the static base directory and the pattern relative to it
+ * e.g. `invoices/2024/*.pdf` -> { base: 'invoices/2024', pattern: '*.pdf' }
+ */
+export function splitGlobBase(pattern: string): { base: string; pattern: string } {
+  const segments = pattern.replace(/\\/g, '/').split('/');
+  const firstGlob = segments.findIndex(segment => hasGlobPattern(segment));
+
+  if (firstGlob === -1) {
+    return { base: segments.slice(0, -1).join('/') || '.', pattern: segments[segments.length - 1] };
+  }
+
+  const baseSegments = segments.slice(0, firstGlob);
+  let base = baseSegments.join('/');
+  if (base === '' && baseSegments.length > 0) {
+    // Absolute pattern such as `/data/*.pdf`
+    base = '/';
+  }
+
+  return {
+    base: base || '.',
+    pattern: segments.slice(firstGlob).join('/')
+  };
+}
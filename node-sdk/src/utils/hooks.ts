@@ -0,0 +1,26 @@
+/**
+ * Run user-supplied shell commands as hooks
+ */
+
+import { spawn } from 'child_process';
+
+/**
+ * Run a command through the system shell with extra environment variables
+ * The hook's output is passed through to stderr so stdout stays clean.
+ *
+ * @param command Shell command line
+ * @param env Variables added to the current environment
+ * @returns The command's exit code
+ */
+export function runShellHook(command: string, env: { [key: string]: string }): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, {
+      shell: true,
+      env: { ...process.env, ...env },
+      stdio: ['ignore', process.stderr, process.stderr]
+    });
+
+    child.on('error', reject);
+    child.on('close', (code) => resolve(code === null ? 1 : code));
+  });
+}
@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getJobsDir } from './config';
+import { JobRecord, JobStore } from '../types/jobs';
+import { WatchJobState } from '../types/watch';
+
+/**
+ * Compute the content hash recorded for a submitted file
+ */
+export function hashFileData(fileData: Buffer): string {
+  return crypto.createHash('sha256').update(fileData).digest('hex');
+}
+
+/**
+ * Create a job store backed by a directory of JSON files
+ * @param jobsDir Directory holding the ledger (defaults to the active profile's jobs directory)
+ */
+export function createJobStore(jobsDir: string = getJobsDir()): JobStore {
+  const jobPath = (uuid: string) => path.join(jobsDir, `${encodeURIComponent(uuid)}.json`);
+  
+  const readJob = (filePath: string): JobRecord | null => {
+    try {
+      const record = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      // Records without the fields used for sorting and filtering are skipped like corrupt ones
+      return record &&
+        typeof record.uuid === 'string' &&
+        typeof record.submitted_at === 'string' &&
+        typeof record.status === 'string'
+        ? record as JobRecord
+        : null;
+    } catch (err) {
+      // Skip unreadable or corrupt entries
+      return null;
+    }
+  };
+  
+  const writeJob = (record: JobRecord) => {
+    fs.mkdirSync(jobsDir, { recursive: true });
+    fs.writeFileSync(jobPath(record.uuid), JSON.stringify(record, null, 2));
+  };
+  
+  return {
+    recordJob(record: JobRecord): void {
+      writeJob(record);
+    },
+    
+    updateJob(uuid: string, changes: Partial<JobRecord>): JobRecord | null {
+      const existing = readJob(jobPath(uuid));
+      if (!existing) {
+        return null;
+      }
+      
+      const updated = { ...existing, ...changes, uuid };
+      writeJob(updated);
+      return updated;
+    },
+    
+    getJob(uuid: string): JobRecord | null {
+      const filePath = jobPath(uuid);
+      return fs.existsSync(filePath) ? readJob(filePath) : null;
+    },
+    
+    listJobs(): JobRecord[] {
+      if (!fs.existsSync(jobsDir)) {
+        return [];
+      }
+      
+      const jobs = fs.readdirSync(jobsDir)
+        .filter(entry => entry.endsWith('.json'))
+        .map(entry => readJob(path.join(jobsDir, entry)))
+        .filter((job): job is JobRecord => job !== null);
+      
+      // Most recent submissions first
+      return jobs.sort((a, b) => b.submitted_at.localeCompare(a.submitted_at));
+    },
+    
+    removeJob(uuid: string): boolean {
+      const filePath = jobPath(uuid);
+      if (!fs.existsSync(filePath)) {
+        return false;
+      }
+      
+      fs.unlinkSync(filePath);
+      return true;
+    }
+  };
+}
+
+/**
+ * Find an earlier submission of the same content to the same workflow
+ * Only jobs sent to the same API endpoint count, and failed jobs are ignored
+ * so a document whose analysis failed can simply be sent again.
+ *
+ * @returns The most recent matching job, or null if there is none
+ */
+export function findDuplicateJob(
+  jobStore: JobStore,
+  fileHash: string,
+  workflowKey: string,
+  apiEndpoint: string
+): JobRecord | null {
+  return jobStore.listJobs().find(job =>
+    job.file_hash === fileHash &&
+    job.workflow_key === workflowKey &&
+    job.api_endpoint === apiEndpoint &&
+    classifyJobState({ status: job.status }) !== 'error'
+  ) || null;
+}
+
+/**
+ * Derive the status to record for a job from a results response
+ * Prefers the status reported by the API, falling back to what the response contains
+ */
+export function describeJobStatus(response: { status?: string; results?: any; error?: any }): string {
+  if (response.status) {
+    return response.status;
+  }
+  if (response.results) {
+    return 'completed';
+  }
+  if (response.error) {
+    return 'error';
+  }
+  return 'pending';
+}
+
+// API statuses that mean a job will not change any more
+const COMPLETE_STATUSES = /^(complete|completed|processed|done|success|succeeded)$/i;
+const FAILED_STATUSES = /^(error|failed|failure|cancell?ed|rejected)$/i;
+const PROCESSING_STATUSES = /process|running|progress|analyz/i;
+
+/**
+ * Classify a job from a results response or a recorded status
+ * The status reported by the API decides, since a job that is still processing
+ * can already return partial results. Without a status, results mean the job
+ * is complete and an error means it failed (the same order as describeJobStatus).
+ */
+export function classifyJobState(response: { status?: string; results?: any; error?: any }): WatchJobState {
+  const status = response.status;
+  if (!status) {
+    if (response.results) {
+      return 'complete';
+    }
+    return response.error ? 'error' : 'pending';
+  }
+
+  if (FAILED_STATUSES.test(status)) {
+    return 'error';
+  }
+  if (COMPLETE_STATUSES.test(status)) {
+    return 'complete';
+  }
+  return PROCESSING_STATUSES.test(status) ? 'processing' : 'pending';
+}
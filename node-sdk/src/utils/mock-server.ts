@@ -0,0 +1,266 @@
+/**
+ * A local HTTP server that imitates the VisionFi API for offline development
+ * The wire format of the real API is not part of this repository (requests are
+ * made by the visionfi SDK package), so the default paths and bodies below are
+ * assumptions modelled on the values the CLI reads from the SDK. Every route
+ * can be remapped with a config file, and unmatched requests are logged so the
+ * paths the SDK actually calls can be discovered.
+ */
+
+import * as http from 'http';
+import * as crypto from 'crypto';
+import { isPlainObject } from './flatten';
+import {
+  MockRouteName,
+  MockRouteConfig,
+  MockServerConfig,
+  MockServerDependencies
+} from '../types/mock-server';
+
+export const DEFAULT_MOCK_PORT = 8787;
+
+/**
+ * Build the default mock server settings
+ */
+export function createDefaultMockConfig(): MockServerConfig {
+  return {
+    host: '127.0.0.1',
+    port: DEFAULT_MOCK_PORT,
+    latencyMs: 0,
+    failureRate: 0,
+    failureStatus: 503,
+    processingPolls: 1,
+    processingBody: { status: 'processing' },
+    routes: {
+      authVerify: { method: 'GET', path: '/auth/verify', status: 200, body: { data: true } },
+      clientInfo: {
+        method: 'GET',
+        path: '/client/info',
+        status: 200,
+        body: {
+          success: true,
+          data: { name: 'Mock Client', status: 'active', tenantType: 'development', createdAt: '{{now}}' }
+        }
+      },
+      workflows: {
+        method: 'GET',
+        path: '/workflows',
+        status: 200,
+        body: {
+          success: true,
+          data: [
+            { workflow_key: 'mock_invoice', description: 'Mock invoice extraction' },
+            { workflow_key: 'mock_identity', description: 'Mock identity document extraction' }
+          ]
+        }
+      },
+      analyze: {
+        method: 'POST',
+        path: '/analyze',
+        status: 200,
+        body: { uuid: '{{uuid}}', message: 'Document submitted to mock workflow {{workflow}}' }
+      },
+      results: {
+        method: 'GET',
+        path: '/results/:uuid',
+        status: 200,
+        body: {
+          status: 'processed',
+          results: { document_id: '{{uuid}}', workflow: '{{workflow}}', total: 1250.0, currency: 'USD' }
+        }
+      }
+    }
+  };
+}
+
+/**
+ * Merge config file overrides into the settings
+ * Route overrides are merged per route so a file can change just a path or body.
+ *
+ * @throws Error for unknown routes or invalid values
+ */
+export function mergeMockConfig(base: MockServerConfig, overrides: any): MockServerConfig {
+  if (!isPlainObject(overrides)) {
+    throw new Error('Mock server config must be a JSON object.');
+  }
+
+  const { routes, ...settings } = overrides;
+  const merged: MockServerConfig = { ...base, ...settings, routes: { ...base.routes } };
+
+  if (routes !== undefined) {
+    if (!isPlainObject(routes)) {
+      throw new Error('"routes" must be an object keyed by route name.');
+    }
+    for (const [name, route] of Object.entries(routes)) {
+      if (!(name in base.routes)) {
+        throw new Error(`Unknown route "${name}". Routes: ${Object.keys(base.routes).join(', ')}`);
+      }
+      if (!isPlainObject(route)) {
+        throw new Error(`Route "${name}" must be an object.`);
+      }
+      merged.routes[name as MockRouteName] = { ...base.routes[name as MockRouteName], ...(route as Partial<MockRouteConfig>) };
+    }
+  }
+
+  if (!(merged.failureRate >= 0 && merged.failureRate <= 1)) {
+    throw new Error('"failureRate" must be between 0 and 1.');
+  }
+  if (!(merged.latencyMs >= 0)) {
+    throw new Error('"latencyMs" must be a non-negative number of milliseconds.');
+  }
+
+  return merged;
+}
+
+/**
+ * Match a request path against a route path with `:param` segments
+ * @returns The captured parameters, or null if the path does not match
+ */
+export function matchPath(pattern: string, requestPath: string): { [param: string]: string } | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = requestPath.split('/').filter(Boolean);
+
+  // Match from the end so an API prefix such as /api/v1 in the endpoint does not matter
+  if (pathParts.length < patternParts.length) {
+    return null;
+  }
+  const tail = pathParts.slice(pathParts.length - patternParts.length);
+
+  const params: { [param: string]: string } = {};
+  for (let index = 0; index < patternParts.length; index++) {
+    const part = patternParts[index];
+    if (part.startsWith(':')) {
+      params[part.slice(1)] = decodeURIComponent(tail[index]);
+    } else if (part !== tail[index]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Replace {{placeholders}} in every string of a body
+ */
+function fillTemplate(body: any, values: { [key: string]: string }): any {
+  if (typeof body === 'string') {
+    return body.replace(/\{\{(\w+)\}\}/g, (match, key) => key in values ? values[key] : match);
+  }
+  if (Array.isArray(body)) {
+    return body.map(item => fillTemplate(item, values));
+  }
+  if (isPlainObject(body)) {
+    return Object.fromEntries(Object.entries(body).map(([key, value]) => [key, fillTemplate(value, values)]));
+  }
+  return body;
+}
+
+/**
+ * Read a request body, parsing JSON when possible
+ * Multipart and binary uploads are not parsed; only their size matters here.
+ */
+function readBody(request: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('error', reject);
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      try {
+        resolve(text ? JSON.parse(text) : {});
+      } catch (err) {
+        resolve({});
+      }
+    });
+  });
+}
+
+/**
+ * Create the mock server (not yet listening)
+ * Analyze requests register a job; its results are answered with the
+ * processing body for the first `processingPolls` checks, then with the
+ * results body. Unknown job UUIDs get a 404.
+ *
+ * @param config Server settings
+ * @param dependencies Injectable randomness, timers and request logging
+ * @returns The HTTP server
+ */
+export function createMockServer(config: MockServerConfig, dependencies: MockServerDependencies = {}): http.Server {
+  const random = dependencies.random || Math.random;
+  const sleep = dependencies.sleep || ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+  const generateUuid = dependencies.generateUuid || (() => crypto.randomUUID());
+  const jobs = new Map<string, { workflow: string; polls: number }>();
+
+  const send = (response: http.ServerResponse, status: number, body: any) => {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  };
+
+  return http.createServer(async (request, response) => {
+    const startedAt = Date.now();
+    const method = (request.method || 'GET').toUpperCase();
+    const requestPath = new URL(request.url || '/', 'http://localhost').pathname;
+    const log = (status: number, route?: MockRouteName, injectedFailure?: boolean) => dependencies.onRequest?.({
+      method,
+      path: requestPath,
+      status,
+      route,
+      injectedFailure,
+      durationMs: Date.now() - startedAt
+    });
+
+    try {
+      const body = await readBody(request);
+      const match = (Object.entries(config.routes) as [MockRouteName, MockRouteConfig][])
+        .map(([name, route]) => ({ name, route, params: route.method.toUpperCase() === method ? matchPath(route.path, requestPath) : null }))
+        .find(candidate => candidate.params !== null);
+
+      if (!match) {
+        send(response, 404, { error: `No mock route for ${method} ${requestPath}` });
+        log(404);
+        return;
+      }
+
+      const { name, route, params } = match;
+      const latency = route.latencyMs ?? config.latencyMs;
+      if (latency > 0) {
+        await sleep(latency);
+      }
+
+      if (random() < (route.failureRate ?? config.failureRate)) {
+        const status = route.failureStatus ?? config.failureStatus;
+        send(response, status, { error: 'Injected failure from the mock server' });
+        log(status, name, true);
+        return;
+      }
+
+      const values: { [key: string]: string } = { now: new Date().toISOString(), ...params! };
+
+      if (name === 'analyze') {
+        const uuid = generateUuid();
+        const workflow = String(body.workflowKey || body.workflow_key || body.workflow || 'unknown');
+        jobs.set(uuid, { workflow, polls: 0 });
+        Object.assign(values, { uuid, workflow });
+      } else if (name === 'results') {
+        const job = jobs.get(values.uuid);
+        if (!job) {
+          send(response, 404, { error: `Job not found: ${values.uuid}` });
+          log(404, name);
+          return;
+        }
+        values.workflow = job.workflow;
+        job.polls++;
+        if (job.polls <= config.processingPolls) {
+          send(response, 200, fillTemplate(config.processingBody, values));
+          log(200, name);
+          return;
+        }
+      }
+
+      send(response, route.status, fillTemplate(route.body, values));
+      log(route.status, name);
+    } catch (err: any) {
+      send(response, 500, { error: err.message });
+      log(500);
+    }
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Polling engine with exponential backoff, jitter and a wall-clock timeout
+ */
+
+/**
+ * Progress information reported after each polling attempt
+ */
+export interface PollProgress {
+  attempt: number;
+  elapsedMs: number;
+  nextDelayMs?: number;
+  value?: any;
+}
+
+/**
+ * Options for pollUntil
+ */
+export interface PollOptions {
+  /** Delay before the second attempt, in milliseconds */
+  initialInterval: number;
+  /** Upper bound for the delay between attempts, in milliseconds */
+  maxInterval?: number;
+  /** Factor the delay grows by after each attempt */
+  multiplier?: number;
+  /** Random spread applied to each delay, as a fraction (0.2 = ±20%) */
+  jitter?: number;
+  /** Maximum number of attempts (unlimited when omitted) */
+  maxAttempts?: number;
+  /** Wall-clock limit for the whole polling run, in milliseconds */
+  timeout?: number;
+  /** Called after every attempt */
+  onAttempt?: (progress: PollProgress) => void;
+  /** Injectable timer functions for testing */
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+  random?: () => number;
+}
+
+/**
+ * Outcome of a polling run
+ */
+export interface PollOutcome<T> {
+  value: T;
+  done: boolean;
+  attempts: number;
+  elapsedMs: number;
+  reason: 'done' | 'timeout' | 'max-attempts';
+}
+
+export const DEFAULT_MAX_INTERVAL = 30000;
+export const DEFAULT_MULTIPLIER = 1.5;
+export const DEFAULT_JITTER = 0.2;
+
+// Shortest delay between attempts, used when the initial interval is not a positive number
+export const MIN_INTERVAL = 100;
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Check that a setting is a finite number above zero
+ */
+function isPositive(value: number | undefined): value is number {
+  return value !== undefined && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Compute the delay to wait after a given attempt
+ * Invalid settings (NaN, zero or negative intervals, a multiplier below 1) fall
+ * back to safe values so a bad option can never turn into a tight loop.
+ *
+ * @param attempt Number of attempts made so far (1-based)
+ * @param options Backoff settings
+ * @param random Random number source in [0, 1)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: Pick<PollOptions, 'initialInterval' | 'maxInterval' | 'multiplier' | 'jitter'>,
+  random: () => number = Math.random
+): number {
+  const initialInterval = isPositive(options.initialInterval) ? options.initialInterval : MIN_INTERVAL;
+  const maxInterval = isPositive(options.maxInterval) ? Math.max(options.maxInterval, MIN_INTERVAL) : DEFAULT_MAX_INTERVAL;
+  const multiplier = Number.isFinite(options.multiplier) && options.multiplier! >= 1 ? options.multiplier! : DEFAULT_MULTIPLIER;
+  const jitter = Number.isFinite(options.jitter) ? Math.min(Math.max(options.jitter!, 0), 1) : DEFAULT_JITTER;
+
+  const base = Math.min(maxInterval, initialInterval * Math.pow(multiplier, attempt - 1));
+  const spread = base * jitter * (random() * 2 - 1);
+
+  return Math.max(0, Math.round(base + spread));
+}
+
+/**
+ * Call `fn` until `isDone` accepts its value, the timeout elapses or attempts run out
+ * The first attempt happens immediately; later attempts back off exponentially.
+ *
+ * @param fn Function performing one attempt
+ * @param isDone Predicate deciding whether polling can stop
+ * @param options Backoff, limits and hooks
+ * @returns The last value with the reason polling stopped
+ */
+export async function pollUntil<T>(
+  fn: (attempt: number) => Promise<T>,
+  isDone: (value: T) => boolean,
+  options: PollOptions
+): Promise<PollOutcome<T>> {
+  const sleep = options.sleep || defaultSleep;
+  const now = options.now || Date.now;
+  const random = options.random || Math.random;
+  const startedAt = now();
+  const deadline = options.timeout !== undefined ? startedAt + options.timeout : Infinity;
+
+  let attempt = 0;
+
+  while (true) {
+    attempt++;
+    const value = await fn(attempt);
+    const elapsedMs = now() - startedAt;
+
+    if (isDone(value)) {
+      options.onAttempt?.({ attempt, elapsedMs, value });
+      return { value, done: true, attempts: attempt, elapsedMs, reason: 'done' };
+    }
+
+    if (options.maxAttempts !== undefined && attempt >= options.maxAttempts) {
+      options.onAttempt?.({ attempt, elapsedMs, value });
+      return { value, done: false, attempts: attempt, elapsedMs, reason: 'max-attempts' };
+    }
+
+    const remaining = deadline - now();
+    if (remaining <= 0) {
+      options.onAttempt?.({ attempt, elapsedMs, value });
+      return { value, done: false, attempts: attempt, elapsedMs, reason: 'timeout' };
+    }
+
+    // Never sleep past the deadline; the final attempt happens right at it
+    const delay = Math.min(computeBackoffDelay(attempt, options, random), remaining);
+    options.onAttempt?.({ attempt, elapsedMs, nextDelayMs: delay, value });
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Local checks run on a document before it is uploaded
+ * Confirms the file type from its magic bytes and catches empty, oversized,
+ * encrypted and truncated files, which the API would otherwise reject after the upload.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentType, PreflightOptions, PreflightFileSystem, PreflightResult } from '../types/preflight';
+
+// Largest file accepted for upload unless overridden
+export const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+const TYPE_NAMES: { [T in DocumentType]: string } = {
+  pdf: 'PDF',
+  png: 'PNG',
+  jpeg: 'JPEG',
+  tiff: 'TIFF'
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+const TIFF_LITTLE_ENDIAN = [0x49, 0x49, 0x2a, 0x00];
+const TIFF_BIG_ENDIAN = [0x4d, 0x4d, 0x00, 0x2a];
+
+// PDF readers accept the %PDF- header anywhere in the first 1024 bytes
+const PDF_HEADER_WINDOW = 1024;
+// End-of-file markers are looked for in this many trailing bytes
+const TRAILER_WINDOW = 2048;
+
+/**
+ * Check whether data starts with the given bytes
+ */
+function startsWith(data: Buffer, signature: number[]): boolean {
+  return data.length >= signature.length && signature.every((byte, index) => data[index] === byte);
+}
+
+/**
+ * Format a byte count for messages
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} bytes`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Parse a --max-file-size option given in megabytes
+ *
+ * @param value Raw option value
+ * @returns The limit in bytes, the default when no value is given, or null if the value is invalid
+ */
+export function parseMaxFileSize(value: number | string | undefined): number | null {
+  if (value === undefined || value === '') {
+    return DEFAULT_MAX_FILE_SIZE;
+  }
+
+  const megabytes = typeof value === 'string' ? Number(value) : value;
+  if (isNaN(megabytes) || megabytes <= 0) {
+    return null;
+  }
+
+  return Math.floor(megabytes * 1024 * 1024);
+}
+
+/**
+ * Identify a document type from its magic bytes
+ *
+ * @param data File contents (the first kilobyte is enough)
+ * @returns The document type, or null if it is not a supported type
+ */
+export function detectDocumentType(data: Buffer): DocumentType | null {
+  if (startsWith(data, PNG_SIGNATURE)) {
+    return 'png';
+  }
+  if (startsWith(data, JPEG_SIGNATURE)) {
+    return 'jpeg';
+  }
+  if (startsWith(data, TIFF_LITTLE_ENDIAN) || startsWith(data, TIFF_BIG_ENDIAN)) {
+    return 'tiff';
+  }
+  if (data.subarray(0, PDF_HEADER_WINDOW).indexOf('%PDF-') !== -1) {
+    return 'pdf';
+  }
+  return null;
+}
+
+/**
+ * Look for signs of encryption or truncation in a document
+ * @returns A description of the problem, or null if none was found
+ */
+function checkIntegrity(fileType: DocumentType, data: Buffer): string | null {
+  const tail = data.subarray(Math.max(0, data.length - TRAILER_WINDOW));
+
+  switch (fileType) {
+    case 'pdf':
+      if (tail.indexOf('%%EOF') === -1) {
+        return 'the PDF appears truncated or corrupt (no %%EOF marker at the end of the file)';
+      }
+      if (/\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(data.toString('latin1'))) {
+        return 'the PDF is encrypted. Remove the password protection and try again';
+      }
+      return null;
+    case 'png':
+      return tail.indexOf('IEND') === -1 ? 'the PNG appears truncated or corrupt (no IEND chunk)' : null;
+    case 'jpeg':
+      return tail.indexOf(Buffer.from([0xff, 0xd9])) === -1
+        ? 'the JPEG appears truncated or corrupt (no end-of-image marker)'
+        : null;
+    case 'tiff': {
+      if (data.length < 8) {
+        return 'the TIFF appears truncated or corrupt (incomplete header)';
+      }
+      const firstDirectory = data[0] === 0x49 ? data.readUInt32LE(4) : data.readUInt32BE(4);
+      return firstDirectory < 8 || firstDirectory >= data.length
+        ? 'the TIFF appears truncated or corrupt (image directory is outside the file)'
+        : null;
+    }
+  }
+}
+
+/**
+ * Run preflight checks on document contents
+ *
+ * @param fileData File contents
+ * @param fileName File name, for messages
+ * @param options Size limit
+ * @returns Result with the detected type, or a message describing why the file cannot be sent
+ */
+export function preflightDocument(
+  fileData: Buffer,
+  fileName: string,
+  options: PreflightOptions = {}
+): PreflightResult {
+  const maxFileSize = options.maxFileSize || DEFAULT_MAX_FILE_SIZE;
+  const size = fileData.length;
+
+  if (size === 0) {
+    return { success: false, message: `${fileName} is empty.`, size };
+  }
+
+  if (size > maxFileSize) {
+    return {
+      success: false,
+      message: `${fileName} is ${formatFileSize(size)}, larger than the ${formatFileSize(maxFileSize)} limit.`,
+      size
+    };
+  }
+
+  const fileType = detectDocumentType(fileData);
+  if (!fileType) {
+    return {
+      success: false,
+      message: `${fileName} is not a supported document type. Supported types: PDF, PNG, JPEG, TIFF.`,
+      size
+    };
+  }
+
+  const problem = checkIntegrity(fileType, fileData);
+  if (problem) {
+    return { success: false, message: `${fileName} cannot be sent: ${problem}.`, fileType, size };
+  }
+
+  return {
+    success: true,
+    message: `${fileName} looks like a valid ${TYPE_NAMES[fileType]} (${formatFileSize(size)}).`,
+    fileType,
+    size,
+    fileData
+  };
+}
+
+/**
+ * Read a document and run preflight checks on it
+ * Oversized files are rejected from their size on disk before they are read.
+ *
+ * @param filePath Path to the document
+ * @param options Size limit
+ * @param fileSystem File system operations (defaults to fs)
+ * @returns Result including the file contents when the checks pass
+ */
+export function preflightFile(
+  filePath: string,
+  options: PreflightOptions = {},
+  fileSystem: PreflightFileSystem = fs
+): PreflightResult {
+  const fileName = path.basename(filePath);
+  const maxFileSize = options.maxFileSize || DEFAULT_MAX_FILE_SIZE;
+
+  let stats: { size: number } | undefined;
+  try {
+    stats = fileSystem.statSync ? fileSystem.statSync(filePath) : undefined;
+  } catch (err) {
+    // The size is checked again once the file is read
+  }
+
+  try {
+    if (stats && stats.size > maxFileSize) {
+      return {
+        success: false,
+        message: `${fileName} is ${formatFileSize(stats.size)}, larger than the ${formatFileSize(maxFileSize)} limit.`,
+        size: stats.size
+      };
+    }
+
+    return preflightDocument(fileSystem.readFileSync(filePath), fileName, { maxFileSize });
+  } catch (err: any) {
+    return { success: false, message: `Cannot read ${fileName}: ${err.message}` };
+  }
+}
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_PROFILE,
+  PROFILES_DIR,
+  PROFILE_STATE_PATH,
+  getActiveProfile,
+  getCacheDir,
+  getConfigPath,
+  getProfileDir,
+  getSavedProfile
+} from './config';
+import { CLIConfig } from '../types/config';
+import { ProfileManager, ProfileSummary } from '../types/profiles';
+
+// Profile names become directory names, so keep them simple
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+/**
+ * Check whether a profile name is valid
+ */
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Read a profile's config file merged with defaults
+ */
+function readProfileConfig(name: string): CLIConfig {
+  try {
+    return { ...DEFAULT_CONFIG, ...JSON.parse(fs.readFileSync(getConfigPath(name), 'utf8')) };
+  } catch (err) {
+    return { ...DEFAULT_CONFIG };
+  }
+}
+
+/**
+ * Create a profile manager backed by ~/.visionfi/profiles
+ * The default profile always exists and maps to ~/.visionfi/config.json
+ */
+export function createProfileManager(): ProfileManager {
+  const summarize = (name: string, activeProfile: string): ProfileSummary => {
+    const config = readProfileConfig(name);
+    return {
+      name,
+      active: name === activeProfile,
+      config_path: getConfigPath(name),
+      service_account_path: config.service_account_path,
+      api_endpoint: config.api_endpoint,
+      workflow_cache_ttl: config.workflow_cache_ttl
+    };
+  };
+
+  const profileExists = (name: string): boolean =>
+    name === DEFAULT_PROFILE || (isValidProfileName(name) && fs.existsSync(getConfigPath(name)));
+
+  const writeState = (activeProfile: string) => {
+    fs.mkdirSync(path.dirname(PROFILE_STATE_PATH), { recursive: true });
+    fs.writeFileSync(PROFILE_STATE_PATH, JSON.stringify({ active_profile: activeProfile }, null, 2));
+  };
+
+  return {
+    listProfiles(): ProfileSummary[] {
+      const activeProfile = getActiveProfile();
+      const names = fs.existsSync(PROFILES_DIR)
+        ? fs.readdirSync(PROFILES_DIR).filter(name => name !== DEFAULT_PROFILE && profileExists(name)).sort()
+        : [];
+
+      return [DEFAULT_PROFILE, ...names].map(name => summarize(name, activeProfile));
+    },
+
+    profileExists,
+
+    createProfile(name: string, settings: Partial<CLIConfig>): ProfileSummary {
+      const configPath = getConfigPath(name);
+      fs.mkdirSync(getProfileDir(name), { recursive: true });
+      fs.writeFileSync(configPath, JSON.stringify({ ...DEFAULT_CONFIG, ...settings }, null, 2));
+      return summarize(name, getActiveProfile());
+    },
+
+    removeProfile(name: string): boolean {
+      if (name === DEFAULT_PROFILE || !profileExists(name)) {
+        return false;
+      }
+
+      fs.rmSync(getProfileDir(name), { recursive: true, force: true });
+      fs.rmSync(getCacheDir(name), { recursive: true, force: true });
+
+      // Fall back to the default profile if the saved one was removed
+      if (getSavedProfile() === name) {
+        writeState(DEFAULT_PROFILE);
+      }
+      return true;
+    },
+
+    getActiveProfile,
+
+    setActiveProfile(name: string): void {
+      writeState(name);
+    }
+  };
+}
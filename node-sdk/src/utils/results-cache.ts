@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getResultsDir } from './config';
+import { classifyJobState } from './jobs';
+import { CachedResults, ResultsCache } from '../types/results';
+
+/**
+ * Create a results cache backed by one JSON file per job under ~/.visionfi/results
+ * Only completed results are cached; they do not change once a job has finished.
+ *
+ * @param resultsDir Directory holding the cache (defaults to the active profile's results directory)
+ */
+export function createResultsCache(resultsDir: string = getResultsDir()): ResultsCache {
+  const resultsPath = (uuid: string) => path.join(resultsDir, `${encodeURIComponent(uuid)}.json`);
+
+  return {
+    read(uuid: string): CachedResults | null {
+      try {
+        const entry = JSON.parse(fs.readFileSync(resultsPath(uuid), 'utf8'));
+        return entry && entry.uuid === uuid && entry.results !== undefined ? entry as CachedResults : null;
+      } catch (err) {
+        // Missing or corrupt cache files are treated as not cached
+        return null;
+      }
+    },
+
+    write(entry: CachedResults): void {
+      const filePath = resultsPath(entry.uuid);
+      fs.mkdirSync(resultsDir, { recursive: true });
+
+      // Write to a temporary file first so concurrent readers never see partial results
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(entry, null, 2));
+      fs.renameSync(tempPath, filePath);
+    }
+  };
+}
+
+/**
+ * Read a job's cached results if they were fetched from the given endpoint
+ * Cache read failures are treated as a miss.
+ */
+export function readCachedResults(cache: ResultsCache, uuid: string, apiEndpoint: string): CachedResults | null {
+  try {
+    const entry = cache.read(uuid);
+    return entry && entry.api_endpoint === apiEndpoint ? entry : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * Save a job's completed results (best-effort, never fails the retrieval)
+ */
+export function cacheResults(
+  cache: ResultsCache,
+  uuid: string,
+  apiEndpoint: string,
+  response: { status?: string; results?: any }
+): void {
+  // Partial results of a job that is still running (or has failed) are never cached
+  if (classifyJobState(response) !== 'complete' || response.results === undefined || response.results === null) {
+    return;
+  }
+
+  try {
+    cache.write({
+      uuid,
+      api_endpoint: apiEndpoint,
+      cached_at: new Date().toISOString(),
+      status: response.status,
+      results: response.results
+    });
+  } catch (err) {
+    // Cache write failures are ignored
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Retries for VisionFi API calls
+ * Connection failures, timeouts, rate limiting (HTTP 429) and server errors (5xx)
+ * are retried with exponential backoff, waiting as long as a Retry-After header
+ * asks. Authentication and validation failures are returned at once.
+ */
+
+import { RetryAttempt, RetryClassification, RetryOptions } from '../types/retry';
+import { computeBackoffDelay } from './polling';
+
+export const DEFAULT_RETRIES = 3;
+export const DEFAULT_RETRY_DELAY = 1000;
+export const DEFAULT_MAX_RETRY_DELAY = 30000;
+
+// Longest Retry-After wait that is honored, in milliseconds
+const MAX_RETRY_AFTER = 2 * 60 * 1000;
+
+// Client methods wrapped by withRetries
+const RETRIED_METHODS = ['verifyAuth', 'getClientInfo', 'getWorkflows', 'analyzeDocument', 'getResults'];
+
+// Network error codes worth another attempt
+const TRANSIENT_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT'
+];
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Parse a retry count from an option or environment value
+ * @returns The count, undefined when not given, or null if invalid
+ */
+export function parseRetryCount(value: number | string | undefined): number | undefined | null {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const count = typeof value === 'string' ? Number(value.trim()) : value;
+  return Number.isInteger(count) && count >= 0 ? count : null;
+}
+
+/**
+ * Find the HTTP status of a failed request
+ * Looks at the shapes used by common HTTP clients, then at the error message.
+ */
+export function getErrorStatus(err: any): number | undefined {
+  const status = err?.response?.status ?? err?.status ?? err?.statusCode;
+  if (typeof status === 'number') {
+    return status;
+  }
+
+  const match = typeof err?.message === 'string' ? err.message.match(/status code (\d{3})/i) : null;
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Read a header from an error's response, whether headers are a plain object or a Headers instance
+ */
+function getResponseHeader(err: any, name: string): string | undefined {
+  const headers = err?.response?.headers;
+  if (!headers) {
+    return undefined;
+  }
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Parse a Retry-After header value
+ *
+ * @param value Number of seconds or an HTTP date
+ * @param now Current time in milliseconds
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | number | undefined, now: number = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+  }
+
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Decide whether a failed API call should be retried
+ *
+ * @param err Error thrown by the client
+ * @param now Current time in milliseconds, for Retry-After dates
+ * @returns Whether to retry, with the reason and any delay the server asked for
+ */
+export function classifyError(err: any, now: number = Date.now()): RetryClassification {
+  const status = getErrorStatus(err);
+
+  if (status !== undefined) {
+    // 408 is a request timeout; other 4xx responses (auth, validation) would fail the same way again
+    const retryable = status === 408 || status === 429 || status >= 500;
+    const retryAfterMs = retryable ? parseRetryAfter(getResponseHeader(err, 'retry-after'), now) : undefined;
+    return { retryable, reason: `HTTP ${status}`, status, ...(retryAfterMs !== undefined ? { retryAfterMs } : {}) };
+  }
+
+  if (typeof err?.code === 'string' && TRANSIENT_ERROR_CODES.includes(err.code)) {
+    return { retryable: true, reason: err.code };
+  }
+
+  if (err?.name === 'TimeoutError' || /timed? ?out|socket hang up/i.test(err?.message || '')) {
+    return { retryable: true, reason: 'timeout' };
+  }
+
+  return { retryable: false, reason: err?.message || String(err) };
+}
+
+/**
+ * Run an API call, retrying transient failures
+ * The last error is thrown once the retries run out or a failure is not retryable.
+ *
+ * @param operation Function making the call
+ * @param options Retry count, backoff settings and callbacks
+ * @param method Name of the call, for onRetry
+ * @returns The call's result
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = {},
+  method?: string
+): Promise<T> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const sleep = options.sleep || defaultSleep;
+  const now = options.now || Date.now;
+  const backoff = {
+    initialInterval: options.initialDelay ?? DEFAULT_RETRY_DELAY,
+    maxInterval: options.maxDelay ?? DEFAULT_MAX_RETRY_DELAY,
+    multiplier: 2
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err: any) {
+      const classification = classifyError(err, now());
+      if (!classification.retryable || attempt > retries) {
+        throw err;
+      }
+
+      const delayMs = classification.retryAfterMs !== undefined
+        ? Math.min(classification.retryAfterMs, MAX_RETRY_AFTER)
+        : computeBackoffDelay(attempt, backoff, options.random);
+      const retry: RetryAttempt = { attempt, retries, delayMs, reason: classification.reason, method, error: err };
+      options.onRetry?.(retry);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Wrap a VisionFi client so its API calls retry transient failures
+ * Other properties of the client are passed through unchanged.
+ *
+ * @param client Client to wrap
+ * @param options Retry count, backoff settings and callbacks
+ * @returns A client with the same interface
+ */
+export function withRetries<T extends object>(client: T, options: RetryOptions = {}): T {
+  if ((options.retries ?? DEFAULT_RETRIES) === 0) {
+    return client;
+  }
+
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== 'string' || !RETRIED_METHODS.includes(property) || typeof value !== 'function') {
+        return value;
+      }
+      return (...args: any[]) => withRetry(() => value.apply(target, args), options, property);
+    }
+  });
+}
+
+/**
+ * Describe a retry for progress output
+ */
+export function describeRetry(retry: RetryAttempt): string {
+  const seconds = retry.delayMs / 1000;
+  const wait = seconds < 10 ? seconds.toFixed(1) : Math.round(seconds).toString();
+  return `${retry.method ? `${retry.method} failed` : 'Request failed'} (${retry.reason}); ` +
+    `retrying in ${wait}s (attempt ${retry.attempt} of ${retry.retries}).`;
+}
@@ -0,0 +1,195 @@
+/**
+ * JSONPath-like selectors for picking fields out of results
+ * Supports `$` (optional), `.key`, `['key']`, `[index]` (negative counts from
+ * the end) and `*` / `[*]` wildcards, e.g. `$.line_items[*].amount` or `borrower.name`.
+ */
+
+import { isPlainObject } from './flatten';
+import { Selector, SelectorToken } from '../types/results';
+
+// Characters allowed in an unquoted key
+const KEY_PATTERN = /^[^.[\]\s'"]+/;
+
+/**
+ * Parse a selector expression
+ * @throws Error describing the first syntax problem
+ */
+export function parseSelector(expression: string): Selector {
+  const source = expression.trim();
+  const tokens: SelectorToken[] = [];
+  const fail = (reason: string, position: number) => {
+    throw new Error(`Invalid selector "${expression}": ${reason} at position ${position + 1}.`);
+  };
+
+  let position = source.startsWith('$') ? 1 : 0;
+  // A bare leading key (`total` or `borrower.name`) is read as if it followed `$.`
+  let expectKey = position === 0;
+
+  if (source.length === 0) {
+    fail('expression is empty', 0);
+  }
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+
+    if (expectKey || rest.startsWith('.')) {
+      const start = expectKey ? position : position + 1;
+      expectKey = false;
+      const keyText = source.slice(start);
+      if (keyText.startsWith('*')) {
+        tokens.push({ type: 'wildcard' });
+        position = start + 1;
+        continue;
+      }
+      const match = KEY_PATTERN.exec(keyText);
+      if (!match) {
+        fail('expected a field name', start);
+      }
+      tokens.push({ type: 'key', key: match![0] });
+      position = start + match![0].length;
+      continue;
+    }
+
+    if (rest.startsWith('[')) {
+      const bracket = /^\[\s*(?:(\*)|(-?\d+)|'([^']*)'|"([^"]*)")\s*\]/.exec(rest);
+      if (!bracket) {
+        fail('expected [index], [*] or [\'key\']', position);
+      }
+      if (bracket![1]) {
+        tokens.push({ type: 'wildcard' });
+      } else if (bracket![2] !== undefined) {
+        tokens.push({ type: 'index', index: parseInt(bracket![2], 10) });
+      } else {
+        tokens.push({ type: 'key', key: bracket![3] ?? bracket![4] });
+      }
+      position += bracket![0].length;
+      continue;
+    }
+
+    fail(`unexpected "${rest[0]}"`, position);
+  }
+
+  return {
+    expression,
+    tokens,
+    wildcard: tokens.some(token => token.type === 'wildcard')
+  };
+}
+
+/**
+ * Render a path as a canonical selector for messages
+ */
+function formatPath(tokens: SelectorToken[]): string {
+  return '$' + tokens.map(token => {
+    switch (token.type) {
+      case 'key':
+        return KEY_PATTERN.exec(token.key)?.[0] === token.key ? `.${token.key}` : `['${token.key}']`;
+      case 'index':
+        return `[${token.index}]`;
+      case 'wildcard':
+        return '[*]';
+    }
+  }).join('');
+}
+
+/**
+ * Describe the type of a value for messages
+ */
+function describeType(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'an array' : isPlainObject(value) ? 'an object' : `a ${typeof value}`;
+}
+
+/**
+ * Apply one token to a value
+ * @returns The matched values, or a reason when nothing matched
+ */
+function step(value: any, token: SelectorToken): { values: any[] } | { reason: string } {
+  switch (token.type) {
+    case 'wildcard':
+      if (Array.isArray(value)) {
+        return { values: value };
+      }
+      if (isPlainObject(value)) {
+        return { values: Object.values(value) };
+      }
+      return { reason: `it is ${describeType(value)}` };
+    case 'index': {
+      if (!Array.isArray(value)) {
+        return { reason: `it is ${describeType(value)}, not an array` };
+      }
+      const index = token.index < 0 ? value.length + token.index : token.index;
+      return index >= 0 && index < value.length
+        ? { values: [value[index]] }
+        : { reason: `index ${token.index} is out of range (length ${value.length})` };
+    }
+    case 'key': {
+      if (!isPlainObject(value)) {
+        return { reason: `it is ${describeType(value)}, not an object` };
+      }
+      if (!(token.key in value)) {
+        const keys = Object.keys(value);
+        const available = keys.length > 0
+          ? ` (available: ${keys.slice(0, 10).join(', ')}${keys.length > 10 ? ', ...' : ''})`
+          : '';
+        return { reason: `field "${token.key}" does not exist${available}` };
+      }
+      return { values: [value[token.key]] };
+    }
+  }
+}
+
+/**
+ * Evaluate a selector against a value
+ * A selector without wildcards returns its single value; one with wildcards
+ * returns an array of every match.
+ *
+ * @throws Error naming the part of the path that does not exist
+ */
+export function applySelector(value: any, selector: Selector): any {
+  let matches = [value];
+
+  for (let index = 0; index < selector.tokens.length; index++) {
+    const token = selector.tokens[index];
+    const next: any[] = [];
+    let firstReason: string | undefined;
+
+    for (const match of matches) {
+      const outcome = step(match, token);
+      if ('values' in outcome) {
+        next.push(...outcome.values);
+      } else if (!firstReason) {
+        firstReason = outcome.reason;
+      }
+    }
+
+    // With wildcards, elements missing the field are skipped as long as something matches
+    if (next.length === 0 || (firstReason && !selector.wildcard)) {
+      const parent = formatPath(selector.tokens.slice(0, index));
+      const reason = firstReason ? `${parent}: ${firstReason}` : `${parent} is empty`;
+      throw new Error(`Path "${selector.expression}" not found in results: ${reason}.`);
+    }
+
+    matches = next;
+  }
+
+  return selector.wildcard ? matches : matches[0];
+}
+
+/**
+ * Evaluate several selectors
+ *
+ * @param value Results to select from
+ * @param selectors Parsed selectors
+ * @returns Map of each expression to its value, in the given order
+ * @throws Error for the first selector whose path does not exist
+ */
+export function selectFields(value: any, selectors: Selector[]): { [expression: string]: any } {
+  const selected: { [expression: string]: any } = {};
+  for (const selector of selectors) {
+    selected[selector.expression] = applySelector(value, selector);
+  }
+  return selected;
+}
@@ -0,0 +1,194 @@
+/**
+ * Authentication sessions: a successful authentication check is remembered on
+ * disk for session_ttl seconds, so commands and menu actions do not verify
+ * again before every API call
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_CONFIG, getCacheDir } from './config';
+import { getErrorStatus } from './retry';
+import { CLIConfig } from '../types/config';
+import { AuthSession, SessionOptions, SessionStore } from '../types/session';
+
+// Responses meaning the client's credentials were rejected
+const AUTH_ERROR_STATUSES = [401, 403];
+
+// Calls that authenticate again and are repeated once when they fail with an auth error
+const AUTHENTICATED_METHODS = ['getClientInfo', 'getWorkflows', 'analyzeDocument', 'getResults'];
+
+/**
+ * Get the session file of a profile
+ * @param cacheDir Cache directory of the profile
+ */
+export function getSessionPath(cacheDir: string = getCacheDir()): string {
+  return path.join(cacheDir, 'session.json');
+}
+
+/**
+ * Create a session store backed by a JSON file under ~/.visionfi/cache/<profile>
+ * @param cacheDir Cache directory (defaults to the active profile's)
+ */
+export function createSessionStore(cacheDir: string = getCacheDir()): SessionStore {
+  return {
+    read(): AuthSession | null {
+      try {
+        const session = JSON.parse(fs.readFileSync(getSessionPath(cacheDir), 'utf8'));
+        return session && typeof session.expires_at === 'number' ? session as AuthSession : null;
+      } catch (err) {
+        // Missing or corrupt session files mean there is no session
+        return null;
+      }
+    },
+
+    write(session: AuthSession): void {
+      const filePath = getSessionPath(cacheDir);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      // Write to a temporary file first so concurrent commands never read a partial session
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(session, null, 2));
+      fs.renameSync(tempPath, filePath);
+    },
+
+    clear(): void {
+      fs.rmSync(getSessionPath(cacheDir), { force: true });
+    }
+  };
+}
+
+/**
+ * Identify the contents of a service account file by its size and modification time
+ * A replaced or edited key file gets a new fingerprint, which ends its session.
+ *
+ * @returns The fingerprint, or null if the file cannot be read
+ */
+export function getServiceAccountFingerprint(serviceAccountPath: string): string | null {
+  try {
+    const stats = fs.statSync(serviceAccountPath);
+    return `${stats.size}:${stats.mtimeMs}`;
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * Check whether a failed API call was rejected for its credentials
+ */
+export function isAuthError(err: any): boolean {
+  const status = getErrorStatus(err);
+  return status !== undefined && AUTH_ERROR_STATUSES.includes(status);
+}
+
+/**
+ * Check whether a saved session covers a configuration
+ *
+ * @param session Saved session, if any
+ * @param config Configuration the client was created with
+ * @param fingerprint Current fingerprint of the service account file
+ * @param now Current time in milliseconds
+ */
+export function isSessionValid(
+  session: AuthSession | null,
+  config: CLIConfig,
+  fingerprint: string | null,
+  now: number
+): boolean {
+  return !!session && !!fingerprint &&
+    session.service_account_path === config.service_account_path &&
+    session.service_account_fingerprint === fingerprint &&
+    session.api_endpoint === config.api_endpoint &&
+    now < session.expires_at;
+}
+
+/**
+ * Wrap a client so authentication checks use the saved session
+ * verifyAuth resolves without an API call while a valid session exists, and a
+ * successful check starts a new session. Calls rejected with HTTP 401 or 403
+ * end the session, authenticate again and are repeated once. A session_ttl of
+ * 0 disables saved sessions.
+ *
+ * @param client API client
+ * @param config Configuration the client was created with
+ * @param options Session store and clock, and whether to always verify
+ * @returns The wrapped client
+ */
+export function withSession<T extends object>(client: T, config: CLIConfig, options: SessionOptions = {}): T {
+  const sessionStore = options.sessionStore || createSessionStore();
+  const now = options.now || Date.now;
+  const ttlSeconds = config.session_ttl ?? DEFAULT_CONFIG.session_ttl ?? 0;
+
+  const hasValidSession = (): boolean => ttlSeconds > 0 && isSessionValid(
+    sessionStore.read(),
+    config,
+    getServiceAccountFingerprint(config.service_account_path),
+    now()
+  );
+
+  const saveSession = (verified: boolean): void => {
+    try {
+      const fingerprint = getServiceAccountFingerprint(config.service_account_path);
+      if (verified && ttlSeconds > 0 && fingerprint) {
+        const verifiedAt = now();
+        sessionStore.write({
+          service_account_path: config.service_account_path,
+          service_account_fingerprint: fingerprint,
+          api_endpoint: config.api_endpoint,
+          verified_at: verifiedAt,
+          expires_at: verifiedAt + ttlSeconds * 1000
+        });
+      } else {
+        sessionStore.clear();
+      }
+    } catch (err) {
+      // Session write failures are ignored; the next command verifies again
+    }
+  };
+
+  const verify = async (verifyAuth: () => Promise<any>): Promise<any> => {
+    try {
+      const result = await verifyAuth();
+      saveSession(!!result?.data);
+      return result;
+    } catch (err) {
+      saveSession(false);
+      throw err;
+    }
+  };
+
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof property !== 'string' || typeof value !== 'function') {
+        return value;
+      }
+
+      if (property === 'verifyAuth') {
+        return async (...args: any[]) => !options.force && hasValidSession()
+          ? { data: true }
+          : verify(() => value.apply(target, args));
+      }
+
+      if (!AUTHENTICATED_METHODS.includes(property)) {
+        return value;
+      }
+      return async (...args: any[]) => {
+        try {
+          return await value.apply(target, args);
+        } catch (err) {
+          const verifyAuth = (target as any).verifyAuth;
+          if (!isAuthError(err) || typeof verifyAuth !== 'function') {
+            throw err;
+          }
+
+          // The credentials were rejected: authenticate again and repeat the call once
+          const verified = await verify(() => verifyAuth.call(target)).catch(() => null);
+          if (!verified?.data) {
+            throw err;
+          }
+          return value.apply(target, args);
+        }
+      };
+    }
+  });
+}
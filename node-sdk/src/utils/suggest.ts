@@ -0,0 +1,48 @@
+/**
+ * Compute the Levenshtein edit distance between two strings
+ * Counts the insertions, deletions and substitutions needed to turn `a` into `b`
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+
+  // Single-row dynamic programming table
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the candidate closest to a mistyped value
+ * Comparison ignores case. Candidates further away than a third of the input's
+ * length (at least 2 edits) are not considered similar enough to suggest.
+ *
+ * @param input Value as typed
+ * @param candidates Valid values
+ * @returns The closest candidate, or undefined if none is close
+ */
+export function findClosestMatch(input: string, candidates: string[]): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(input.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(input.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= maxDistance ? best : undefined;
+}
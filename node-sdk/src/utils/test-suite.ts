@@ -0,0 +1,175 @@
+/**
+ * Loading regression suites, checking expectations and writing JUnit reports
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { isPlainObject } from './flatten';
+import { applySelector, parseSelector } from './select';
+import { FieldExpectation, TestSuite, TestRunCommandResult } from '../types/test-suite';
+
+/**
+ * Load and validate a suite file
+ * Case file paths are resolved against the suite's baseDir, which is itself
+ * relative to the suite file.
+ *
+ * @param suitePath Path to the suite JSON file
+ * @param fileSystem File reader (defaults to fs)
+ * @returns The suite with absolute case file paths
+ * @throws Error describing the first problem in the file
+ */
+export function loadTestSuite(
+  suitePath: string,
+  fileSystem: { readFileSync: (path: string, encoding: 'utf8') => string } = fs
+): TestSuite {
+  let suite: any;
+  try {
+    suite = JSON.parse(fileSystem.readFileSync(suitePath, 'utf8'));
+  } catch (err: any) {
+    throw new Error(`Cannot read suite ${suitePath}: ${err.message}`);
+  }
+
+  if (!isPlainObject(suite) || !Array.isArray(suite.cases) || suite.cases.length === 0) {
+    throw new Error(`Suite ${suitePath} must be an object with a non-empty "cases" array.`);
+  }
+  if (suite.timeout !== undefined && !(typeof suite.timeout === 'number' && suite.timeout > 0)) {
+    throw new Error(`Suite ${suitePath}: "timeout" must be a positive number of seconds.`);
+  }
+
+  const baseDir = path.resolve(path.dirname(suitePath), suite.baseDir || '.');
+
+  suite.cases.forEach((testCase: any, index: number) => {
+    const label = `case ${index + 1}${testCase && testCase.name ? ` ("${testCase.name}")` : ''}`;
+    if (!isPlainObject(testCase) || typeof testCase.file !== 'string' || !testCase.file) {
+      throw new Error(`Suite ${suitePath}, ${label}: "file" is required.`);
+    }
+    if (!testCase.workflow && !suite.workflow) {
+      throw new Error(`Suite ${suitePath}, ${label}: no "workflow" given for the case or the suite.`);
+    }
+    if (!isPlainObject(testCase.expect) || Object.keys(testCase.expect).length === 0) {
+      throw new Error(`Suite ${suitePath}, ${label}: "expect" must map at least one field to its expected value.`);
+    }
+    for (const [selector, expectation] of Object.entries(testCase.expect)) {
+      try {
+        parseSelector(selector);
+        if (isPlainObject(expectation) && 'pattern' in expectation) {
+          new RegExp((expectation as any).pattern, (expectation as any).flags);
+        }
+      } catch (err: any) {
+        throw new Error(`Suite ${suitePath}, ${label}: ${err.message}`);
+      }
+    }
+  });
+
+  return {
+    ...suite,
+    cases: suite.cases.map((testCase: any) => ({ ...testCase, file: path.resolve(baseDir, testCase.file) }))
+  };
+}
+
+/**
+ * Compare a value against one expectation
+ * @returns A description of the mismatch, or null if it matches
+ */
+function checkValue(value: any, expectation: FieldExpectation): string | null {
+  if (isPlainObject(expectation) && 'pattern' in expectation) {
+    const pattern = new RegExp(expectation.pattern, expectation.flags);
+    return pattern.test(String(value)) ? null : `expected to match /${expectation.pattern}/${expectation.flags || ''}, got ${JSON.stringify(value)}`;
+  }
+
+  const expected = isPlainObject(expectation) && 'equals' in expectation ? expectation.equals : expectation;
+  return JSON.stringify(value) === JSON.stringify(expected)
+    ? null
+    : `expected ${JSON.stringify(expected)}, got ${JSON.stringify(value)}`;
+}
+
+/**
+ * Check results against a case's expectations
+ *
+ * @param results Results returned for the case's document
+ * @param expectations Map of selector expressions to expected values
+ * @returns One message per failed expectation (empty when everything matches)
+ */
+export function checkExpectations(results: any, expectations: { [selector: string]: FieldExpectation }): string[] {
+  const failures: string[] = [];
+
+  for (const [selector, expectation] of Object.entries(expectations)) {
+    const wantsPresence = isPlainObject(expectation) && 'exists' in expectation;
+    let value: any;
+    try {
+      value = applySelector(results, parseSelector(selector));
+    } catch (err: any) {
+      if (!wantsPresence || (expectation as { exists: boolean }).exists) {
+        failures.push(`${selector}: ${err.message}`);
+      }
+      continue;
+    }
+
+    if (wantsPresence) {
+      if (!(expectation as { exists: boolean }).exists) {
+        failures.push(`${selector}: expected the field to be absent, got ${JSON.stringify(value)}`);
+      }
+      continue;
+    }
+
+    const mismatch = checkValue(value, expectation);
+    if (mismatch) {
+      failures.push(`${selector}: ${mismatch}`);
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Escape text for use in XML attributes and content
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+/**
+ * Render a suite run as JUnit XML
+ * Mismatched fields are reported as failures and cases without results as errors.
+ *
+ * @param result Suite run result
+ * @param timestamp Time the run started
+ * @returns The XML document
+ */
+export function toJUnitXml(result: TestRunCommandResult, timestamp: Date = new Date()): string {
+  const seconds = (ms: number | undefined) => ((ms || 0) / 1000).toFixed(3);
+  const suiteName = escapeXml(result.suite || 'visionfi');
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${suiteName}" tests="${result.cases.length}" failures="${result.failed}" errors="${result.errors}" time="${seconds(result.durationMs)}">`,
+    `  <testsuite name="${suiteName}" tests="${result.cases.length}" failures="${result.failed}" errors="${result.errors}" ` +
+      `skipped="0" time="${seconds(result.durationMs)}" timestamp="${timestamp.toISOString()}">`
+  ];
+
+  for (const testCase of result.cases) {
+    const open = `    <testcase name="${escapeXml(testCase.name)}" classname="${escapeXml(testCase.workflow)}" time="${seconds(testCase.durationMs)}"`;
+    if (testCase.outcome === 'passed') {
+      lines.push(`${open}/>`);
+      continue;
+    }
+
+    const element = testCase.outcome === 'failed' ? 'failure' : 'error';
+    const summary = testCase.failures[0] || testCase.outcome;
+    lines.push(`${open}>`);
+    lines.push(`      <${element} message="${escapeXml(summary)}">${escapeXml(testCase.failures.join('\n'))}</${element}>`);
+    if (testCase.uuid) {
+      lines.push(`      <system-out>${escapeXml(`Job ${testCase.uuid}`)}</system-out>`);
+    }
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n') + '\n';
+}
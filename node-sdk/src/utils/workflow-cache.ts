@@ -0,0 +1,83 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getCacheDir } from './config';
+import { WorkflowCache, WorkflowCacheEntry, WorkflowCacheState } from '../types/workflows';
+
+// How long after expiry a cached list may still be shown while it is refreshed
+export const WORKFLOW_CACHE_MAX_STALE = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the cache file for an endpoint's workflow list
+ * @param apiEndpoint API endpoint the list was fetched from
+ * @param cacheDir Cache directory of the profile
+ */
+export function getWorkflowCachePath(apiEndpoint: string, cacheDir: string = getCacheDir()): string {
+  const endpointHash = crypto.createHash('sha256').update(apiEndpoint).digest('hex').slice(0, 16);
+  return path.join(cacheDir, `workflows-${endpointHash}.json`);
+}
+
+/**
+ * Create a workflow cache backed by a JSON file under ~/.visionfi/cache/<profile>
+ * @param apiEndpoint API endpoint the list is fetched from
+ * @param cacheDir Cache directory (defaults to the active profile's)
+ */
+export function createWorkflowCache(apiEndpoint: string, cacheDir: string = getCacheDir()): WorkflowCache {
+  const filePath = getWorkflowCachePath(apiEndpoint, cacheDir);
+
+  return {
+    read(): WorkflowCacheEntry | null {
+      try {
+        const entry = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        return entry && entry.api_endpoint === apiEndpoint && Array.isArray(entry.workflows)
+          ? entry as WorkflowCacheEntry
+          : null;
+      } catch (err) {
+        // Missing or corrupt cache files are treated as empty
+        return null;
+      }
+    },
+
+    write(entry: WorkflowCacheEntry): void {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+      // Write to a temporary file first so concurrent readers never see a partial list
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(entry, null, 2));
+      fs.renameSync(tempPath, filePath);
+    },
+
+    clear(): void {
+      fs.rmSync(filePath, { force: true });
+    }
+  };
+}
+
+/**
+ * Decide whether a cached workflow list can be used
+ * A TTL of 0 disables the cache.
+ *
+ * @param cachedAt When the list was cached (milliseconds), if it is cached
+ * @param ttlSeconds workflow_cache_ttl
+ * @param now Current time in milliseconds
+ */
+export function getWorkflowCacheState(
+  cachedAt: number | undefined,
+  ttlSeconds: number,
+  now: number
+): WorkflowCacheState {
+  if (cachedAt === undefined) {
+    return 'missing';
+  }
+
+  if (ttlSeconds <= 0) {
+    return 'expired';
+  }
+
+  const age = now - cachedAt;
+  if (age <= ttlSeconds * 1000) {
+    return 'fresh';
+  }
+
+  return age <= ttlSeconds * 1000 + WORKFLOW_CACHE_MAX_STALE ? 'stale' : 'expired';
+}
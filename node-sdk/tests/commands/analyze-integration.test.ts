@@ -12,9 +12,10 @@ const mockVisionFiInstance = {
 };
 const mockVisionFiConstructor = jest.fn(() => mockVisionFiInstance);
 
-// Define mock filesystem functions
+// Define mock filesystem functions (the content must pass the PDF preflight checks)
+const mockPdfContent = Buffer.from('%PDF-1.4\ntest file content\n%%EOF\n');
 const mockExistsSync = jest.fn().mockReturnValue(true);
-const mockReadFileSync = jest.fn().mockReturnValue(Buffer.from('test file content'));
+const mockReadFileSync = jest.fn().mockReturnValue(mockPdfContent);
 
 // Setup mocks BEFORE imports - Jest hoists these
 jest.mock('visionfi', () => ({
@@ -54,7 +55,7 @@ describe('Analyze Command Integration', () => {
     
     // Reset fs mocks
     mockExistsSync.mockReturnValue(true);
-    mockReadFileSync.mockReturnValue(Buffer.from('test file content'));
+    mockReadFileSync.mockReturnValue(mockPdfContent);
     
     // Spy on console.log to prevent output cluttering
     consoleLogSpy = jest.spyOn(console, 'log').mockImplementation();
@@ -1,9 +1,12 @@
 import * as fs from 'fs';
 import { VisionFi } from 'visionfi';
-import { analyzeDocument, analyzeDocumentCore } from '../../src/commands/analyze';
+import { analyzeDocument, analyzeDocumentCore, analyzeBatchCore, analyzeAndWaitCore } from '../../src/commands/analyze';
 import * as config from '../../src/utils/config';
 import { CLIConfig } from '../../src/types/config';
 import { AnalyzeOptions } from '../../src/types/analyze';
+import { JobRecord } from '../../src/types/jobs';
+import { BatchManifest } from '../../src/types/batch';
+import { hashFileData } from '../../src/utils/jobs';
 
 // Mock the modules
 jest.mock('fs');
@@ -13,6 +16,20 @@ jest.mock('../../src/utils/config');
 // 
 // 
 
+// Minimal document that passes the PDF preflight checks
+const TEST_PDF = Buffer.from('%PDF-1.4\ntest file content\n%%EOF\n');
+
+// Ledger entry for an earlier submission of TEST_PDF
+const PREVIOUS_JOB: JobRecord = {
+  uuid: 'previous-uuid',
+  file_name: 'document.pdf',
+  file_hash: hashFileData(TEST_PDF),
+  workflow_key: 'invoice',
+  api_endpoint: 'https://api.visionfi.com',
+  submitted_at: '2024-01-01T00:00:00.000Z',
+  status: 'submitted'
+};
+
 // Mock process.exit
 const mockExit = jest.spyOn(process, 'exit').mockImplementation((code?: number) => {
   return undefined as never;
@@ -43,7 +60,7 @@ describe('Analyze Command', () => {
     (fs.existsSync as jest.Mock).mockReturnValue(true);
     
     // Mock fs.readFileSync
-    (fs.readFileSync as jest.Mock).mockReturnValue(Buffer.from('test file content'));
+    (fs.readFileSync as jest.Mock).mockReturnValue(TEST_PDF);
   });
   
   afterEach(() => {
@@ -105,6 +122,44 @@ describe('Analyze Command', () => {
       });
     });
     
+    it('should record submitted jobs in the local ledger', async () => {
+      const mockClient = { 
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockResolvedValue({ uuid: 'test-uuid-123' })
+      };
+      const mockJobStore = {
+        recordJob: jest.fn(),
+        updateJob: jest.fn(),
+        getJob: jest.fn(),
+        listJobs: jest.fn().mockReturnValue([]),
+        removeJob: jest.fn()
+      };
+      
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      await analyzeDocumentCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice' },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient), jobStore: mockJobStore }
+      );
+      
+      expect(mockJobStore.recordJob).toHaveBeenCalledWith(expect.objectContaining({
+        uuid: 'test-uuid-123',
+        file_name: 'document.pdf',
+        workflow_key: 'invoice',
+        file_hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        status: 'submitted'
+      }));
+    });
+    
     it('should return failure result when no service account is configured', async () => {
       // Create mock dependencies
       const mockClientFactory = jest.fn();
@@ -303,6 +358,625 @@ describe('Analyze Command', () => {
         error: apiError
       });
     });
+    
+    it('should reject an unknown workflow key before uploading the file', async () => {
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn(),
+        getWorkflows: jest.fn().mockResolvedValue({
+          success: true,
+          data: [{ workflow_key: 'invoice', description: 'Invoices' }]
+        })
+      };
+      const workflowCache = { read: jest.fn().mockReturnValue(null), write: jest.fn(), clear: jest.fn() };
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const result = await analyzeDocumentCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoise' },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient), workflowCache }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toContain('Did you mean "invoice"?');
+      expect(mockClient.analyzeDocument).not.toHaveBeenCalled();
+    });
+    
+    it('should reject a file that fails the preflight checks before uploading it', async () => {
+      (fs.readFileSync as jest.Mock).mockReturnValue(Buffer.from('not a document'));
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn()
+      };
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const result = await analyzeDocumentCore(
+        '/path/to/notes.txt',
+        { workflow: 'invoice', skipWorkflowCheck: true },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient) }
+      );
+      
+      expect(result).toEqual({
+        success: false,
+        message: 'notes.txt is not a supported document type. Supported types: PDF, PNG, JPEG, TIFF.',
+        exitCode: 1
+      });
+      expect(mockClient.analyzeDocument).not.toHaveBeenCalled();
+    });
+    
+    it('should reject an invalid --max-file-size value', async () => {
+      const mockClientFactory = jest.fn();
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const result = await analyzeDocumentCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', maxFileSize: 'big' },
+        testConfig,
+        { clientFactory: mockClientFactory }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid --max-file-size value. Must be a positive number of megabytes.');
+      expect(mockClientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should not check the workflow key with skipWorkflowCheck', async () => {
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockResolvedValue({ uuid: 'test-uuid-123' }),
+        getWorkflows: jest.fn()
+      };
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const result = await analyzeDocumentCore(
+        '/path/to/document.pdf',
+        { workflow: 'new_workflow', skipWorkflowCheck: true },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient) }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(mockClient.getWorkflows).not.toHaveBeenCalled();
+      expect(mockClient.analyzeDocument).toHaveBeenCalled();
+    });
+    
+    it('should reuse an earlier job for the same file and workflow without uploading', async () => {
+      const mockClientFactory = jest.fn();
+      const mockJobStore = {
+        recordJob: jest.fn(),
+        updateJob: jest.fn(),
+        getJob: jest.fn(),
+        listJobs: jest.fn().mockReturnValue([PREVIOUS_JOB]),
+        removeJob: jest.fn()
+      };
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const result = await analyzeDocumentCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice' },
+        testConfig,
+        { clientFactory: mockClientFactory, jobStore: mockJobStore }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(result.uuid).toBe('previous-uuid');
+      expect(result.deduplicated).toBe(true);
+      expect(result.message).toBe(
+        'Document already submitted as job previous-uuid on 2024-01-01T00:00:00.000Z; reusing it. Use --force to submit it again.'
+      );
+      expect(mockClientFactory).not.toHaveBeenCalled();
+      expect(mockJobStore.recordJob).not.toHaveBeenCalled();
+    });
+    
+    it('should submit a duplicate file again with force', async () => {
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockResolvedValue({ uuid: 'test-uuid-123' })
+      };
+      const mockJobStore = {
+        recordJob: jest.fn(),
+        updateJob: jest.fn(),
+        getJob: jest.fn(),
+        listJobs: jest.fn().mockReturnValue([PREVIOUS_JOB]),
+        removeJob: jest.fn()
+      };
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const result = await analyzeDocumentCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', force: true, skipWorkflowCheck: true },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient), jobStore: mockJobStore }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(result.uuid).toBe('test-uuid-123');
+      expect(result.deduplicated).toBeUndefined();
+      expect(mockClient.analyzeDocument).toHaveBeenCalled();
+      expect(mockJobStore.listJobs).not.toHaveBeenCalled();
+    });
+    
+    it('should retry a submission that fails with a server error', async () => {
+      const serverError = Object.assign(new Error('Request failed with status code 503'), { response: { status: 503, headers: {} } });
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockRejectedValueOnce(serverError).mockResolvedValue({ uuid: 'test-uuid-123' })
+      };
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const onRetry = jest.fn();
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600,
+        retries: 2
+      };
+      
+      const result = await analyzeDocumentCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', skipWorkflowCheck: true },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient), sleep, onRetry }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(result.uuid).toBe('test-uuid-123');
+      expect(mockClient.analyzeDocument).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledTimes(1);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ method: 'analyzeDocument', reason: 'HTTP 503', retries: 2 }));
+    });
+    
+    it('should not retry a submission rejected as invalid', async () => {
+      const validationError = Object.assign(new Error('Request failed with status code 422'), { response: { status: 422, headers: {} } });
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockRejectedValue(validationError)
+      };
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: [],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const result = await analyzeDocumentCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', skipWorkflowCheck: true },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient), sleep }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Error submitting document: Request failed with status code 422');
+      expect(mockClient.analyzeDocument).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('analyzeBatchCore', () => {
+    const testConfig: CLIConfig = {
+      service_account_path: '/path/to/service-account.json',
+      api_endpoint: 'https://api.visionfi.com',
+      recent_uuids: [],
+      debug_mode: false,
+      test_mode: false,
+      workflow_cache_ttl: 3600
+    };
+    
+    // Directory layout: /docs/a.pdf, /docs/b.pdf, /docs/notes.txt
+    const directoryTree: { [path: string]: string[] } = {
+      '/docs': ['a.pdf', 'b.pdf', 'notes.txt']
+    };
+    const mockDirectoryReader = {
+      existsSync: jest.fn((p: string) => ['/docs', '/docs/a.pdf', '/docs/b.pdf', '/docs/notes.txt'].includes(p)),
+      readdirSync: jest.fn((p: string) => directoryTree[p] || []),
+      statSync: jest.fn((p: string) => ({
+        isDirectory: () => p in directoryTree,
+        isFile: () => !(p in directoryTree)
+      }))
+    };
+    
+    // Manifests kept in memory, copied on every write
+    const createMemoryManifestStore = () => {
+      const manifests: { [path: string]: BatchManifest } = {};
+      return {
+        manifests,
+        defaultPath: jest.fn((batchId: string) => `/batches/${batchId}.json`),
+        read: jest.fn((filePath: string) => JSON.parse(JSON.stringify(manifests[filePath]))),
+        write: jest.fn((filePath: string, manifest: BatchManifest) => {
+          manifests[filePath] = JSON.parse(JSON.stringify(manifest));
+        })
+      };
+    };
+    
+    it('should submit every file matched by a glob pattern', async () => {
+      let counter = 0;
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockImplementation(async () => ({ uuid: `uuid-${++counter}` }))
+      };
+      const mockClientFactory = jest.fn().mockReturnValue(mockClient);
+      
+      const result = await analyzeBatchCore(
+        ['/docs/*.pdf'],
+        { workflow: 'invoice', concurrency: 2 },
+        testConfig,
+        { clientFactory: mockClientFactory, directoryReader: mockDirectoryReader, batchManifestStore: createMemoryManifestStore() }
+      );
+      
+      expect(mockClient.analyzeDocument).toHaveBeenCalledTimes(2);
+      expect(result.success).toBe(true);
+      expect(result.exitCode).toBe(0);
+      expect(result.submitted).toBe(2);
+      expect(result.items.map(item => item.filePath)).toEqual(['/docs/a.pdf', '/docs/b.pdf']);
+    });
+    
+    it('should walk a directory with a symlink loop once', async () => {
+      // /docs/loop links back to /docs
+      const loopingReader = {
+        existsSync: jest.fn((p: string) => p.startsWith('/docs')),
+        readdirSync: jest.fn(() => ['a.pdf', 'loop']),
+        statSync: jest.fn((p: string) => ({
+          isDirectory: () => !p.endsWith('.pdf'),
+          isFile: () => p.endsWith('.pdf')
+        })),
+        realpathSync: jest.fn((p: string) => p.replace(/(\/loop)+$/, ''))
+      };
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockResolvedValue({ uuid: 'uuid-1' })
+      };
+      
+      const result = await analyzeBatchCore(
+        ['/docs'],
+        { workflow: 'invoice', concurrency: 1 },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient), directoryReader: loopingReader, batchManifestStore: createMemoryManifestStore() }
+      );
+      
+      expect(result.items.map(item => item.filePath)).toEqual(['/docs/a.pdf']);
+      expect(loopingReader.readdirSync).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should report failures and unmatched inputs with a non-zero exit code', async () => {
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn()
+          .mockResolvedValueOnce({ uuid: 'uuid-1' })
+          .mockRejectedValueOnce(new Error('API error'))
+      };
+      const mockClientFactory = jest.fn().mockReturnValue(mockClient);
+      
+      const result = await analyzeBatchCore(
+        ['/docs/*.pdf', '/missing/*.pdf'],
+        { workflow: 'invoice', concurrency: 1 },
+        testConfig,
+        { clientFactory: mockClientFactory, directoryReader: mockDirectoryReader, batchManifestStore: createMemoryManifestStore() }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.submitted).toBe(1);
+      expect(result.failed).toBe(2);
+      expect(result.items[0]).toEqual(expect.objectContaining({
+        filePath: '/missing/*.pdf',
+        success: false,
+        message: 'No files matched: /missing/*.pdf'
+      }));
+      expect(result.items[2].message).toBe('Error submitting document: API error');
+    });
+    
+    it('should count files that reused an earlier job in the summary', async () => {
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockResolvedValue({ uuid: 'uuid-new' })
+      };
+      const mockJobStore = {
+        recordJob: jest.fn(),
+        updateJob: jest.fn(),
+        getJob: jest.fn(),
+        // a.pdf was submitted before; b.pdf has different content
+        listJobs: jest.fn().mockReturnValue([PREVIOUS_JOB]),
+        removeJob: jest.fn()
+      };
+      (fs.readFileSync as jest.Mock).mockImplementation((p: string) =>
+        p === '/docs/a.pdf' ? TEST_PDF : Buffer.from('%PDF-1.4\nother content\n%%EOF\n'));
+      
+      const result = await analyzeBatchCore(
+        ['/docs/*.pdf'],
+        { workflow: 'invoice', concurrency: 1, skipWorkflowCheck: true },
+        testConfig,
+        {
+          clientFactory: jest.fn().mockReturnValue(mockClient),
+          directoryReader: mockDirectoryReader,
+          jobStore: mockJobStore,
+          batchManifestStore: createMemoryManifestStore()
+        }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(result.submitted).toBe(2);
+      expect(result.deduplicated).toBe(1);
+      expect(result.items[0]).toEqual(expect.objectContaining({ uuid: 'previous-uuid', deduplicated: true }));
+      expect(result.items[1].uuid).toBe('uuid-new');
+      expect(mockClient.analyzeDocument).toHaveBeenCalledTimes(1);
+      expect(result.message).toBe('2 of 2 documents submitted successfully (1 already submitted; existing job reused).');
+    });
+    
+    it('should record each file\'s state in the batch manifest', async () => {
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn()
+          .mockResolvedValueOnce({ uuid: 'uuid-1' })
+          .mockRejectedValueOnce(new Error('API error'))
+      };
+      const manifestStore = createMemoryManifestStore();
+      const onBatchStart = jest.fn();
+      
+      const result = await analyzeBatchCore(
+        ['/docs/*.pdf'],
+        { workflow: 'invoice', concurrency: 1, skipWorkflowCheck: true, manifest: '/runs/invoices.json' },
+        testConfig,
+        {
+          clientFactory: jest.fn().mockReturnValue(mockClient),
+          directoryReader: mockDirectoryReader,
+          batchManifestStore: manifestStore,
+          now: () => Date.parse('2024-05-01T12:00:00.000Z'),
+          onBatchStart
+        }
+      );
+      
+      expect(result.manifestPath).toBe('/runs/invoices.json');
+      expect(onBatchStart).toHaveBeenCalledWith('/runs/invoices.json', 2);
+      expect(manifestStore.defaultPath).not.toHaveBeenCalled();
+      
+      const manifest = manifestStore.manifests['/runs/invoices.json'];
+      expect(manifest).toEqual(expect.objectContaining({
+        version: 1,
+        id: 'batch-2024-05-01T12-00-00-000Z',
+        api_endpoint: 'https://api.visionfi.com',
+        options: { workflow: 'invoice', concurrency: 1 }
+      }));
+      expect(manifest.files).toEqual([
+        expect.objectContaining({ path: '/docs/a.pdf', state: 'submitted', uuid: 'uuid-1' }),
+        expect.objectContaining({ path: '/docs/b.pdf', state: 'failed', message: 'Error submitting document: API error' })
+      ]);
+      expect(result.items.map(item => item.state)).toEqual(['submitted', 'failed']);
+    });
+    
+    it('should write the manifest before submitting and stop if it cannot be written', async () => {
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn()
+      };
+      const manifestStore = createMemoryManifestStore();
+      manifestStore.write.mockImplementation(() => { throw new Error('EACCES: permission denied'); });
+      
+      const result = await analyzeBatchCore(
+        ['/docs/*.pdf'],
+        { workflow: 'invoice', skipWorkflowCheck: true },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient), directoryReader: mockDirectoryReader, batchManifestStore: manifestStore }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toMatch(/^Cannot write batch manifest \/batches\/batch-.*\.json: EACCES: permission denied$/);
+      expect(mockClient.analyzeDocument).not.toHaveBeenCalled();
+    });
+    
+    it('should fail when no inputs are given', async () => {
+      const result = await analyzeBatchCore([], { workflow: 'invoice' }, testConfig, {
+        directoryReader: mockDirectoryReader
+      });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('No files to analyze.');
+    });
+    
+    it('should check the workflow key once and submit nothing when it is unknown', async () => {
+      const mockClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn(),
+        getWorkflows: jest.fn().mockResolvedValue({
+          success: true,
+          data: [{ workflow_key: 'invoice', description: 'Invoices' }]
+        })
+      };
+      const workflowCache = { read: jest.fn().mockReturnValue(null), write: jest.fn(), clear: jest.fn() };
+      
+      const result = await analyzeBatchCore(
+        ['/docs/*.pdf'],
+        { workflow: 'receipt' },
+        testConfig,
+        { clientFactory: jest.fn().mockReturnValue(mockClient), directoryReader: mockDirectoryReader, workflowCache }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Unknown workflow "receipt".');
+      expect(mockClient.getWorkflows).toHaveBeenCalledTimes(1);
+      expect(mockClient.analyzeDocument).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('analyzeAndWaitCore', () => {
+    const testConfig: CLIConfig = {
+      service_account_path: '/path/to/service-account.json',
+      api_endpoint: 'https://api.visionfi.com',
+      recent_uuids: [],
+      debug_mode: false,
+      test_mode: false,
+      workflow_cache_ttl: 3600
+    };
+    
+    const createMockJobStore = () => ({
+      recordJob: jest.fn(),
+      updateJob: jest.fn(),
+      getJob: jest.fn(),
+      listJobs: jest.fn().mockReturnValue([]),
+      removeJob: jest.fn()
+    });
+    
+    const createAnalyzeClientFactory = () => jest.fn().mockReturnValue({
+      verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+      analyzeDocument: jest.fn().mockResolvedValue({ uuid: 'test-uuid-123' })
+    });
+    
+    it('should submit the document and return the polled results', async () => {
+      const mockGetResults = jest.fn().mockResolvedValue({ status: 'processed', results: { total: 42 } });
+      const resultsClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: mockGetResults
+      });
+      
+      const result = await analyzeAndWaitCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', wait: true, pollInterval: '1000', maxAttempts: '5' },
+        testConfig,
+        {
+          clientFactory: createAnalyzeClientFactory(),
+          resultsClientFactory,
+          jobStore: createMockJobStore()
+        }
+      );
+      
+      expect(mockGetResults).toHaveBeenCalledWith('test-uuid-123', 0, 1);
+      expect(result.success).toBe(true);
+      expect(result.uuid).toBe('test-uuid-123');
+      expect(result.status).toBe('processed');
+      expect(result.results).toEqual({ total: 42 });
+    });
+    
+    it('should write results to the --out file and record the location', async () => {
+      const mockJobStore = createMockJobStore();
+      const resultsClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({ status: 'processed', results: { total: 42 } })
+      });
+      
+      const result = await analyzeAndWaitCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', wait: true, out: '/tmp/out/results.json' },
+        testConfig,
+        {
+          clientFactory: createAnalyzeClientFactory(),
+          resultsClientFactory,
+          jobStore: mockJobStore
+        }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(result.outputPath).toBe('/tmp/out/results.json');
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        '/tmp/out/results.json',
+        JSON.stringify({ total: 42 }, null, 2)
+      );
+      expect(mockJobStore.updateJob).toHaveBeenCalledWith('test-uuid-123', { result_location: '/tmp/out/results.json' });
+    });
+    
+    it('should reject invalid polling options before submitting', async () => {
+      const clientFactory = createAnalyzeClientFactory();
+      
+      const result = await analyzeAndWaitCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', wait: true, pollInterval: 'abc' },
+        testConfig,
+        { clientFactory, jobStore: createMockJobStore() }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid --poll-interval value. Must be a positive number of milliseconds.');
+      expect(clientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should fail when results are not available after polling', async () => {
+      const mockGetResults = jest.fn().mockResolvedValue({ status: 'processing' });
+      const resultsClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: mockGetResults
+      });
+      
+      const result = await analyzeAndWaitCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', wait: true, maxAttempts: '3' },
+        testConfig,
+        {
+          clientFactory: createAnalyzeClientFactory(),
+          resultsClientFactory,
+          jobStore: createMockJobStore(),
+          sleep: jest.fn().mockResolvedValue(undefined)
+        }
+      );
+      
+      expect(mockGetResults).toHaveBeenCalledTimes(3);
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.uuid).toBe('test-uuid-123');
+      expect(result.message).toContain('visionfi results test-uuid-123 --wait');
+    });
+    
+    it('should not poll when the submission fails', async () => {
+      const resultsClientFactory = jest.fn();
+      
+      const result = await analyzeAndWaitCore(
+        '/path/to/document.pdf',
+        { workflow: 'invoice', wait: true },
+        { ...testConfig, service_account_path: '' },
+        { resultsClientFactory, jobStore: createMockJobStore() }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(resultsClientFactory).not.toHaveBeenCalled();
+    });
   });
   
   describe('analyzeDocument CLI wrapper', () => {
@@ -0,0 +1,177 @@
+/**
+ * Tests for resuming batch runs
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resumeBatchCore } from '../../src/commands/batch';
+import { BatchManifest, BatchManifestFile } from '../../src/types/batch';
+import { createBatchManifestStore } from '../../src/utils/batch-manifest';
+import { createConfig, createMockJobStore } from '../helpers/fixtures';
+
+// Minimal document that passes the PDF preflight checks
+const TEST_PDF = '%PDF-1.4\ntest file content\n%%EOF\n';
+
+describe('Batch Commands', () => {
+  let workDir: string;
+  let manifestPath: string;
+  const store = () => createBatchManifestStore(path.join(workDir, 'batches'));
+
+  const writeManifest = (files: BatchManifestFile[], options: Partial<BatchManifest['options']> = {}) => {
+    store().write(manifestPath, {
+      version: 1,
+      id: 'batch-1',
+      created_at: '2024-05-01T12:00:00.000Z',
+      updated_at: '2024-05-01T12:00:00.000Z',
+      api_endpoint: 'https://api.visionfi.com',
+      options: { workflow: 'invoice', ...options },
+      files
+    });
+  };
+
+  const doc = (name: string) => path.join(workDir, name);
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-batch-'));
+    manifestPath = path.join(workDir, 'batch.json');
+    for (const name of ['a.pdf', 'b.pdf', 'c.pdf']) {
+      fs.writeFileSync(doc(name), TEST_PDF.replace('test', name));
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('resumeBatchCore', () => {
+    it('should submit only the pending and failed files', async () => {
+      writeManifest([
+        { path: doc('a.pdf'), state: 'submitted', uuid: 'uuid-a' },
+        { path: doc('b.pdf'), state: 'pending' },
+        { path: doc('c.pdf'), state: 'failed', message: 'Error submitting document: socket hang up' }
+      ]);
+      let counter = 0;
+      const client = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn().mockImplementation(async () => ({ uuid: `uuid-new-${++counter}` }))
+      };
+      const onBatchStart = jest.fn();
+
+      const result = await resumeBatchCore(manifestPath, { concurrency: 1 }, createConfig(), {
+        clientFactory: () => client,
+        jobStore: createMockJobStore(),
+        batchManifestStore: store(),
+        onBatchStart
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('3 of 3 documents submitted successfully (1 finished in an earlier run).');
+      expect(result.skipped).toBe(1);
+      expect(onBatchStart).toHaveBeenCalledWith(manifestPath, 2);
+      expect(client.analyzeDocument).toHaveBeenCalledTimes(2);
+      expect(client.analyzeDocument).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        expect.objectContaining({ fileName: 'b.pdf', analysisType: 'invoice' })
+      );
+      expect(result.items[0]).toEqual(expect.objectContaining({ uuid: 'uuid-a', skipped: true }));
+
+      const manifest = store().read(manifestPath);
+      expect(manifest.files.map(file => [file.state, file.uuid])).toEqual([
+        ['submitted', 'uuid-a'],
+        ['submitted', 'uuid-new-1'],
+        ['submitted', 'uuid-new-2']
+      ]);
+      expect(manifest.files[2].message).toBeUndefined();
+    });
+
+    it('should only wait for files submitted before the interruption', async () => {
+      writeManifest([
+        { path: doc('a.pdf'), state: 'completed', uuid: 'uuid-a' },
+        { path: doc('b.pdf'), state: 'submitted', uuid: 'uuid-b' }
+      ], { wait: true });
+      const client = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn()
+      };
+      const resultsClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({ status: 'processed', results: { total: 42 } })
+      };
+
+      const result = await resumeBatchCore(manifestPath, {}, createConfig(), {
+        clientFactory: () => client,
+        resultsClientFactory: () => resultsClient,
+        jobStore: createMockJobStore(),
+        batchManifestStore: store()
+      });
+
+      expect(result.success).toBe(true);
+      expect(client.analyzeDocument).not.toHaveBeenCalled();
+      expect(resultsClient.getResults).toHaveBeenCalledWith('uuid-b', 0, 1);
+      expect(store().read(manifestPath).files.map(file => file.state)).toEqual(['completed', 'completed']);
+    });
+
+    it('should keep a file submitted when its results are not ready yet', async () => {
+      writeManifest([{ path: doc('a.pdf'), state: 'submitted', uuid: 'uuid-a' }], { wait: true, maxAttempts: 1 });
+      const resultsClient = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({ status: 'processing' })
+      };
+
+      const result = await resumeBatchCore(manifestPath, {}, createConfig(), {
+        resultsClientFactory: () => resultsClient,
+        jobStore: createMockJobStore(),
+        batchManifestStore: store()
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      const file = store().read(manifestPath).files[0];
+      expect(file.state).toBe('submitted');
+      expect(file.message).toContain('visionfi results uuid-a --wait');
+    });
+
+    it('should report a batch with nothing left to do', async () => {
+      writeManifest([
+        { path: doc('a.pdf'), state: 'submitted', uuid: 'uuid-a' },
+        { path: doc('b.pdf'), state: 'completed', uuid: 'uuid-b' }
+      ]);
+      const clientFactory = jest.fn();
+
+      const result = await resumeBatchCore(manifestPath, {}, createConfig({ service_account_path: '' }), {
+        clientFactory,
+        batchManifestStore: store()
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Nothing to resume: all 2 files in the batch are finished.');
+      expect(result.items).toHaveLength(2);
+      expect(clientFactory).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to resume a batch submitted to another endpoint', async () => {
+      writeManifest([{ path: doc('a.pdf'), state: 'pending' }]);
+
+      const result = await resumeBatchCore(manifestPath, {}, createConfig({ api_endpoint: 'https://staging.example.com' }), {
+        batchManifestStore: store()
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe(
+        'The batch was submitted to https://api.visionfi.com, but the active endpoint is https://staging.example.com. ' +
+        'Resume it with --endpoint https://api.visionfi.com.'
+      );
+    });
+
+    it('should fail for a missing manifest', async () => {
+      const result = await resumeBatchCore(path.join(workDir, 'missing.json'), {}, createConfig(), {
+        batchManifestStore: store()
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toBe(`Batch manifest not found: ${path.join(workDir, 'missing.json')}`);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for cache command core functionality
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { clearCacheCore } from '../../src/commands/cache';
+
+describe('Cache Commands', () => {
+  let cacheDir: string;
+
+  const writeCacheFile = (profile: string, name: string) => {
+    fs.mkdirSync(path.join(cacheDir, profile), { recursive: true });
+    fs.writeFileSync(path.join(cacheDir, profile, name), '{}');
+  };
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-cache-'));
+    writeCacheFile('default', 'workflows-a.json');
+    writeCacheFile('default', 'workflows-b.json');
+    writeCacheFile('default', 'session.json');
+    writeCacheFile('staging', 'workflows-a.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('clearCacheCore', () => {
+    it('should clear the cache of the active profile only', () => {
+      const result = clearCacheCore({}, { cacheDir, profileResolver: () => 'default' });
+
+      expect(result.success).toBe(true);
+      expect(result.removed).toBe(2);
+      expect(result.message).toBe('Removed 2 cached workflow lists for profile "default".');
+      expect(fs.readdirSync(path.join(cacheDir, 'default'))).toEqual(['session.json']);
+      expect(fs.existsSync(path.join(cacheDir, 'staging', 'workflows-a.json'))).toBe(true);
+    });
+
+    it('should clear every profile with all', () => {
+      const result = clearCacheCore({ all: true }, { cacheDir, profileResolver: () => 'default' });
+
+      expect(result.success).toBe(true);
+      expect(result.removed).toBe(3);
+      expect(fs.existsSync(path.join(cacheDir, 'staging', 'workflows-a.json'))).toBe(false);
+      expect(fs.existsSync(path.join(cacheDir, 'default', 'session.json'))).toBe(true);
+    });
+
+    it('should succeed when there is nothing to clear', () => {
+      const result = clearCacheCore({}, { cacheDir, profileResolver: () => 'unused' });
+
+      expect(result.success).toBe(true);
+      expect(result.removed).toBe(0);
+    });
+  });
+});
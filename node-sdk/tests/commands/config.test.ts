@@ -0,0 +1,191 @@
+/**
+ * Tests for config command core functionality
+ */
+
+import * as path from 'path';
+import {
+  showConfigCore,
+  getConfigValueCore,
+  setConfigValueCore,
+  unsetConfigValueCore,
+  listConfigKeysCore,
+  resetConfigCore,
+  parseConfigValue
+} from '../../src/commands/config';
+import { DEFAULT_CONFIG } from '../../src/utils/config';
+import { CONFIG_KEY_DEFINITIONS, ConfigValidationError } from '../../src/utils/config-schema';
+import { ResolvedConfig } from '../../src/types/config';
+
+const RESOLVED: ResolvedConfig = {
+  config: { ...DEFAULT_CONFIG, api_endpoint: 'https://env.example.com' },
+  file: { ...DEFAULT_CONFIG, api_endpoint: 'https://file.example.com' },
+  sources: {
+    service_account_path: 'default',
+    api_endpoint: 'env',
+    recent_uuids: 'default',
+    debug_mode: 'default',
+    test_mode: 'default',
+    workflow_cache_ttl: 'file'
+  }
+};
+
+describe('Config Commands', () => {
+  describe('showConfigCore', () => {
+    const dependencies = {
+      configResolver: () => RESOLVED,
+      profileResolver: () => 'staging'
+    };
+    
+    it('should show the stored configuration by default', () => {
+      const result = showConfigCore({}, dependencies);
+      
+      expect(result).toEqual({
+        success: true,
+        message: 'Configuration for profile "staging".',
+        exitCode: 0,
+        profile: 'staging',
+        config: RESOLVED.file
+      });
+    });
+    
+    it('should show the effective configuration with sources when resolved', () => {
+      const result = showConfigCore({ resolved: true }, dependencies);
+      
+      expect(result.config?.api_endpoint).toBe('https://env.example.com');
+      expect(result.sources).toEqual(RESOLVED.sources);
+    });
+    
+    it('should report configuration errors', () => {
+      const result = showConfigCore({ resolved: true }, {
+        configResolver: () => { throw new Error('Invalid value for VISIONFI_DEBUG: "maybe". Use true or false.'); },
+        profileResolver: () => 'default'
+      });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Failed to load configuration: Invalid value for VISIONFI_DEBUG: "maybe". Use true or false.');
+    });
+  });
+  
+  describe('parseConfigValue', () => {
+    it('should parse values according to the key type', () => {
+      expect(parseConfigValue('debug_mode', 'yes')).toEqual({ value: true });
+      expect(parseConfigValue('workflow_cache_ttl', '10m')).toEqual({ value: 600 });
+      expect(parseConfigValue('recent_uuids', 'a, b,,c')).toEqual({ value: ['a', 'b', 'c'] });
+      expect(parseConfigValue('service_account_path', 'key.json')).toEqual({ value: path.resolve('key.json') });
+      expect(parseConfigValue('api_endpoint', 'https://api.example.com/v1')).toEqual({ value: 'https://api.example.com/v1' });
+    });
+    
+    it('should reject invalid values', () => {
+      expect(parseConfigValue('debug_mode', 'maybe').error).toContain('Use true or false');
+      expect(parseConfigValue('workflow_cache_ttl', 'soon').error).toContain('Examples: 30s, 10m, 2h');
+      expect(parseConfigValue('api_endpoint', 'not a url').error).toContain('not a valid URL');
+      expect(parseConfigValue('api_endpoint', 'ftp://example.com').error).toBe(
+        'Invalid value for api_endpoint: "ftp://example.com" is not an http(s) URL.'
+      );
+    });
+  });
+  
+  describe('getConfigValueCore', () => {
+    it('should return the stored or resolved value', () => {
+      const dependencies = { configResolver: () => RESOLVED };
+      
+      expect(getConfigValueCore('api_endpoint', {}, dependencies).value).toBe('https://file.example.com');
+      expect(getConfigValueCore('api_endpoint', { resolved: true }, dependencies).value).toBe('https://env.example.com');
+    });
+    
+    it('should reject unknown keys', () => {
+      const result = getConfigValueCore('endpoint', {}, { configResolver: () => RESOLVED });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Unknown config key "endpoint"');
+    });
+  });
+  
+  describe('setConfigValueCore', () => {
+    it('should save the parsed value to the stored config', () => {
+      const configWriter = jest.fn();
+      
+      const result = setConfigValueCore('workflow_cache_ttl', '2h', { configResolver: () => RESOLVED, configWriter });
+      
+      expect(result.success).toBe(true);
+      expect(result.value).toBe(7200);
+      expect(configWriter).toHaveBeenCalledWith({ ...RESOLVED.file, workflow_cache_ttl: 7200 });
+    });
+    
+    it('should mention an environment override of the key', () => {
+      const configWriter = jest.fn();
+      
+      const result = setConfigValueCore('api_endpoint', 'https://new.example.com', { configResolver: () => RESOLVED, configWriter });
+      
+      expect(result.message).toBe('Set api_endpoint = "https://new.example.com" (currently overridden by VISIONFI_API_ENDPOINT)');
+      expect(configWriter).toHaveBeenCalledWith({ ...RESOLVED.file, api_endpoint: 'https://new.example.com' });
+    });
+    
+    it('should repair a stored config with invalid values', () => {
+      const configWriter = jest.fn();
+      const stored = { ...DEFAULT_CONFIG, debug_mode: 'yes', api_endpoint: 'htp:/broken' };
+      const configResolver = () => {
+        throw new ConfigValidationError('/home/user/.visionfi/config.json', [
+          { key: 'api_endpoint', message: '"htp:/broken" is not an http(s) URL' }
+        ], stored);
+      };
+      
+      const result = setConfigValueCore('api_endpoint', 'https://api.example.com', { configResolver, configWriter });
+      
+      expect(result.success).toBe(true);
+      expect(configWriter).toHaveBeenCalledWith({ ...stored, api_endpoint: 'https://api.example.com' });
+    });
+    
+    it('should not save invalid values or unknown keys', () => {
+      const configWriter = jest.fn();
+      
+      expect(setConfigValueCore('debug_mode', 'maybe', { configResolver: () => RESOLVED, configWriter }).success).toBe(false);
+      expect(setConfigValueCore('colour', 'red', { configResolver: () => RESOLVED, configWriter }).success).toBe(false);
+      expect(configWriter).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('unsetConfigValueCore', () => {
+    it('should restore the default value', () => {
+      const configWriter = jest.fn();
+      
+      const result = unsetConfigValueCore('api_endpoint', { configResolver: () => RESOLVED, configWriter });
+      
+      expect(result.success).toBe(true);
+      expect(configWriter).toHaveBeenCalledWith({ ...RESOLVED.file, api_endpoint: DEFAULT_CONFIG.api_endpoint });
+    });
+  });
+  
+  describe('listConfigKeysCore', () => {
+    it('should list every config key with its type and stored value', () => {
+      const result = listConfigKeysCore({ configResolver: () => RESOLVED });
+      
+      expect(result.keys?.map(item => item.key)).toEqual(Object.keys(CONFIG_KEY_DEFINITIONS));
+      expect(result.keys?.find(item => item.key === 'workflow_cache_ttl')).toEqual(expect.objectContaining({
+        type: 'ttl',
+        value: DEFAULT_CONFIG.workflow_cache_ttl
+      }));
+    });
+  });
+  
+  describe('resetConfigCore', () => {
+    it('should require confirmation', () => {
+      const configWriter = jest.fn();
+      
+      const result = resetConfigCore({}, { configWriter, profileResolver: () => 'staging' });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('--yes');
+      expect(configWriter).not.toHaveBeenCalled();
+    });
+    
+    it('should write the defaults when confirmed', () => {
+      const configWriter = jest.fn();
+      
+      const result = resetConfigCore({ yes: true }, { configWriter, profileResolver: () => 'staging' });
+      
+      expect(result.success).toBe(true);
+      expect(configWriter).toHaveBeenCalledWith(DEFAULT_CONFIG);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Tests for jobs command core functionality
+ */
+
+import { listJobsCore, showJobCore, pruneJobsCore } from '../../src/commands/jobs';
+import { JobRecord } from '../../src/types/jobs';
+import { createMockJobStore } from '../helpers/fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-03-01T00:00:00.000Z');
+
+const JOBS: JobRecord[] = [
+  {
+    uuid: 'aaaa-1111',
+    file_name: 'invoice.pdf',
+    file_hash: 'hash1',
+    workflow_key: 'invoice',
+    api_endpoint: 'https://api.visionfi.com',
+    submitted_at: new Date(NOW - DAY).toISOString(),
+    status: 'submitted'
+  },
+  {
+    uuid: 'aaaa-2222',
+    file_name: 'license.png',
+    file_hash: 'hash2',
+    workflow_key: 'identity',
+    api_endpoint: 'https://api.visionfi.com',
+    submitted_at: new Date(NOW - 10 * DAY).toISOString(),
+    status: 'completed'
+  },
+  {
+    uuid: 'bbbb-3333',
+    file_name: 'invoice2.pdf',
+    file_hash: 'hash3',
+    workflow_key: 'invoice',
+    api_endpoint: 'https://api.visionfi.com',
+    submitted_at: new Date(NOW - 40 * DAY).toISOString(),
+    status: 'completed'
+  }
+];
+
+describe('Jobs Command', () => {
+  describe('listJobsCore', () => {
+    it('should list all jobs', () => {
+      const result = listJobsCore({}, { jobStore: createMockJobStore(JOBS) });
+      
+      expect(result.success).toBe(true);
+      expect(result.jobs).toHaveLength(3);
+      expect(result.message).toBe('Found 3 jobs.');
+    });
+    
+    it('should filter by status, workflow and limit', () => {
+      const jobStore = createMockJobStore(JOBS);
+      
+      expect(listJobsCore({ status: 'COMPLETED' }, { jobStore }).jobs).toHaveLength(2);
+      expect(listJobsCore({ workflow: 'invoice' }, { jobStore }).jobs).toHaveLength(2);
+      expect(listJobsCore({ limit: '1' }, { jobStore }).jobs).toHaveLength(1);
+    });
+    
+    it('should report an empty ledger', () => {
+      const result = listJobsCore({}, { jobStore: createMockJobStore([]) });
+      
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('No jobs found.');
+    });
+    
+    it('should reject invalid limits', () => {
+      for (const limit of ['abc', '0', '1.5']) {
+        const result = listJobsCore({ limit }, { jobStore: createMockJobStore(JOBS) });
+        
+        expect(result.success).toBe(false);
+        expect(result.message).toBe('Invalid --limit value. Must be a positive whole number.');
+      }
+    });
+    
+    it('should return failure when the ledger cannot be read', () => {
+      const jobStore = createMockJobStore([]);
+      (jobStore.listJobs as jest.Mock).mockImplementation(() => { throw new Error('EACCES'); });
+      
+      const result = listJobsCore({}, { jobStore });
+      
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toContain('EACCES');
+    });
+  });
+  
+  describe('showJobCore', () => {
+    it('should find a job by full UUID', () => {
+      const result = showJobCore('aaaa-2222', { jobStore: createMockJobStore(JOBS) });
+      
+      expect(result.success).toBe(true);
+      expect(result.job?.file_name).toBe('license.png');
+    });
+    
+    it('should find a job by unique prefix', () => {
+      const result = showJobCore('bbbb', { jobStore: createMockJobStore(JOBS) });
+      
+      expect(result.success).toBe(true);
+      expect(result.job?.uuid).toBe('bbbb-3333');
+    });
+    
+    it('should reject ambiguous prefixes', () => {
+      const result = showJobCore('aaaa', { jobStore: createMockJobStore(JOBS) });
+      
+      expect(result.success).toBe(false);
+      expect(result.jobs).toHaveLength(2);
+    });
+    
+    it('should report unknown jobs', () => {
+      const result = showJobCore('zzzz', { jobStore: createMockJobStore(JOBS) });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('No job found with UUID: zzzz');
+    });
+  });
+  
+  describe('pruneJobsCore', () => {
+    it('should require a filter', () => {
+      const jobStore = createMockJobStore(JOBS);
+      
+      const result = pruneJobsCore({}, { jobStore });
+      
+      expect(result.success).toBe(false);
+      expect(jobStore.removeJob).not.toHaveBeenCalled();
+    });
+    
+    it('should remove jobs older than the given number of days', () => {
+      const jobStore = createMockJobStore(JOBS);
+      
+      const result = pruneJobsCore({ olderThan: '30' }, { jobStore, now: () => NOW });
+      
+      expect(result.removed).toBe(1);
+      expect(jobStore.removeJob).toHaveBeenCalledWith('bbbb-3333');
+    });
+    
+    it('should combine age and status filters', () => {
+      const jobStore = createMockJobStore(JOBS);
+      
+      const result = pruneJobsCore({ olderThan: 5, status: 'completed' }, { jobStore, now: () => NOW });
+      
+      expect(result.removed).toBe(2);
+      expect(result.message).toBe('Removed 2 jobs from history.');
+    });
+    
+    it('should remove everything with --all', () => {
+      const jobStore = createMockJobStore(JOBS);
+      
+      const result = pruneJobsCore({ all: true }, { jobStore });
+      
+      expect(result.removed).toBe(3);
+    });
+    
+    it('should reject invalid ages', () => {
+      const result = pruneJobsCore({ olderThan: 'soon' }, { jobStore: createMockJobStore(JOBS) });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('--older-than');
+    });
+  });
+});
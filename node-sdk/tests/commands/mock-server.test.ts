@@ -0,0 +1,68 @@
+/**
+ * Tests for mock-server command core functionality
+ */
+
+import * as http from 'http';
+import { startMockServerCore } from '../../src/commands/mock-server';
+
+describe('Mock Server Commands', () => {
+  describe('startMockServerCore', () => {
+    it('should start a server and report its URL', async () => {
+      const result = await startMockServerCore({ port: 0 });
+
+      try {
+        expect(result.success).toBe(true);
+        expect(result.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+        expect(result.message).toBe(`Mock VisionFi API listening on ${result.url}`);
+
+        const status = await new Promise<number>((resolve, reject) => {
+          http.get(`${result.url}/auth/verify`, res => {
+            res.resume();
+            resolve(res.statusCode!);
+          }).on('error', reject);
+        });
+        expect(status).toBe(200);
+      } finally {
+        await result.close?.();
+      }
+    });
+
+    it('should apply a config file and command line overrides', async () => {
+      const fileReader = {
+        readFileSync: jest.fn().mockReturnValue(JSON.stringify({
+          latencyMs: 100,
+          routes: { results: { path: '/documents/:uuid/results' } }
+        }))
+      };
+
+      const result = await startMockServerCore({ port: 0, config: 'mock.json', latency: '20' }, { fileReader });
+
+      try {
+        expect(result.success).toBe(true);
+        expect(result.config!.latencyMs).toBe(20);
+        expect(result.config!.routes.results.path).toBe('/documents/:uuid/results');
+      } finally {
+        await result.close?.();
+      }
+    });
+
+    it('should fail for an invalid config file', async () => {
+      const fileReader = { readFileSync: jest.fn().mockReturnValue('{ not json') };
+
+      const result = await startMockServerCore({ config: 'mock.json' }, { fileReader });
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toContain('Invalid mock server config mock.json');
+    });
+
+    it('should reject invalid option values', async () => {
+      expect((await startMockServerCore({ failureRate: '1.5' })).message)
+        .toBe('Invalid --failure-rate value. Must be a number between 0 and 1.');
+      expect((await startMockServerCore({ latency: '-1' })).message)
+        .toBe('Invalid --latency value. Must be a non-negative number of milliseconds.');
+      expect((await startMockServerCore({ port: 'abc' })).message)
+        .toBe('Invalid --port value. Must be a port number between 0 and 65535.');
+    });
+  });
+});
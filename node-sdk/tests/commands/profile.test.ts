@@ -0,0 +1,130 @@
+/**
+ * Tests for profile command core functionality
+ */
+
+import * as path from 'path';
+import {
+  listProfilesCore,
+  addProfileCore,
+  useProfileCore,
+  removeProfileCore
+} from '../../src/commands/profile';
+import { ProfileManager, ProfileSummary } from '../../src/types/profiles';
+
+const createProfile = (name: string, overrides: Partial<ProfileSummary> = {}): ProfileSummary => ({
+  name,
+  active: false,
+  config_path: `/home/user/.visionfi/profiles/${name}/config.json`,
+  service_account_path: '',
+  api_endpoint: 'https://platform.visionfi.ai/api/v1',
+  workflow_cache_ttl: 1200,
+  ...overrides
+});
+
+const createMockProfileManager = (names: string[] = ['default']): jest.Mocked<ProfileManager> => ({
+  listProfiles: jest.fn().mockReturnValue(names.map(name => createProfile(name, { active: name === 'default' }))),
+  profileExists: jest.fn((name: string) => names.includes(name)),
+  createProfile: jest.fn((name: string, settings: any) => createProfile(name, settings)),
+  removeProfile: jest.fn().mockReturnValue(true),
+  getActiveProfile: jest.fn().mockReturnValue('default'),
+  setActiveProfile: jest.fn()
+});
+
+describe('Profile Commands', () => {
+  describe('listProfilesCore', () => {
+    it('should return all profiles', () => {
+      const profileManager = createMockProfileManager(['default', 'staging']);
+      
+      const result = listProfilesCore({ profileManager });
+      
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Found 2 profiles.');
+      expect(result.profiles?.map(profile => profile.name)).toEqual(['default', 'staging']);
+    });
+  });
+  
+  describe('addProfileCore', () => {
+    it('should create a profile with the given settings', () => {
+      const profileManager = createMockProfileManager();
+      
+      const result = addProfileCore('staging', {
+        endpoint: 'https://staging.example.com',
+        serviceAccount: 'keys/staging.json',
+        cacheTtl: '10m'
+      }, { profileManager });
+      
+      expect(result.success).toBe(true);
+      expect(profileManager.createProfile).toHaveBeenCalledWith('staging', {
+        api_endpoint: 'https://staging.example.com',
+        service_account_path: path.resolve('keys/staging.json'),
+        workflow_cache_ttl: 600
+      });
+      expect(profileManager.setActiveProfile).not.toHaveBeenCalled();
+      expect(result.message).toContain('visionfi profile use staging');
+    });
+    
+    it('should switch to the new profile with --use', () => {
+      const profileManager = createMockProfileManager();
+      
+      const result = addProfileCore('staging', { use: true }, { profileManager });
+      
+      expect(result.success).toBe(true);
+      expect(result.profile?.active).toBe(true);
+      expect(profileManager.setActiveProfile).toHaveBeenCalledWith('staging');
+    });
+    
+    it('should reject invalid names, existing profiles, bad endpoints and bad cache times', () => {
+      const profileManager = createMockProfileManager(['default', 'staging']);
+      
+      expect(addProfileCore('../prod', {}, { profileManager }).success).toBe(false);
+      expect(addProfileCore('staging', {}, { profileManager }).message).toBe('Profile "staging" already exists.');
+      expect(addProfileCore('prod', { cacheTtl: 'soon' }, { profileManager }).success).toBe(false);
+      expect(addProfileCore('prod', { endpoint: 'notaurl' }, { profileManager }).message).toBe(
+        'Invalid --endpoint value: "notaurl" is not a valid URL.'
+      );
+      expect(profileManager.createProfile).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('useProfileCore', () => {
+    it('should set an existing profile as active', () => {
+      const profileManager = createMockProfileManager(['default', 'staging']);
+      
+      const result = useProfileCore('staging', { profileManager });
+      
+      expect(result).toEqual({ success: true, message: 'Switched to profile "staging".', exitCode: 0 });
+      expect(profileManager.setActiveProfile).toHaveBeenCalledWith('staging');
+    });
+    
+    it('should fail for an unknown profile', () => {
+      const profileManager = createMockProfileManager();
+      
+      const result = useProfileCore('staging', { profileManager });
+      
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(profileManager.setActiveProfile).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('removeProfileCore', () => {
+    it('should remove an existing profile', () => {
+      const profileManager = createMockProfileManager(['default', 'staging']);
+      
+      const result = removeProfileCore('staging', { profileManager });
+      
+      expect(result.success).toBe(true);
+      expect(profileManager.removeProfile).toHaveBeenCalledWith('staging');
+    });
+    
+    it('should refuse to remove the default profile', () => {
+      const profileManager = createMockProfileManager();
+      
+      const result = removeProfileCore('default', { profileManager });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('The default profile cannot be removed.');
+      expect(profileManager.removeProfile).not.toHaveBeenCalled();
+    });
+  });
+});
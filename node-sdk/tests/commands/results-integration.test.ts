@@ -21,6 +21,7 @@ jest.mock('visionfi', () => ({
 }));
 
 // Now we can import modules
+import * as fs from 'fs';
 import { getResults, getResultsCore } from '../../src/commands/results';
 import * as config from '../../src/utils/config';
 import { CLIConfig } from '../../src/types/config';
@@ -61,6 +62,9 @@ describe('Results Command Integration', () => {
     });
     
     configSaveSpy = jest.spyOn(config, 'saveConfig').mockImplementation(() => {});
+    
+    // Start every test without results saved by an earlier one
+    fs.rmSync(config.getResultsDir(), { recursive: true, force: true });
   });
   
   afterEach(() => {
@@ -146,7 +150,9 @@ describe('Results Command Integration', () => {
       
       // Verify behavior
       expect(mockVerifyAuth).toHaveBeenCalled();
-      expect(mockGetResults).toHaveBeenCalledWith('test-uuid-123', 5000, 20);
+      // Polling is driven by the CLI; each attempt is a single check
+      expect(mockGetResults).toHaveBeenCalledTimes(1);
+      expect(mockGetResults).toHaveBeenCalledWith('test-uuid-123', 0, 1);
       expect(result.success).toBe(true);
       expect(result.exitCode).toBe(0);
     });
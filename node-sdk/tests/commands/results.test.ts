@@ -1,8 +1,11 @@
 import { VisionFi } from 'visionfi';
-import { getResults, getResultsCore } from '../../src/commands/results';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getResults, getResultsCore, getBulkResultsCore, diffResultsCore } from '../../src/commands/results';
 import * as config from '../../src/utils/config';
 import { CLIConfig } from '../../src/types/config';
-import { ResultsOptions } from '../../src/types/results';
+import { ResultsOptions, CachedResults } from '../../src/types/results';
 
 // Mock the modules
 jest.mock('visionfi');
@@ -11,6 +14,23 @@ jest.mock('../../src/utils/config');
 // 
 // 
 
+// In-memory results cache
+const createMemoryResultsCache = (entries: CachedResults[] = []) => {
+  const stored = new Map(entries.map(entry => [entry.uuid, entry]));
+  return {
+    read: jest.fn((uuid: string) => stored.get(uuid) || null),
+    write: jest.fn((entry: CachedResults) => { stored.set(entry.uuid, entry); })
+  };
+};
+
+const CACHED_ENTRY: CachedResults = {
+  uuid: 'test-uuid-123',
+  api_endpoint: 'https://api.visionfi.com',
+  cached_at: '2024-01-01T00:00:00.000Z',
+  status: 'processed',
+  results: { key: 'cached' }
+};
+
 // Mock process.exit
 const mockExit = jest.spyOn(process, 'exit').mockImplementation((code?: number) => {
   return undefined as never;
@@ -56,10 +76,6 @@ describe('Results Command', () => {
         getResults: mockGetResults
       };
       const mockClientFactory = jest.fn().mockReturnValue(mockClient);
-      const mockConfigManager = {
-        loadConfig: jest.fn(),
-        saveConfig: jest.fn()
-      };
       
       // Mock config
       const testConfig: CLIConfig = {
@@ -80,8 +96,7 @@ describe('Results Command', () => {
         options,
         testConfig,
         { 
-          clientFactory: mockClientFactory,
-          configManager: mockConfigManager
+          clientFactory: mockClientFactory
         }
       );
       
@@ -92,7 +107,6 @@ describe('Results Command', () => {
       });
       expect(mockVerifyAuth).toHaveBeenCalled();
       expect(mockGetResults).toHaveBeenCalledWith('test-uuid-123', 0, 1);
-      expect(mockConfigManager.saveConfig).toHaveBeenCalled();
       expect(result).toEqual({
         success: true,
         message: 'Results retrieved successfully!',
@@ -105,10 +119,6 @@ describe('Results Command', () => {
     it('should return failure result when no service account is configured', async () => {
       // Create mock dependencies
       const mockClientFactory = jest.fn();
-      const mockConfigManager = {
-        loadConfig: jest.fn(),
-        saveConfig: jest.fn()
-      };
       
       // Mock config without service account
       const testConfig: CLIConfig = {
@@ -129,8 +139,7 @@ describe('Results Command', () => {
         options,
         testConfig,
         { 
-          clientFactory: mockClientFactory,
-          configManager: mockConfigManager
+          clientFactory: mockClientFactory
         }
       );
       
@@ -151,10 +160,6 @@ describe('Results Command', () => {
         getResults: jest.fn()
       };
       const mockClientFactory = jest.fn().mockReturnValue(mockClient);
-      const mockConfigManager = {
-        loadConfig: jest.fn(),
-        saveConfig: jest.fn()
-      };
       
       // Mock config
       const testConfig: CLIConfig = {
@@ -175,8 +180,7 @@ describe('Results Command', () => {
         options,
         testConfig,
         { 
-          clientFactory: mockClientFactory,
-          configManager: mockConfigManager
+          clientFactory: mockClientFactory
         }
       );
       
@@ -198,10 +202,6 @@ describe('Results Command', () => {
         getResults: jest.fn()
       };
       const mockClientFactory = jest.fn().mockReturnValue(mockClient);
-      const mockConfigManager = {
-        loadConfig: jest.fn(),
-        saveConfig: jest.fn()
-      };
       
       // Mock config
       const testConfig: CLIConfig = {
@@ -222,8 +222,7 @@ describe('Results Command', () => {
         options,
         testConfig,
         { 
-          clientFactory: mockClientFactory,
-          configManager: mockConfigManager
+          clientFactory: mockClientFactory
         }
       );
       
@@ -249,10 +248,6 @@ describe('Results Command', () => {
         getResults: mockGetResults
       };
       const mockClientFactory = jest.fn().mockReturnValue(mockClient);
-      const mockConfigManager = {
-        loadConfig: jest.fn(),
-        saveConfig: jest.fn()
-      };
       
       // Mock config
       const testConfig: CLIConfig = {
@@ -273,8 +268,7 @@ describe('Results Command', () => {
         options,
         testConfig,
         { 
-          clientFactory: mockClientFactory,
-          configManager: mockConfigManager
+          clientFactory: mockClientFactory
         }
       );
       
@@ -301,10 +295,6 @@ describe('Results Command', () => {
         getResults: mockGetResults
       };
       const mockClientFactory = jest.fn().mockReturnValue(mockClient);
-      const mockConfigManager = {
-        loadConfig: jest.fn(),
-        saveConfig: jest.fn()
-      };
       
       // Mock config
       const testConfig: CLIConfig = {
@@ -329,14 +319,15 @@ describe('Results Command', () => {
         options,
         testConfig,
         { 
-          clientFactory: mockClientFactory,
-          configManager: mockConfigManager
+          clientFactory: mockClientFactory
         }
       );
       
       // Verify
       expect(mockVerifyAuth).toHaveBeenCalled();
-      expect(mockGetResults).toHaveBeenCalledWith('test-uuid-123', 5000, 20);
+      // Polling is driven by the CLI; each attempt is a single check
+      expect(mockGetResults).toHaveBeenCalledTimes(1);
+      expect(mockGetResults).toHaveBeenCalledWith('test-uuid-123', 0, 1);
       expect(result).toEqual({
         success: true,
         message: 'Results retrieved successfully!',
@@ -346,6 +337,488 @@ describe('Results Command', () => {
       });
     });
     
+    it('should back off between attempts until results are available', async () => {
+      const mockGetResults = jest.fn()
+        .mockResolvedValueOnce({ status: 'processing' })
+        .mockResolvedValueOnce({ status: 'processing' })
+        .mockResolvedValueOnce({ status: 'processed', results: { key: 'value' } });
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: mockGetResults
+      });
+      const mockSleep = jest.fn().mockResolvedValue(undefined);
+      const mockProgress = jest.fn();
+      
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: ['test-uuid-123'],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { wait: true, pollInterval: '1000', maxAttempts: '5' },
+        testConfig,
+        {
+          clientFactory: mockClientFactory,
+          sleep: mockSleep,
+          onPollProgress: mockProgress
+        }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(result.results).toEqual({ key: 'value' });
+      expect(mockGetResults).toHaveBeenCalledTimes(3);
+      expect(mockSleep).toHaveBeenCalledTimes(2);
+      expect(mockProgress).toHaveBeenCalledTimes(3);
+      expect(mockProgress).toHaveBeenLastCalledWith(expect.objectContaining({ attempt: 3 }));
+    });
+    
+    it('should keep waiting while a processing job returns partial results', async () => {
+      const mockGetResults = jest.fn()
+        .mockResolvedValueOnce({ status: 'processing', results: { key: 'partial' } })
+        .mockResolvedValueOnce({ status: 'processed', results: { key: 'value' } });
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: mockGetResults
+      });
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { wait: true, pollInterval: '1000', maxAttempts: '5' },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: ['test-uuid-123'],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        {
+          clientFactory: mockClientFactory,
+          sleep: jest.fn().mockResolvedValue(undefined)
+        }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(result.results).toEqual({ key: 'value' });
+      expect(mockGetResults).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should report a timeout when results do not arrive in time', async () => {
+      let clock = 0;
+      const mockGetResults = jest.fn().mockResolvedValue({ status: 'processing' });
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: mockGetResults
+      });
+      
+      const testConfig: CLIConfig = {
+        service_account_path: '/path/to/service-account.json',
+        api_endpoint: 'https://api.visionfi.com',
+        recent_uuids: ['test-uuid-123'],
+        debug_mode: false,
+        test_mode: false,
+        workflow_cache_ttl: 3600
+      };
+      
+      const nowSpy = jest.spyOn(Date, 'now').mockImplementation(() => clock);
+      try {
+        const result = await getResultsCore(
+          'test-uuid-123',
+          { wait: true, pollInterval: '1000', timeout: '5' },
+          testConfig,
+          {
+            clientFactory: mockClientFactory,
+            sleep: async (ms: number) => { clock += ms; }
+          }
+        );
+        
+        expect(result).toEqual({
+          success: true,
+          message: 'Timed out after 5s waiting for results. The job may still be processing.',
+          exitCode: 0,
+          status: 'processing',
+          timedOut: true
+        });
+        expect(mockGetResults.mock.calls.length).toBeGreaterThan(1);
+      } finally {
+        nowSpy.mockRestore();
+      }
+    });
+    
+    it('should reject an invalid timeout', async () => {
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn()
+      });
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { wait: true, timeout: 'soon' },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: ['test-uuid-123'],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid --timeout value. Must be a positive number of seconds.');
+    });
+    
+    it('should reject invalid polling intervals, backoff and attempt limits', async () => {
+      const mockClientFactory = jest.fn();
+      const cases: [ResultsOptions, string][] = [
+        [{ pollInterval: 'abc' }, 'Invalid --poll-interval value. Must be a positive number of milliseconds.'],
+        [{ pollInterval: 0 }, 'Invalid --poll-interval value. Must be a positive number of milliseconds.'],
+        [{ maxInterval: 'abc' }, 'Invalid --max-interval value. Must be a positive number of milliseconds.'],
+        [{ backoff: '0' }, 'Invalid --backoff value. Must be a number of 1 or more.'],
+        [{ maxAttempts: 'abc' }, 'Invalid --max-attempts value. Must be a positive whole number.'],
+        [{ maxAttempts: '2.5' }, 'Invalid --max-attempts value. Must be a positive whole number.']
+      ];
+      
+      for (const [options, message] of cases) {
+        const result = await getResultsCore(
+          'test-uuid-123',
+          { wait: true, timeout: '2', ...options },
+          {
+            service_account_path: '/path/to/service-account.json',
+            api_endpoint: 'https://api.visionfi.com',
+            recent_uuids: [],
+            debug_mode: false,
+            test_mode: false,
+            workflow_cache_ttl: 3600
+          },
+          { clientFactory: mockClientFactory }
+        );
+        
+        expect(result.success).toBe(false);
+        expect(result.message).toBe(message);
+      }
+      expect(mockClientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should reject an unknown format before contacting the API', async () => {
+      const mockClientFactory = jest.fn();
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { format: 'xml' },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: [],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid format "xml". Use one of: json, yaml, csv, tsv, table');
+      expect(mockClientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should write formatted results to --out and record the location', async () => {
+      const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-results-'));
+      const outFile = path.join(outDir, 'nested', 'results.csv');
+      const mockJobStore = { updateJob: jest.fn() } as any;
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({
+          status: 'processed',
+          results: { borrower: { name: 'Ada' }, total: 12.5 }
+        })
+      });
+      
+      try {
+        const result = await getResultsCore(
+          'test-uuid-123',
+          { format: 'csv', out: outFile },
+          {
+            service_account_path: '/path/to/service-account.json',
+            api_endpoint: 'https://api.visionfi.com',
+            recent_uuids: ['test-uuid-123'],
+            debug_mode: false,
+            test_mode: false,
+            workflow_cache_ttl: 3600
+          },
+          { clientFactory: mockClientFactory, jobStore: mockJobStore }
+        );
+        
+        expect(result.success).toBe(true);
+        expect(result.outputPath).toBe(outFile);
+        expect(result.message).toBe(`Results written to ${outFile}`);
+        expect(fs.readFileSync(outFile, 'utf8')).toBe('\ufeffborrower.name,total\r\nAda,12.5\r\n');
+        expect(mockJobStore.updateJob).toHaveBeenCalledWith('test-uuid-123', { result_location: outFile });
+      } finally {
+        fs.rmSync(outDir, { recursive: true, force: true });
+      }
+    });
+    
+    it('should return only the selected fields', async () => {
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({
+          status: 'processed',
+          results: { total: 12.5, borrower: { name: 'Ada' } }
+        })
+      });
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { select: ['$.total', 'borrower.name'] },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: ['test-uuid-123'],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory, jobStore: { updateJob: jest.fn() } as any }
+      );
+      
+      expect(result.success).toBe(true);
+      expect(result.selected).toEqual({ '$.total': 12.5, 'borrower.name': 'Ada' });
+    });
+    
+    it('should fail when a selected path does not exist', async () => {
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({ status: 'processed', results: { total: 12.5 } })
+      });
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { select: 'invoice.total' },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: ['test-uuid-123'],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory, jobStore: { updateJob: jest.fn() } as any }
+      );
+      
+      expect(result).toEqual({
+        success: false,
+        message: 'Path "invoice.total" not found in results: $: field "invoice" does not exist (available: total).',
+        exitCode: 1,
+        status: 'processed'
+      });
+    });
+    
+    it('should reject an invalid selector before contacting the API', async () => {
+      const mockClientFactory = jest.fn();
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { select: ['total', 'items['] },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: [],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('Invalid selector "items["');
+      expect(mockClientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should return cached results without contacting the API', async () => {
+      const mockClientFactory = jest.fn();
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        {},
+        {
+          service_account_path: '',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: [],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory, resultsCache: createMemoryResultsCache([CACHED_ENTRY]) }
+      );
+      
+      expect(result).toEqual({
+        success: true,
+        message: 'Results loaded from the local cache.',
+        exitCode: 0,
+        status: 'processed',
+        results: { key: 'cached' },
+        fromCache: true,
+        cachedAt: '2024-01-01T00:00:00.000Z'
+      });
+      expect(mockClientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should cache completed results and refetch them with refresh', async () => {
+      const resultsCache = createMemoryResultsCache([CACHED_ENTRY]);
+      const mockGetResults = jest.fn().mockResolvedValue({ status: 'processed', results: { key: 'fresh' } });
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: mockGetResults
+      });
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { refresh: true },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: ['test-uuid-123'],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory, jobStore: { updateJob: jest.fn() } as any, resultsCache }
+      );
+      
+      expect(result.results).toEqual({ key: 'fresh' });
+      expect(result.fromCache).toBeUndefined();
+      expect(mockGetResults).toHaveBeenCalled();
+      expect(resultsCache.write).toHaveBeenCalledWith(expect.objectContaining({
+        uuid: 'test-uuid-123',
+        api_endpoint: 'https://api.visionfi.com',
+        status: 'processed',
+        results: { key: 'fresh' }
+      }));
+    });
+    
+    it('should not cache results that are not ready', async () => {
+      const resultsCache = createMemoryResultsCache();
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({ status: 'processing' })
+      });
+      
+      await getResultsCore(
+        'test-uuid-123',
+        {},
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: ['test-uuid-123'],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory, jobStore: { updateJob: jest.fn() } as any, resultsCache }
+      );
+      
+      expect(resultsCache.write).not.toHaveBeenCalled();
+    });
+    
+    it('should not cache partial results of a job that is still processing', async () => {
+      const resultsCache = createMemoryResultsCache();
+      const mockClientFactory = jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({ status: 'processing', results: { key: 'partial' } })
+      });
+      
+      await getResultsCore(
+        'test-uuid-123',
+        {},
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: ['test-uuid-123'],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory, jobStore: { updateJob: jest.fn() } as any, resultsCache }
+      );
+      
+      expect(resultsCache.write).not.toHaveBeenCalled();
+    });
+    
+    it('should ignore results cached from another endpoint', async () => {
+      const mockGetResults = jest.fn().mockResolvedValue({ status: 'processed', results: { key: 'value' } });
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        {},
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://staging.visionfi.com',
+          recent_uuids: ['test-uuid-123'],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        {
+          clientFactory: jest.fn().mockReturnValue({ verifyAuth: jest.fn().mockResolvedValue({ data: true }), getResults: mockGetResults }),
+          jobStore: { updateJob: jest.fn() } as any,
+          resultsCache: createMemoryResultsCache([CACHED_ENTRY])
+        }
+      );
+      
+      expect(result.results).toEqual({ key: 'value' });
+      expect(mockGetResults).toHaveBeenCalled();
+    });
+    
+    it('should fail with cached when the results are not cached', async () => {
+      const mockClientFactory = jest.fn();
+      
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { cached: true },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: [],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { clientFactory: mockClientFactory, resultsCache: createMemoryResultsCache() }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toBe('No cached results for job test-uuid-123. Run "visionfi results test-uuid-123" while online to fetch them.');
+      expect(mockClientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should reject cached together with refresh', async () => {
+      const result = await getResultsCore(
+        'test-uuid-123',
+        { cached: true, refresh: true },
+        {
+          service_account_path: '/path/to/service-account.json',
+          api_endpoint: 'https://api.visionfi.com',
+          recent_uuids: [],
+          debug_mode: false,
+          test_mode: false,
+          workflow_cache_ttl: 3600
+        },
+        { resultsCache: createMemoryResultsCache() }
+      );
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Use either --cached or --refresh, not both.');
+    });
+    
     it('should return failure result for API errors', async () => {
       // Create mock dependencies
       const mockVerifyAuth = jest.fn().mockResolvedValue({ data: true });
@@ -356,10 +829,6 @@ describe('Results Command', () => {
         getResults: mockGetResults
       };
       const mockClientFactory = jest.fn().mockReturnValue(mockClient);
-      const mockConfigManager = {
-        loadConfig: jest.fn(),
-        saveConfig: jest.fn()
-      };
       
       // Mock config
       const testConfig: CLIConfig = {
@@ -380,8 +849,7 @@ describe('Results Command', () => {
         options,
         testConfig,
         { 
-          clientFactory: mockClientFactory,
-          configManager: mockConfigManager
+          clientFactory: mockClientFactory
         }
       );
       
@@ -395,6 +863,293 @@ describe('Results Command', () => {
         error: apiError
       });
     });
+
+    it('should reuse a saved authentication session instead of verifying again', async () => {
+      const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-results-session-'));
+      try {
+        const serviceAccountPath = path.join(workDir, 'service-account.json');
+        fs.writeFileSync(serviceAccountPath, '{}');
+        const stats = fs.statSync(serviceAccountPath);
+        const sessionStore = {
+          read: jest.fn().mockReturnValue({
+            service_account_path: serviceAccountPath,
+            service_account_fingerprint: `${stats.size}:${stats.mtimeMs}`,
+            api_endpoint: 'https://api.visionfi.com',
+            verified_at: Date.now(),
+            expires_at: Date.now() + 60 * 1000
+          }),
+          write: jest.fn(),
+          clear: jest.fn()
+        };
+        const mockClient = {
+          verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+          getResults: jest.fn().mockResolvedValue({ status: 'processed', results: { key: 'value' } })
+        };
+        
+        const result = await getResultsCore(
+          'test-uuid-123',
+          {},
+          {
+            service_account_path: serviceAccountPath,
+            api_endpoint: 'https://api.visionfi.com',
+            recent_uuids: [],
+            debug_mode: false,
+            test_mode: false,
+            workflow_cache_ttl: 3600,
+            session_ttl: 900
+          },
+          {
+            clientFactory: jest.fn().mockReturnValue(mockClient),
+            resultsCache: createMemoryResultsCache(),
+            sessionStore
+          }
+        );
+        
+        expect(result.success).toBe(true);
+        expect(mockClient.verifyAuth).not.toHaveBeenCalled();
+        expect(mockClient.getResults).toHaveBeenCalledWith('test-uuid-123', 0, 1);
+      } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+      }
+    });
+  });
+  
+  describe('getBulkResultsCore', () => {
+    const bulkConfig = (): CLIConfig => ({
+      service_account_path: '/path/to/service-account.json',
+      api_endpoint: 'https://api.visionfi.com',
+      recent_uuids: ['uuid-old'],
+      debug_mode: false,
+      test_mode: false,
+      workflow_cache_ttl: 3600
+    });
+    
+    // Ledger with the most recent submissions first, as listJobs returns them
+    const createLedger = () => ({
+      updateJob: jest.fn(),
+      listJobs: jest.fn().mockReturnValue(['uuid-2', 'uuid-other', 'uuid-3'].map(uuid => ({
+        uuid,
+        file_name: `${uuid}.pdf`,
+        file_hash: 'hash',
+        workflow_key: 'invoice',
+        api_endpoint: uuid === 'uuid-other' ? 'https://staging.example.com' : 'https://api.visionfi.com',
+        submitted_at: '2024-01-01T00:00:00.000Z',
+        status: 'processing'
+      })))
+    }) as any;
+    
+    const createBulkClient = () => ({
+      verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+      getResults: jest.fn(async (uuid: string) => {
+        if (uuid === 'uuid-1') {
+          return { status: 'processed', results: { total: 10 } };
+        }
+        if (uuid === 'uuid-2') {
+          return { status: 'processing' };
+        }
+        throw new Error('not found');
+      })
+    });
+    
+    it('should authenticate once and report each job', async () => {
+      const client = createBulkClient();
+      const mockClientFactory = jest.fn().mockReturnValue(client);
+      
+      // --all-recent adds the ledger's jobs for the active endpoint
+      const result = await getBulkResultsCore(
+        ['uuid-1'],
+        { allRecent: true },
+        bulkConfig(),
+        { clientFactory: mockClientFactory, jobStore: createLedger() }
+      );
+      
+      expect(mockClientFactory).toHaveBeenCalledTimes(1);
+      expect(client.verifyAuth).toHaveBeenCalledTimes(1);
+      expect(client.getResults).toHaveBeenCalledTimes(3);
+      expect(result.items.map(item => [item.uuid, item.success, item.status])).toEqual([
+        ['uuid-1', true, 'processed'],
+        ['uuid-2', true, 'processing'],
+        ['uuid-3', false, undefined]
+      ]);
+      expect(result.items[0].results).toEqual({ total: 10 });
+      expect(result.items[2].message).toBe('Failed to retrieve results: not found');
+      expect(result.retrieved).toBe(1);
+      expect(result.pending).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toBe('1 of 3 jobs returned results.');
+    });
+    
+    it('should read UUIDs from a file and write a combined report', async () => {
+      const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-bulk-'));
+      const listFile = path.join(workDir, 'jobs.txt');
+      const reportFile = path.join(workDir, 'report.csv');
+      fs.writeFileSync(listFile, '# invoices\nuuid-1\n\nuuid-2\nuuid-1\n');
+      
+      try {
+        const result = await getBulkResultsCore(
+          [],
+          { fromFile: listFile, format: 'csv', out: reportFile },
+          bulkConfig(),
+          { clientFactory: () => createBulkClient(), jobStore: { updateJob: jest.fn() } as any }
+        );
+        
+        expect(result.success).toBe(true);
+        expect(result.items.map(item => item.uuid)).toEqual(['uuid-1', 'uuid-2']);
+        expect(result.outputPath).toBe(reportFile);
+        expect(fs.readFileSync(reportFile, 'utf8')).toBe(
+          '\ufeffuuid,status,error,results.total\r\n' +
+          'uuid-1,processed,,10\r\n' +
+          'uuid-2,processing,,\r\n'
+        );
+      } finally {
+        fs.rmSync(workDir, { recursive: true, force: true });
+      }
+    });
+    
+    it('should fail when no UUIDs are given', async () => {
+      const mockClientFactory = jest.fn();
+      
+      const result = await getBulkResultsCore([], {}, bulkConfig(), { clientFactory: mockClientFactory });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('No job UUIDs specified. Pass UUIDs, --from-file or --all-recent.');
+      expect(mockClientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should fail without fetching when authentication fails', async () => {
+      const client = createBulkClient();
+      client.verifyAuth.mockResolvedValue({ data: false });
+      
+      const result = await getBulkResultsCore(['uuid-1', 'uuid-2'], {}, bulkConfig(), { clientFactory: () => client });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Authentication failed.');
+      expect(client.getResults).not.toHaveBeenCalled();
+    });
+    
+    it('should only fetch jobs whose results are not cached', async () => {
+      const client = createBulkClient();
+      const resultsCache = createMemoryResultsCache([{ ...CACHED_ENTRY, uuid: 'uuid-3' }]);
+      
+      const result = await getBulkResultsCore(
+        ['uuid-1', 'uuid-3'],
+        {},
+        bulkConfig(),
+        { clientFactory: () => client, jobStore: { updateJob: jest.fn() } as any, resultsCache }
+      );
+      
+      expect(client.getResults).toHaveBeenCalledTimes(1);
+      expect(client.getResults).toHaveBeenCalledWith('uuid-1', 0, 1);
+      expect(result.items[1]).toEqual(expect.objectContaining({ uuid: 'uuid-3', fromCache: true, results: { key: 'cached' } }));
+      expect(resultsCache.write).toHaveBeenCalledWith(expect.objectContaining({ uuid: 'uuid-1', results: { total: 10 } }));
+      expect(result.message).toBe('2 of 2 jobs returned results (1 from the local cache).');
+    });
+    
+    it('should not authenticate with cached and report jobs missing from the cache', async () => {
+      const mockClientFactory = jest.fn();
+      
+      const result = await getBulkResultsCore(
+        ['uuid-1', 'uuid-3'],
+        { cached: true },
+        bulkConfig(),
+        { clientFactory: mockClientFactory, resultsCache: createMemoryResultsCache([{ ...CACHED_ENTRY, uuid: 'uuid-3' }]) }
+      );
+      
+      expect(mockClientFactory).not.toHaveBeenCalled();
+      expect(result.items[0]).toEqual(expect.objectContaining({ uuid: 'uuid-1', success: false, message: 'No cached results for job uuid-1.' }));
+      expect(result.retrieved).toBe(1);
+      expect(result.failed).toBe(1);
+    });
+  });
+  
+  describe('diffResultsCore', () => {
+    const diffConfig = (): CLIConfig => ({
+      service_account_path: '/path/to/service-account.json',
+      api_endpoint: 'https://api.visionfi.com',
+      recent_uuids: [],
+      debug_mode: false,
+      test_mode: false,
+      workflow_cache_ttl: 3600
+    });
+    let workDir: string;
+    
+    beforeEach(() => {
+      workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-diff-'));
+    });
+    
+    afterEach(() => {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    });
+    
+    it('should compare a job with a local results file', async () => {
+      const localFile = path.join(workDir, 'before.json');
+      fs.writeFileSync(localFile, JSON.stringify({ total: 10, vendor: 'Acme' }));
+      const client = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({ status: 'processed', results: { total: 12, vendor: 'Acme', tax: 1 } })
+      };
+      
+      const result = await diffResultsCore(localFile, 'uuid-2', diffConfig(), {
+        clientFactory: () => client,
+        jobStore: { updateJob: jest.fn() } as any,
+        resultsCache: createMemoryResultsCache()
+      });
+      
+      expect(result.success).toBe(true);
+      expect(result.identical).toBe(false);
+      expect(result.changes).toEqual([
+        { path: 'total', kind: 'changed', before: 10, after: 12 },
+        { path: 'tax', kind: 'added', after: 1 }
+      ]);
+      expect(result.message).toBe('2 differences: 1 added, 0 removed, 1 changed.');
+      expect(client.getResults).toHaveBeenCalledWith('uuid-2', 0, 1);
+    });
+    
+    it('should not contact the API when both sides are local files', async () => {
+      const localFile = path.join(workDir, 'results.json');
+      fs.writeFileSync(localFile, JSON.stringify({ total: 10 }));
+      const clientFactory = jest.fn();
+      
+      const result = await diffResultsCore(localFile, localFile, diffConfig(), { clientFactory });
+      
+      expect(result.success).toBe(true);
+      expect(result.identical).toBe(true);
+      expect(result.message).toBe('Results are identical.');
+      expect(clientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should read cached jobs without contacting the API', async () => {
+      const clientFactory = jest.fn();
+      const resultsCache = createMemoryResultsCache([
+        CACHED_ENTRY,
+        { ...CACHED_ENTRY, uuid: 'test-uuid-456', results: { key: 'other' } }
+      ]);
+      
+      const result = await diffResultsCore('test-uuid-123', 'test-uuid-456', diffConfig(), { clientFactory, resultsCache });
+      
+      expect(result.success).toBe(true);
+      expect(result.changes).toEqual([{ path: 'key', kind: 'changed', before: 'cached', after: 'other' }]);
+      expect(clientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should fail when a job has no results yet', async () => {
+      const client = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn().mockResolvedValue({ status: 'processing' })
+      };
+      
+      const result = await diffResultsCore('uuid-1', 'uuid-2', diffConfig(), {
+        clientFactory: () => client,
+        jobStore: { updateJob: jest.fn() } as any,
+        resultsCache: createMemoryResultsCache()
+      });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('No results for job uuid-1: No results available yet. The job may still be processing.');
+      expect(client.verifyAuth).toHaveBeenCalledTimes(1);
+    });
   });
   
   describe('getResults CLI wrapper', () => {
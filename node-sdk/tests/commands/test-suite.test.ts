@@ -0,0 +1,144 @@
+/**
+ * Tests for regression suite command core functionality
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runTestSuiteCore } from '../../src/commands/test-suite';
+import { CLIConfig } from '../../src/types/config';
+import { hashFileData } from '../../src/utils/jobs';
+
+const PDF = '%PDF-1.4\ntest file content\n%%EOF\n';
+
+const testConfig: CLIConfig = {
+  service_account_path: '/path/to/service-account.json',
+  api_endpoint: 'https://api.visionfi.com',
+  recent_uuids: [],
+  debug_mode: false,
+  test_mode: false,
+  workflow_cache_ttl: 3600
+};
+
+describe('Test Suite Command', () => {
+  let suiteDir: string;
+
+  const writeSuite = (suite: any) => {
+    const suitePath = path.join(suiteDir, 'suite.json');
+    fs.writeFileSync(suitePath, JSON.stringify(suite));
+    return suitePath;
+  };
+
+  const createDependencies = (results: { [uuid: string]: any }) => {
+    let submissions = 0;
+    return {
+      clientFactory: jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        analyzeDocument: jest.fn(async () => ({ uuid: `uuid-${++submissions}` }))
+      }),
+      resultsClientFactory: jest.fn().mockReturnValue({
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn(async (uuid: string) => results[uuid])
+      }),
+      jobStore: {
+        recordJob: jest.fn(),
+        updateJob: jest.fn(),
+        getJob: jest.fn(),
+        listJobs: jest.fn().mockReturnValue([]),
+        removeJob: jest.fn()
+      },
+      configManager: { loadConfig: jest.fn(), saveConfig: jest.fn() },
+      sleep: jest.fn().mockResolvedValue(undefined)
+    };
+  };
+
+  beforeEach(() => {
+    suiteDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-suite-'));
+    fs.writeFileSync(path.join(suiteDir, 'one.pdf'), PDF);
+    fs.writeFileSync(path.join(suiteDir, 'two.pdf'), PDF);
+  });
+
+  afterEach(() => {
+    fs.rmSync(suiteDir, { recursive: true, force: true });
+  });
+
+  describe('runTestSuiteCore', () => {
+    it('should check each case and write a JUnit report', async () => {
+      const suitePath = writeSuite({
+        name: 'Invoices',
+        workflow: 'invoice',
+        cases: [
+          { name: 'first', file: 'one.pdf', expect: { total: 10 } },
+          { name: 'second', file: 'two.pdf', expect: { total: 20 } }
+        ]
+      });
+      const junit = path.join(suiteDir, 'reports', 'junit.xml');
+
+      const result = await runTestSuiteCore(suitePath, { junit, concurrency: 1 }, testConfig, createDependencies({
+        'uuid-1': { status: 'processed', results: { total: 10 } },
+        'uuid-2': { status: 'processed', results: { total: 25 } }
+      }));
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toBe('1 of 2 cases passed (1 failed, 0 errors).');
+      expect(result.cases.map(testCase => [testCase.name, testCase.outcome, testCase.uuid])).toEqual([
+        ['first', 'passed', 'uuid-1'],
+        ['second', 'failed', 'uuid-2']
+      ]);
+      expect(result.cases[1].failures).toEqual(['total: expected 20, got 25']);
+      expect(result.junitPath).toBe(junit);
+      expect(fs.readFileSync(junit, 'utf8')).toContain('<testsuite name="Invoices" tests="2" failures="1" errors="0"');
+    });
+
+    it('should submit documents again even when the ledger holds an earlier job', async () => {
+      const suitePath = writeSuite({
+        workflow: 'invoice',
+        cases: [{ file: 'one.pdf', expect: { total: 10 } }]
+      });
+      const dependencies = createDependencies({
+        'uuid-1': { status: 'processed', results: { total: 10 } }
+      });
+      dependencies.jobStore.listJobs.mockReturnValue([{
+        uuid: 'uuid-earlier',
+        file_name: 'one.pdf',
+        file_hash: hashFileData(Buffer.from(PDF)),
+        workflow_key: 'invoice',
+        api_endpoint: testConfig.api_endpoint,
+        submitted_at: '2024-01-01T00:00:00.000Z',
+        status: 'processed'
+      }]);
+
+      const result = await runTestSuiteCore(suitePath, {}, testConfig, dependencies);
+
+      expect(result.success).toBe(true);
+      expect(result.cases[0].uuid).toBe('uuid-1');
+      expect(dependencies.clientFactory().analyzeDocument).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a case whose document cannot be analyzed as an error', async () => {
+      const suitePath = writeSuite({
+        workflow: 'invoice',
+        cases: [{ file: 'missing.pdf', expect: { total: 10 } }]
+      });
+
+      const result = await runTestSuiteCore(suitePath, {}, testConfig, createDependencies({}));
+
+      expect(result.errors).toBe(1);
+      expect(result.cases[0].name).toBe('missing.pdf');
+      expect(result.cases[0].outcome).toBe('error');
+      expect(result.cases[0].failures[0]).toContain('File not found');
+    });
+
+    it('should fail for an invalid suite without submitting anything', async () => {
+      const dependencies = createDependencies({});
+      const suitePath = writeSuite({ cases: [{ file: 'one.pdf', expect: { total: 10 } }] });
+
+      const result = await runTestSuiteCore(suitePath, {}, testConfig, dependencies);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('no "workflow" given');
+      expect(dependencies.clientFactory).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for watch command core functionality
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { watchJobsCore } from '../../src/commands/watch';
+import { JobRecord } from '../../src/types/jobs';
+import { createConfig, createMockJobStore } from '../helpers/fixtures';
+
+const NOW = Date.parse('2024-03-01T00:00:00.000Z');
+
+const makeJob = (uuid: string, status: string): JobRecord => ({
+  uuid,
+  file_name: `${uuid}.pdf`,
+  file_hash: 'hash',
+  workflow_key: 'invoice',
+  api_endpoint: 'https://api.visionfi.com',
+  submitted_at: new Date(NOW - 60 * 1000).toISOString(),
+  status
+});
+
+/**
+ * Client whose jobs move through the given responses, one per check
+ */
+function createSequenceClient(sequences: { [uuid: string]: any[] }) {
+  const calls: { [uuid: string]: number } = {};
+  return {
+    verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+    getResults: jest.fn(async (uuid: string) => {
+      const responses = sequences[uuid];
+      const index = Math.min(calls[uuid] || 0, responses.length - 1);
+      calls[uuid] = (calls[uuid] || 0) + 1;
+      const response = responses[index];
+      if (response instanceof Error) {
+        throw response;
+      }
+      return response;
+    })
+  };
+}
+
+describe('Watch Command', () => {
+  let clock: number;
+  const now = () => clock;
+  const sleep = jest.fn(async (ms: number) => { clock += ms; });
+  
+  beforeEach(() => {
+    clock = NOW;
+    sleep.mockClear();
+  });
+  
+  describe('watchJobsCore', () => {
+    it('should watch unfinished jobs from the history until they finish', async () => {
+      const jobStore = createMockJobStore([
+        makeJob('job-1', 'submitted'),
+        makeJob('job-2', 'processing'),
+        makeJob('job-3', 'completed'),
+        { ...makeJob('job-4', 'submitted'), api_endpoint: 'https://staging.example.com' }
+      ]);
+      const client = createSequenceClient({
+        'job-1': [{ status: 'processing' }, { status: 'processed', results: { total: 1 } }],
+        'job-2': [{ status: 'failed', error: { message: 'Unreadable document' } }]
+      });
+      const onUpdate = jest.fn();
+      
+      const result = await watchJobsCore([], { interval: 2 }, createConfig(), {
+        clientFactory: () => client,
+        jobStore,
+        sleep,
+        now,
+        onUpdate
+      });
+      
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toBe('All 2 jobs finished: 1 complete, 1 failed.');
+      expect(result.jobs.map(job => [job.uuid, job.state])).toEqual([['job-1', 'complete'], ['job-2', 'error']]);
+      expect(result.jobs[1].message).toBe('Unreadable document');
+      expect(result.jobs[0].finishedAt! - result.jobs[0].startedAt).toBe(62 * 1000);
+      expect(client.verifyAuth).toHaveBeenCalledTimes(1);
+      expect(client.getResults).toHaveBeenCalledTimes(3);
+      expect(sleep).toHaveBeenCalledTimes(1);
+      expect(sleep).toHaveBeenCalledWith(2000);
+      expect(onUpdate).toHaveBeenCalledTimes(3);
+      expect(jobStore.getJob('job-1')!.status).toBe('processed');
+    });
+    
+    it('should write results and run the hook as each job finishes', async () => {
+      const outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-watch-'));
+      const jobStore = createMockJobStore([makeJob('job-1', 'submitted')]);
+      const runHook = jest.fn().mockResolvedValue(0);
+      
+      try {
+        const result = await watchJobsCore(['job-1'], { outDir, onComplete: 'notify "$VISIONFI_JOB_UUID"' }, createConfig(), {
+          clientFactory: () => createSequenceClient({ 'job-1': [{ status: 'processed', results: { total: 1 } }] }),
+          jobStore,
+          sleep,
+          now,
+          runHook
+        });
+        
+        const outputPath = path.join(outDir, 'job-1.json');
+        expect(result.success).toBe(true);
+        expect(result.jobs[0].outputPath).toBe(outputPath);
+        expect(JSON.parse(fs.readFileSync(outputPath, 'utf8'))).toEqual({ total: 1 });
+        expect(jobStore.getJob('job-1')!.result_location).toBe(outputPath);
+        expect(runHook).toHaveBeenCalledWith('notify "$VISIONFI_JOB_UUID"', {
+          VISIONFI_JOB_UUID: 'job-1',
+          VISIONFI_JOB_STATE: 'complete',
+          VISIONFI_JOB_STATUS: 'processed',
+          VISIONFI_RESULT_PATH: outputPath,
+          VISIONFI_FILE_NAME: 'job-1.pdf'
+        });
+      } finally {
+        fs.rmSync(outDir, { recursive: true, force: true });
+      }
+    });
+    
+    it('should keep watching through failed checks and report hook failures', async () => {
+      const client = createSequenceClient({
+        'job-1': [new Error('socket hang up'), { status: 'processed', results: {} }]
+      });
+      const onJobFinished = jest.fn();
+      
+      const result = await watchJobsCore(['job-1'], { onComplete: 'false' }, createConfig(), {
+        clientFactory: () => client,
+        jobStore: createMockJobStore([]),
+        sleep,
+        now,
+        runHook: jest.fn().mockResolvedValue(1),
+        onJobFinished
+      });
+      
+      expect(result.success).toBe(true);
+      expect(result.jobs[0].state).toBe('complete');
+      expect(result.jobs[0].message).toBe('Hook exited with code 1');
+      expect(onJobFinished).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should mark a job as failed when its check is rejected', async () => {
+      const notFound = Object.assign(new Error('Request failed with status code 404'), { response: { status: 404 } });
+      const client = createSequenceClient({ 'job-1': [notFound] });
+      
+      const result = await watchJobsCore(['job-1'], {}, createConfig(), {
+        clientFactory: () => client,
+        jobStore: createMockJobStore([]),
+        sleep,
+        now
+      });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('All 1 job finished: 0 complete, 1 failed.');
+      expect(result.jobs[0].state).toBe('error');
+      expect(result.jobs[0].message).toBe('Check failed: Request failed with status code 404');
+      expect(client.getResults).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should give up on a job after repeated failed checks', async () => {
+      const client = createSequenceClient({ 'job-1': [new Error('socket hang up')] });
+      
+      const result = await watchJobsCore(['job-1'], {}, createConfig({ retries: 0 }), {
+        clientFactory: () => client,
+        jobStore: createMockJobStore([]),
+        sleep,
+        now
+      });
+      
+      expect(result.failed).toBe(1);
+      expect(result.jobs[0].state).toBe('error');
+      expect(client.getResults).toHaveBeenCalledTimes(5);
+    });
+    
+    it('should stop at the timeout', async () => {
+      const result = await watchJobsCore(['job-1'], { interval: 5, timeout: 12 }, createConfig(), {
+        clientFactory: () => createSequenceClient({ 'job-1': [{ status: 'processing' }] }),
+        jobStore: createMockJobStore([]),
+        sleep,
+        now
+      });
+      
+      expect(result.success).toBe(true);
+      expect(result.timedOut).toBe(true);
+      expect(result.pending).toBe(1);
+      expect(result.message).toBe('Stopped watching after 12s: 0 of 1 job finished.');
+      expect(sleep).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should report when there is nothing to watch', async () => {
+      const clientFactory = jest.fn();
+      
+      const result = await watchJobsCore([], {}, createConfig(), {
+        clientFactory,
+        jobStore: createMockJobStore([makeJob('job-1', 'completed')])
+      });
+      
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('No pending jobs to watch.');
+      expect(clientFactory).not.toHaveBeenCalled();
+    });
+    
+    it('should reject an invalid interval', async () => {
+      const result = await watchJobsCore(['job-1'], { interval: 'often' }, createConfig(), {
+        jobStore: createMockJobStore([])
+      });
+      
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Invalid --interval value. Must be a positive number of seconds.');
+    });
+  });
+});
@@ -0,0 +1,328 @@
+/**
+ * Tests for workflows command core functionality
+ */
+
+import { listWorkflowsCore, showWorkflowCore, checkWorkflowKeyCore } from '../../src/commands/workflows';
+import { WorkflowCache, WorkflowCacheEntry } from '../../src/types/workflows';
+import { createConfig } from '../helpers/fixtures';
+
+const WORKFLOWS = [
+  { workflow_key: 'auto_loan_abstract', description: 'Auto loan abstract', version: 2 },
+  { workflow_key: 'bank_statement', description: 'Bank statement extraction' }
+];
+
+const createMemoryCache = (entry: WorkflowCacheEntry | null = null): jest.Mocked<WorkflowCache> => {
+  let stored = entry;
+  return {
+    read: jest.fn(() => stored),
+    write: jest.fn((value: WorkflowCacheEntry) => { stored = value; }),
+    clear: jest.fn(() => { stored = null; })
+  };
+};
+
+const createMockClient = () => ({
+  verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+  getWorkflows: jest.fn().mockResolvedValue({ success: true, data: WORKFLOWS })
+});
+
+describe('Workflows Commands', () => {
+  const NOW = 1_700_000_000_000;
+  const now = () => NOW;
+
+  describe('listWorkflowsCore', () => {
+    it('should fetch workflows from the API and cache them', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache();
+
+      const result = await listWorkflowsCore({}, createConfig(), {
+        clientFactory: () => client,
+        workflowCache,
+        now
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.message).toBe('Found 2 workflows.');
+      expect(result.workflows).toEqual(WORKFLOWS);
+      expect(result.fromCache).toBe(false);
+      expect(client.verifyAuth).toHaveBeenCalled();
+      expect(workflowCache.write).toHaveBeenCalledWith({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW,
+        workflows: WORKFLOWS
+      });
+    });
+
+    it('should use a fresh cache without calling the API', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW - 60 * 1000,
+        workflows: WORKFLOWS
+      });
+
+      const result = await listWorkflowsCore({}, createConfig(), {
+        clientFactory: () => client,
+        workflowCache,
+        now
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.fromCache).toBe(true);
+      expect(result.message).toBe('Found 2 workflows (cached).');
+      expect(client.getWorkflows).not.toHaveBeenCalled();
+    });
+
+    it('should return an expired list and refresh it in the background', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW - 3601 * 1000,
+        workflows: [WORKFLOWS[0]]
+      });
+      let revalidation: Promise<any> | undefined;
+
+      const result = await listWorkflowsCore({}, createConfig(), {
+        clientFactory: () => client,
+        workflowCache,
+        now,
+        onRevalidate: (pending) => { revalidation = pending; }
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.fromCache).toBe(true);
+      expect(result.stale).toBe(true);
+      expect(result.workflows).toEqual([WORKFLOWS[0]]);
+
+      const refreshed = await revalidation;
+      expect(refreshed.workflows).toEqual(WORKFLOWS);
+      expect(workflowCache.write).toHaveBeenCalledWith(expect.objectContaining({ cached_at: NOW, workflows: WORKFLOWS }));
+    });
+
+    it('should fetch synchronously when the cache is too old to show', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW - 3 * 24 * 60 * 60 * 1000,
+        workflows: []
+      });
+
+      const result = await listWorkflowsCore({}, createConfig(), {
+        clientFactory: () => client,
+        workflowCache,
+        now
+      });
+
+      expect(result.fromCache).toBe(false);
+      expect(result.workflows).toEqual(WORKFLOWS);
+    });
+
+    it('should not use the cache when workflow_cache_ttl is 0', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW,
+        workflows: []
+      });
+
+      const result = await listWorkflowsCore({}, createConfig({ workflow_cache_ttl: 0 }), {
+        clientFactory: () => client,
+        workflowCache,
+        now
+      });
+
+      expect(result.fromCache).toBe(false);
+      expect(client.getWorkflows).toHaveBeenCalled();
+    });
+
+    it('should bypass the cache with refresh', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW,
+        workflows: []
+      });
+
+      const result = await listWorkflowsCore({ refresh: true }, createConfig(), {
+        clientFactory: () => client,
+        workflowCache,
+        now
+      });
+
+      expect(result.fromCache).toBe(false);
+      expect(result.workflows).toEqual(WORKFLOWS);
+    });
+
+    it('should fail when no service account is configured', async () => {
+      const result = await listWorkflowsCore({}, createConfig({ service_account_path: '' }), {
+        clientFactory: () => createMockClient(),
+        workflowCache: createMemoryCache(),
+        now
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toContain('No service account configured');
+    });
+
+    it('should fail when authentication fails', async () => {
+      const client = createMockClient();
+      client.verifyAuth.mockResolvedValue({ data: false });
+
+      const result = await listWorkflowsCore({}, createConfig(), {
+        clientFactory: () => client,
+        workflowCache: createMemoryCache(),
+        now
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Authentication failed.');
+      expect(client.getWorkflows).not.toHaveBeenCalled();
+    });
+
+    it('should retry a failed request with the injected sleep', async () => {
+      const client = createMockClient();
+      client.getWorkflows.mockRejectedValueOnce(Object.assign(new Error('Service unavailable'), { status: 503 }));
+      const sleep = jest.fn().mockResolvedValue(undefined);
+
+      const result = await listWorkflowsCore({}, createConfig(), {
+        clientFactory: () => client,
+        workflowCache: createMemoryCache(),
+        now,
+        sleep
+      });
+
+      expect(result.success).toBe(true);
+      expect(client.getWorkflows).toHaveBeenCalledTimes(2);
+      expect(sleep).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail when the API does not return workflows', async () => {
+      const client = createMockClient();
+      client.getWorkflows.mockResolvedValue({ success: false });
+      const workflowCache = createMemoryCache();
+
+      const result = await listWorkflowsCore({}, createConfig(), {
+        clientFactory: () => client,
+        workflowCache,
+        now
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Failed to fetch workflows');
+      expect(workflowCache.write).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('showWorkflowCore', () => {
+    it('should return the matching workflow', async () => {
+      const result = await showWorkflowCore('auto_loan_abstract', {}, createConfig(), {
+        clientFactory: () => createMockClient(),
+        workflowCache: createMemoryCache(),
+        now
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.workflow).toEqual(WORKFLOWS[0]);
+    });
+
+    it('should fail for an unknown workflow key', async () => {
+      const result = await showWorkflowCore('unknown', {}, createConfig(), {
+        clientFactory: () => createMockClient(),
+        workflowCache: createMemoryCache(),
+        now
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.message).toContain('visionfi workflows list');
+    });
+
+    it('should look up a workflow missing from the cached list in a fresh one', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW,
+        workflows: [WORKFLOWS[0]]
+      });
+
+      const result = await showWorkflowCore('bank_statement', {}, createConfig(), {
+        clientFactory: () => client,
+        workflowCache,
+        now
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.workflow).toEqual(WORKFLOWS[1]);
+      expect(client.getWorkflows).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('checkWorkflowKeyCore', () => {
+    it('should accept a key from a fresh cached list without calling the API', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW,
+        workflows: WORKFLOWS
+      });
+
+      const result = await checkWorkflowKeyCore('bank_statement', createConfig(), () => client, { workflowCache, now });
+
+      expect(result.success).toBe(true);
+      expect(client.getWorkflows).not.toHaveBeenCalled();
+    });
+
+    it('should refetch the list before rejecting a key missing from the cache', async () => {
+      const client = createMockClient();
+      const workflowCache = createMemoryCache({
+        api_endpoint: 'https://api.visionfi.com',
+        cached_at: NOW,
+        workflows: [WORKFLOWS[0]]
+      });
+
+      const result = await checkWorkflowKeyCore('bank_statement', createConfig(), () => client, { workflowCache, now });
+
+      expect(result.success).toBe(true);
+      expect(client.getWorkflows).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an unknown key with a suggestion', async () => {
+      const result = await checkWorkflowKeyCore('bank_statment', createConfig(), () => createMockClient(), {
+        workflowCache: createMemoryCache(),
+        now
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.exitCode).toBe(1);
+      expect(result.suggestion).toBe('bank_statement');
+      expect(result.message).toBe(
+        'Unknown workflow "bank_statment". Did you mean "bank_statement"? ' +
+        'Run "visionfi workflows list" to see available workflows, or pass --skip-workflow-check to submit anyway.'
+      );
+    });
+
+    it('should not suggest anything for an unrelated key', async () => {
+      const result = await checkWorkflowKeyCore('payroll', createConfig(), () => createMockClient(), {
+        workflowCache: createMemoryCache(),
+        now
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.suggestion).toBeUndefined();
+      expect(result.message).not.toContain('Did you mean');
+    });
+
+    it('should skip the check when the workflow list cannot be fetched', async () => {
+      const client = createMockClient();
+      client.getWorkflows.mockRejectedValue(new Error('network down'));
+
+      const result = await checkWorkflowKeyCore('anything', createConfig(), () => client, {
+        workflowCache: createMemoryCache(),
+        now
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.skipped).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Shared fixtures for command tests
+ */
+
+import { CLIConfig } from '../../src/types/config';
+import { JobRecord, JobStore } from '../../src/types/jobs';
+
+/**
+ * Configuration with a service account and the default test endpoint
+ */
+export const createConfig = (overrides: Partial<CLIConfig> = {}): CLIConfig => ({
+  service_account_path: '/path/to/service-account.json',
+  api_endpoint: 'https://api.visionfi.com',
+  recent_uuids: [],
+  debug_mode: false,
+  test_mode: false,
+  workflow_cache_ttl: 3600,
+  ...overrides
+});
+
+/**
+ * In-memory job store for testing
+ * Lists the most recent submissions first, like the file-backed store.
+ */
+export function createMockJobStore(jobs: JobRecord[] = []): JobStore {
+  const records = new Map(jobs.map(job => [job.uuid, { ...job }]));
+  
+  return {
+    recordJob: jest.fn((record: JobRecord) => { records.set(record.uuid, record); }),
+    updateJob: jest.fn((uuid: string, changes: Partial<JobRecord>) => {
+      const existing = records.get(uuid);
+      if (!existing) return null;
+      const updated = { ...existing, ...changes };
+      records.set(uuid, updated);
+      return updated;
+    }),
+    getJob: jest.fn((uuid: string) => records.get(uuid) || null),
+    listJobs: jest.fn(() => Array.from(records.values())
+      .sort((a, b) => b.submitted_at.localeCompare(a.submitted_at))),
+    removeJob: jest.fn((uuid: string) => records.delete(uuid))
+  };
+}
@@ -0,0 +1,121 @@
+import {
+  parseResultsFormat,
+  toDelimited,
+  toKeyValueTable,
+  toYaml,
+  formatResults,
+  formatResultsReport,
+  formatSelection
+} from '../../src/ui/export';
+
+describe('Results Export', () => {
+  describe('parseResultsFormat', () => {
+    it('should accept supported formats case-insensitively', () => {
+      expect(parseResultsFormat('CSV')).toBe('csv');
+      expect(parseResultsFormat(undefined)).toBe('json');
+    });
+    
+    it('should reject unknown formats', () => {
+      expect(() => parseResultsFormat('xlsx')).toThrow('Invalid format "xlsx". Use one of: json, yaml, csv, tsv, table');
+    });
+  });
+  
+  describe('toDelimited', () => {
+    it('should write a header row and one row per record', () => {
+      const output = toDelimited([
+        { name: 'Ada', totals: { amount: 10 } },
+        { name: 'Grace', note: 'late' }
+      ], ',');
+      
+      expect(output).toBe(
+        'name,totals.amount,note\r\n' +
+        'Ada,10,\r\n' +
+        'Grace,,late\r\n'
+      );
+    });
+    
+    it('should quote cells containing delimiters, quotes or line breaks', () => {
+      expect(toDelimited({ a: 'x,y', b: 'say "hi"', c: 'one\ntwo' }, ',')).toBe(
+        'a,b,c\r\n"x,y","say ""hi""","one\ntwo"\r\n'
+      );
+      expect(toDelimited({ a: 'x,y', b: 'tab\there' }, '\t')).toBe('a\tb\r\nx,y\t"tab\there"\r\n');
+    });
+  });
+  
+  describe('toKeyValueTable', () => {
+    it('should list each dotted path with its value', () => {
+      const table = toKeyValueTable({ borrower: { name: 'Ada' }, items: [1] });
+      
+      expect(table).toContain('Field');
+      expect(table).toMatch(/borrower\.name\s+Ada/);
+      expect(table).toMatch(/items\.0\s+1/);
+    });
+  });
+  
+  describe('toYaml', () => {
+    it('should render nested objects and lists', () => {
+      expect(toYaml({
+        status: 'processed',
+        borrower: { name: 'Ada', age: 36 },
+        items: [{ sku: 'A1', qty: 2 }, 'loose'],
+        empty: [],
+        note: null
+      })).toBe(
+        'status: processed\n' +
+        'borrower:\n' +
+        '  name: Ada\n' +
+        '  age: 36\n' +
+        'items:\n' +
+        '  - sku: A1\n' +
+        '    qty: 2\n' +
+        '  - loose\n' +
+        'empty: []\n' +
+        'note: null\n'
+      );
+    });
+    
+    it('should quote strings YAML would read as other types', () => {
+      expect(toYaml({ a: 'true', b: '007', c: 'key: value', d: '' })).toBe(
+        'a: "true"\nb: "007"\nc: "key: value"\nd: ""\n'
+      );
+    });
+  });
+  
+  describe('formatResults', () => {
+    it('should pretty-print json', () => {
+      expect(formatResults({ a: 1 }, 'json')).toBe('{\n  "a": 1\n}\n');
+    });
+  });
+  
+  describe('formatSelection', () => {
+    it('should print a single selected value bare', () => {
+      expect(formatSelection({ 'borrower.name': 'Ada' }, 'json')).toBe('Ada\n');
+      expect(formatSelection({ total: 12.5 }, 'json')).toBe('12.5\n');
+    });
+    
+    it('should key several selected values by expression', () => {
+      expect(formatSelection({ total: 12.5, 'borrower.name': 'Ada' }, 'csv')).toBe('total,borrower.name\r\n12.5,Ada\r\n');
+    });
+  });
+  
+  describe('formatResultsReport', () => {
+    const items = [
+      { uuid: 'uuid-1', success: true, message: 'Results retrieved successfully!', status: 'processed', results: { total: 10 } },
+      { uuid: 'uuid-2', success: false, message: 'Failed to retrieve results: not found' }
+    ];
+    
+    it('should list each job with its results in json', () => {
+      expect(JSON.parse(formatResultsReport(items, 'json'))).toEqual([
+        { uuid: 'uuid-1', success: true, status: 'processed', message: 'Results retrieved successfully!', results: { total: 10 } },
+        { uuid: 'uuid-2', success: false, message: 'Failed to retrieve results: not found' }
+      ]);
+    });
+    
+    it('should summarize job statuses in a table', () => {
+      const table = formatResultsReport(items, 'table');
+      
+      expect(table).toMatch(/uuid-1\s+processed\s+Results retrieved successfully!/);
+      expect(table).toMatch(/uuid-2\s+failed\s+Failed to retrieve results: not found/);
+    });
+  });
+});
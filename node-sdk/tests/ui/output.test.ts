@@ -0,0 +1,82 @@
+import {
+  parseOutputFormat,
+  isStructuredOutput,
+  toSerializable,
+  writeStructuredOutput
+} from '../../src/ui/output';
+
+describe('Output Formatting', () => {
+  describe('parseOutputFormat', () => {
+    it('should accept supported formats case-insensitively', () => {
+      expect(parseOutputFormat('JSON')).toBe('json');
+      expect(parseOutputFormat('ndjson')).toBe('ndjson');
+      expect(parseOutputFormat(undefined)).toBe('text');
+    });
+    
+    it('should reject unknown formats', () => {
+      expect(() => parseOutputFormat('xml')).toThrow('Invalid output format "xml"');
+    });
+  });
+  
+  describe('isStructuredOutput', () => {
+    it('should only treat json formats as structured', () => {
+      expect(isStructuredOutput('text')).toBe(false);
+      expect(isStructuredOutput('json')).toBe(true);
+      expect(isStructuredOutput('ndjson')).toBe(true);
+    });
+  });
+  
+  describe('toSerializable', () => {
+    it('should keep error names and messages', () => {
+      const err: any = new Error('API error');
+      err.code = 'ECONNRESET';
+      
+      expect(toSerializable({ success: false, error: err })).toEqual({
+        success: false,
+        error: { name: 'Error', message: 'API error', code: 'ECONNRESET' }
+      });
+    });
+    
+    it('should drop circular references but keep shared ones', () => {
+      const shared = { id: 1 };
+      const value: any = { a: shared, b: shared };
+      value.self = value;
+      
+      expect(toSerializable(value)).toEqual({ a: { id: 1 }, b: { id: 1 }, self: undefined });
+    });
+  });
+  
+  describe('writeStructuredOutput', () => {
+    const result = {
+      success: true,
+      message: 'done',
+      exitCode: 0,
+      items: [{ uuid: 'a' }, { uuid: 'b' }]
+    };
+    
+    it('should write indented JSON', () => {
+      const write = jest.fn();
+      
+      writeStructuredOutput(result, 'json', result.items, write);
+      
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(write.mock.calls[0][0])).toEqual(result);
+    });
+    
+    it('should write one record per line with ndjson', () => {
+      const write = jest.fn();
+      
+      writeStructuredOutput(result, 'ndjson', result.items, write);
+      
+      expect(write.mock.calls.map(call => call[0])).toEqual(['{"uuid":"a"}\n', '{"uuid":"b"}\n']);
+    });
+    
+    it('should write the whole result on one line without records', () => {
+      const write = jest.fn();
+      
+      writeStructuredOutput(result, 'ndjson', undefined, write);
+      
+      expect(write).toHaveBeenCalledWith(JSON.stringify(result) + '\n');
+    });
+  });
+});
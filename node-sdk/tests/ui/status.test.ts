@@ -0,0 +1,78 @@
+import { createStatusLine, createStatusBlock, describePollProgress, formatDuration } from '../../src/ui/status';
+
+describe('Status Line', () => {
+  describe('formatDuration', () => {
+    it('should format seconds and minutes', () => {
+      expect(formatDuration(4200)).toBe('4s');
+      expect(formatDuration(125000)).toBe('2m 5s');
+    });
+  });
+  
+  describe('createStatusLine', () => {
+    it('should rewrite a single line on a terminal', () => {
+      const stream = { isTTY: true, write: jest.fn() };
+      const status = createStatusLine(stream);
+      
+      status.update('first');
+      status.update('second');
+      status.done();
+      
+      expect(stream.write.mock.calls.map(call => call[0])).toEqual([
+        '\r\u001b[2Kfirst',
+        '\r\u001b[2Ksecond',
+        '\r\u001b[2K'
+      ]);
+    });
+    
+    it('should write nothing when the stream is not a terminal', () => {
+      const stream = { isTTY: false, write: jest.fn() };
+      const status = createStatusLine(stream);
+      
+      status.update('ignored');
+      status.done();
+      
+      expect(stream.write).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('createStatusBlock', () => {
+    it('should redraw the whole block on a terminal', () => {
+      const stream = { isTTY: true, write: jest.fn() };
+      const status = createStatusBlock(stream);
+      
+      status.update('a\nb');
+      status.update('c');
+      status.done();
+      
+      expect(stream.write.mock.calls.map(call => call[0])).toEqual([
+        'a\nb\n',
+        '\u001b[2A\r\u001b[0J',
+        'c\n',
+        '\u001b[1A\r\u001b[0J'
+      ]);
+    });
+    
+    it('should write nothing when the stream is not a terminal', () => {
+      const stream = { isTTY: false, write: jest.fn() };
+      const status = createStatusBlock(stream);
+      
+      status.update('a');
+      status.done();
+      
+      expect(stream.write).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('describePollProgress', () => {
+    it('should include elapsed time, attempt count, status and next check', () => {
+      const text = describePollProgress('Waiting for results', {
+        attempt: 3,
+        elapsedMs: 12000,
+        nextDelayMs: 4000,
+        value: { status: 'processing' }
+      });
+      
+      expect(text).toBe('Waiting for results | elapsed 12s | attempt 3 | status processing | next check in 4s');
+    });
+  });
+});
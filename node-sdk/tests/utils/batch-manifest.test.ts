@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createBatchManifest, createBatchManifestStore, isBatchFileFinished } from '../../src/utils/batch-manifest';
+
+describe('Batch Manifest Utilities', () => {
+  let batchesDir: string;
+
+  beforeEach(() => {
+    batchesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-batches-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(batchesDir, { recursive: true, force: true });
+  });
+
+  describe('createBatchManifest', () => {
+    it('should list every file as pending with absolute paths', () => {
+      const manifest = createBatchManifest(
+        ['docs/a.pdf', '/docs/b.pdf'],
+        { workflow: 'invoice', wait: true, out: 'results', concurrency: '2', skipWorkflowCheck: true },
+        'https://api.visionfi.com',
+        Date.parse('2024-05-01T12:00:00.000Z')
+      );
+
+      expect(manifest).toEqual({
+        version: 1,
+        id: 'batch-2024-05-01T12-00-00-000Z',
+        created_at: '2024-05-01T12:00:00.000Z',
+        updated_at: '2024-05-01T12:00:00.000Z',
+        api_endpoint: 'https://api.visionfi.com',
+        options: { workflow: 'invoice', wait: true, out: path.resolve('results'), concurrency: '2' },
+        files: [
+          { path: path.resolve('docs/a.pdf'), state: 'pending' },
+          { path: '/docs/b.pdf', state: 'pending' }
+        ]
+      });
+    });
+  });
+
+  describe('isBatchFileFinished', () => {
+    it('should treat submitted files as finished unless the batch waits for results', () => {
+      expect(isBatchFileFinished({ path: '/a.pdf', state: 'submitted' })).toBe(true);
+      expect(isBatchFileFinished({ path: '/a.pdf', state: 'submitted' }, true)).toBe(false);
+      expect(isBatchFileFinished({ path: '/a.pdf', state: 'completed' }, true)).toBe(true);
+      expect(isBatchFileFinished({ path: '/a.pdf', state: 'failed' })).toBe(false);
+      expect(isBatchFileFinished({ path: '/a.pdf', state: 'pending' })).toBe(false);
+    });
+  });
+
+  describe('createBatchManifestStore', () => {
+    it('should write manifests and read them back', () => {
+      const store = createBatchManifestStore(batchesDir);
+      const manifest = createBatchManifest(['/docs/a.pdf'], { workflow: 'invoice' }, 'https://api.visionfi.com');
+      const manifestPath = store.defaultPath(manifest.id);
+
+      store.write(manifestPath, manifest);
+
+      expect(path.dirname(manifestPath)).toBe(batchesDir);
+      expect(fs.readdirSync(batchesDir)).toEqual([`${manifest.id}.json`]);
+      expect(store.read(manifestPath)).toEqual(manifest);
+    });
+
+    it('should report missing, corrupt and invalid manifests', () => {
+      const store = createBatchManifestStore(batchesDir);
+      const corruptPath = path.join(batchesDir, 'corrupt.json');
+      const invalidPath = path.join(batchesDir, 'invalid.json');
+      fs.writeFileSync(corruptPath, '{ not json');
+      fs.writeFileSync(invalidPath, JSON.stringify({
+        version: 1,
+        api_endpoint: 'https://api.visionfi.com',
+        options: { workflow: 'invoice' },
+        files: [{ path: '/docs/a.pdf', state: 'uploading' }]
+      }));
+
+      expect(() => store.read(path.join(batchesDir, 'missing.json'))).toThrow('Batch manifest not found');
+      expect(() => store.read(corruptPath)).toThrow(`Cannot read batch manifest ${corruptPath}`);
+      expect(() => store.read(invalidPath)).toThrow(`Invalid batch manifest ${invalidPath}: file 1 has no path or an unknown state`);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { mapWithConcurrency, parseConcurrency } from '../../src/utils/concurrency';
+
+describe('Concurrency Utilities', () => {
+  describe('mapWithConcurrency', () => {
+    it('should preserve input order in results', async () => {
+      const delays = [30, 10, 20];
+      
+      const results = await mapWithConcurrency(delays, 3, async (delay, index) => {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return index;
+      });
+      
+      expect(results).toEqual([0, 1, 2]);
+    });
+    
+    it('should never exceed the concurrency limit', async () => {
+      let active = 0;
+      let maxActive = 0;
+      
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        active--;
+      });
+      
+      expect(maxActive).toBe(2);
+    });
+    
+    it('should handle empty input', async () => {
+      const worker = jest.fn();
+      
+      const results = await mapWithConcurrency([], 4, worker);
+      
+      expect(results).toEqual([]);
+      expect(worker).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('parseConcurrency', () => {
+    it('should parse string values', () => {
+      expect(parseConcurrency('8')).toBe(8);
+    });
+    
+    it('should fall back for invalid values', () => {
+      expect(parseConcurrency('abc')).toBe(4);
+      expect(parseConcurrency(0)).toBe(4);
+      expect(parseConcurrency(undefined, 2)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import { DEFAULT_CONFIG } from '../../src/utils/config';
+import {
+  CURRENT_CONFIG_VERSION,
+  ConfigValidationError,
+  migrateConfig,
+  validateConfig
+} from '../../src/utils/config-schema';
+
+describe('Config Schema', () => {
+  describe('validateConfig', () => {
+    it('should accept the default config', () => {
+      expect(validateConfig(DEFAULT_CONFIG)).toEqual([]);
+    });
+    
+    it('should report one issue per offending key', () => {
+      const issues = validateConfig({
+        ...DEFAULT_CONFIG,
+        api_endpoint: 'platform.visionfi.ai',
+        debug_mode: 'true',
+        workflow_cache_ttl: '20m',
+        recent_uuids: 'abc',
+        api_endpiont: 'https://typo.example.com'
+      });
+      
+      expect(issues.map(issue => issue.key)).toEqual([
+        'api_endpoint',
+        'recent_uuids',
+        'debug_mode',
+        'workflow_cache_ttl',
+        'api_endpiont'
+      ]);
+      expect(issues[0].message).toBe('"platform.visionfi.ai" is not a valid URL');
+      expect(issues[4].message).toBe('unknown key');
+    });
+    
+    it('should reject non-object configs', () => {
+      expect(validateConfig([])).toEqual([{ key: '(root)', message: 'expected a JSON object' }]);
+    });
+  });
+  
+  describe('migrateConfig', () => {
+    it('should upgrade unversioned configs and back-fill defaults', () => {
+      const { config, fromVersion } = migrateConfig({ debug_mode: true }, DEFAULT_CONFIG, '/config.json');
+      
+      expect(fromVersion).toBe(0);
+      expect(config).toEqual({ ...DEFAULT_CONFIG, debug_mode: true, config_version: CURRENT_CONFIG_VERSION });
+    });
+    
+    it('should add keys introduced after version 1', () => {
+      const { retries, session_ttl, ...versionOne } = DEFAULT_CONFIG;
+      
+      const { config, fromVersion } = migrateConfig({ ...versionOne, config_version: 1 }, DEFAULT_CONFIG, '/config.json');
+      
+      expect(fromVersion).toBe(1);
+      expect(config).toEqual({ ...DEFAULT_CONFIG, config_version: CURRENT_CONFIG_VERSION });
+    });
+    
+    it('should keep values already set when adding keys', () => {
+      const { config } = migrateConfig({ ...DEFAULT_CONFIG, retries: 5, config_version: 1 }, DEFAULT_CONFIG, '/config.json');
+      
+      expect(config.retries).toBe(5);
+    });
+    
+    it('should leave current configs unchanged', () => {
+      const current = { ...DEFAULT_CONFIG, config_version: CURRENT_CONFIG_VERSION };
+      
+      expect(migrateConfig(current, DEFAULT_CONFIG, '/config.json')).toEqual({ config: current, fromVersion: CURRENT_CONFIG_VERSION });
+    });
+    
+    it('should refuse configs written by a newer version', () => {
+      expect(() => migrateConfig({ config_version: CURRENT_CONFIG_VERSION + 1 }, DEFAULT_CONFIG, '/config.json'))
+        .toThrow(ConfigValidationError);
+    });
+  });
+});
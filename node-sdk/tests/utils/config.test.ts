@@ -1,7 +1,16 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { loadConfig, saveConfig, DEFAULT_CONFIG, SERVICE_ACCOUNT_KEY_NAME } from '../../src/utils/config';
+import {
+  loadConfig,
+  saveConfig,
+  resolveConfig,
+  getEnvOverrides,
+  setConfigOverrides,
+  DEFAULT_CONFIG,
+  SERVICE_ACCOUNT_KEY_NAME
+} from '../../src/utils/config';
+import { CURRENT_CONFIG_VERSION, ConfigParseError, ConfigValidationError } from '../../src/utils/config-schema';
 
 // Mock modules
 jest.mock('fs');
@@ -106,12 +115,48 @@ describe('Config Utilities', () => {
       (fs.existsSync as jest.Mock).mockReturnValue(true); // All paths exist
       (fs.readFileSync as jest.Mock).mockReturnValue('invalid json');
       
-      // Execute
+      // Execute & Verify - parse errors are reported instead of silently using defaults
+      expect(() => loadConfig()).toThrow(ConfigParseError);
+    });
+    
+    it('should report invalid values with the offending key', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        ...DEFAULT_CONFIG,
+        debug_mode: 'yes'
+      }));
+      
+      try {
+        loadConfig();
+        fail('Expected loadConfig to throw');
+      } catch (error: any) {
+        expect(error).toBeInstanceOf(ConfigValidationError);
+        expect(error.key).toBe('debug_mode');
+        expect(error.message).toContain('debug_mode: expected true or false, got "yes"');
+      }
+    });
+    
+    it('should migrate and back up config files without a version', () => {
+      const legacyConfig = { api_endpoint: 'https://custom.endpoint.com', debug_mode: true };
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(legacyConfig));
+      
       const config = loadConfig();
       
-      // Verify
-      expect(config).toEqual(DEFAULT_CONFIG);
-      expect(consoleErrorSpy).toHaveBeenCalled();
+      expect(config.config_version).toBe(CURRENT_CONFIG_VERSION);
+      expect(fs.copyFileSync).toHaveBeenCalledWith(expect.any(String), expect.stringMatching(/\.v0\.bak$/));
+      const written = JSON.parse((fs.writeFileSync as jest.Mock).mock.calls[0][1]);
+      expect(written).toEqual({ ...DEFAULT_CONFIG, ...legacyConfig, config_version: CURRENT_CONFIG_VERSION });
+    });
+    
+    it('should not rewrite config files that are already current', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(DEFAULT_CONFIG));
+      
+      loadConfig();
+      
+      expect(fs.copyFileSync).not.toHaveBeenCalled();
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
     });
   });
   
@@ -128,6 +173,94 @@ describe('Config Utilities', () => {
     });
   });
   
+  describe('overrides', () => {
+    afterEach(() => {
+      delete process.env.VISIONFI_API_ENDPOINT;
+      delete process.env.VISIONFI_DEBUG;
+      setConfigOverrides({});
+    });
+    
+    it('should parse environment overrides', () => {
+      expect(getEnvOverrides({
+        VISIONFI_API_ENDPOINT: 'https://env.example.com',
+        VISIONFI_DEBUG: 'true',
+        VISIONFI_TEST_MODE: '0',
+        VISIONFI_WORKFLOW_CACHE_TTL: '60',
+        VISIONFI_RETRIES: '5',
+        VISIONFI_SESSION_TTL: '300'
+      })).toEqual({
+        api_endpoint: 'https://env.example.com',
+        debug_mode: true,
+        test_mode: false,
+        workflow_cache_ttl: 60,
+        retries: 5,
+        session_ttl: 300
+      });
+    });
+    
+    it('should reject invalid environment values', () => {
+      expect(() => getEnvOverrides({ VISIONFI_DEBUG: 'maybe' })).toThrow('Invalid value for VISIONFI_DEBUG');
+      expect(() => getEnvOverrides({ VISIONFI_WORKFLOW_CACHE_TTL: '10 minutes' })).toThrow('VISIONFI_WORKFLOW_CACHE_TTL');
+      expect(() => getEnvOverrides({ VISIONFI_RETRIES: '-1' })).toThrow('VISIONFI_RETRIES');
+    });
+    
+    it('should layer flags over environment over file values', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        api_endpoint: 'https://file.example.com',
+        debug_mode: false
+      }));
+      process.env.VISIONFI_API_ENDPOINT = 'https://env.example.com';
+      process.env.VISIONFI_DEBUG = '1';
+      setConfigOverrides({ api_endpoint: 'https://flag.example.com' });
+      
+      const resolved = resolveConfig();
+      
+      expect(resolved.config.api_endpoint).toBe('https://flag.example.com');
+      expect(resolved.config.debug_mode).toBe(true);
+      expect(resolved.file.api_endpoint).toBe('https://file.example.com');
+      expect(resolved.sources).toEqual({
+        api_endpoint: 'flag',
+        debug_mode: 'env',
+        service_account_path: 'default',
+        recent_uuids: 'default',
+        test_mode: 'default',
+        workflow_cache_ttl: 'default',
+        retries: 'default',
+        session_ttl: 'default',
+        config_version: 'default'
+      });
+    });
+    
+    it('should not persist override values when saving', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        ...DEFAULT_CONFIG,
+        api_endpoint: 'https://file.example.com'
+      }));
+      process.env.VISIONFI_API_ENDPOINT = 'https://env.example.com';
+      
+      const config = loadConfig();
+      saveConfig({ ...config, recent_uuids: ['uuid-1'] });
+      
+      const saved = JSON.parse((fs.writeFileSync as jest.Mock).mock.calls[0][1]);
+      expect(saved.api_endpoint).toBe('https://file.example.com');
+      expect(saved.recent_uuids).toEqual(['uuid-1']);
+    });
+    
+    it('should save an overridden key when its value was changed', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify(DEFAULT_CONFIG));
+      process.env.VISIONFI_API_ENDPOINT = 'https://env.example.com';
+      
+      const config = loadConfig();
+      saveConfig({ ...config, api_endpoint: 'https://new.example.com' });
+      
+      const saved = JSON.parse((fs.writeFileSync as jest.Mock).mock.calls[0][1]);
+      expect(saved.api_endpoint).toBe('https://new.example.com');
+    });
+  });
+  
   describe('Constants', () => {
     it('should export SERVICE_ACCOUNT_KEY_NAME constant', () => {
       expect(SERVICE_ACCOUNT_KEY_NAME).toBeDefined();
@@ -0,0 +1,31 @@
+/**
+ * Tests for the structural results diff
+ */
+
+import { diffValues } from '../../src/utils/diff';
+
+describe('Diff', () => {
+  describe('diffValues', () => {
+    it('should report added, removed and changed fields by dotted path', () => {
+      expect(diffValues(
+        { total: 10, borrower: { name: 'Ada', city: 'Austin' }, items: [1, 2] },
+        { total: 12, borrower: { name: 'Ada' }, items: [1, 2, 3], currency: 'USD' }
+      )).toEqual([
+        { path: 'total', kind: 'changed', before: 10, after: 12 },
+        { path: 'borrower.city', kind: 'removed', before: 'Austin' },
+        { path: 'items.2', kind: 'added', after: 3 },
+        { path: 'currency', kind: 'added', after: 'USD' }
+      ]);
+    });
+
+    it('should report a type change as a single change', () => {
+      expect(diffValues({ amount: { value: 1 } }, { amount: 1 })).toEqual([
+        { path: 'amount', kind: 'changed', before: { value: 1 }, after: 1 }
+      ]);
+    });
+
+    it('should return nothing for equal values', () => {
+      expect(diffValues({ a: [{ b: null }] }, { a: [{ b: null }] })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Tests for the dotted-path flattener
+ */
+
+import { flattenObject, toRecords } from '../../src/utils/flatten';
+
+describe('Flatten', () => {
+  describe('flattenObject', () => {
+    it('should flatten nested objects and arrays into dotted paths', () => {
+      expect(flattenObject({
+        borrower: { name: 'Ada', address: { city: 'Austin' } },
+        line_items: [{ amount: 10 }, { amount: 20 }],
+        verified: true
+      })).toEqual({
+        'borrower.name': 'Ada',
+        'borrower.address.city': 'Austin',
+        'line_items.0.amount': 10,
+        'line_items.1.amount': 20,
+        verified: true
+      });
+    });
+
+    it('should keep empty containers and nulls as values', () => {
+      expect(flattenObject({ tags: [], meta: {}, note: null })).toEqual({ tags: [], meta: {}, note: null });
+    });
+
+    it('should name a bare scalar "value"', () => {
+      expect(flattenObject('text')).toEqual({ value: 'text' });
+    });
+  });
+
+  describe('toRecords', () => {
+    it('should give one record per array element or a single record', () => {
+      expect(toRecords([{ a: 1 }, { a: 2 }])).toHaveLength(2);
+      expect(toRecords({ a: 1 })).toEqual([{ a: 1 }]);
+    });
+  });
+});
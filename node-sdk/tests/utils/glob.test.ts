@@ -0,0 +1,55 @@
+import { globToRegExp, hasGlobPattern, splitGlobBase } from '../../src/utils/glob';
+
+describe('Glob Utilities', () => {
+  describe('hasGlobPattern', () => {
+    it('should detect glob characters', () => {
+      expect(hasGlobPattern('invoices/*.pdf')).toBe(true);
+      expect(hasGlobPattern('invoices/file?.pdf')).toBe(true);
+      expect(hasGlobPattern('invoices/*.{pdf,png}')).toBe(true);
+      expect(hasGlobPattern('invoices/Sample Invoice 1.pdf')).toBe(false);
+    });
+  });
+  
+  describe('globToRegExp', () => {
+    it('should match single-segment wildcards', () => {
+      const regex = globToRegExp('*.pdf');
+      expect(regex.test('invoice.pdf')).toBe(true);
+      expect(regex.test('nested/invoice.pdf')).toBe(false);
+      expect(regex.test('invoice.png')).toBe(false);
+    });
+    
+    it('should match any depth with **', () => {
+      const regex = globToRegExp('**/*.pdf');
+      expect(regex.test('invoice.pdf')).toBe(true);
+      expect(regex.test('a/b/invoice.pdf')).toBe(true);
+    });
+    
+    it('should support braces and character classes', () => {
+      expect(globToRegExp('*.{pdf,png}').test('id.png')).toBe(true);
+      expect(globToRegExp('*.{pdf,png}').test('id.jpg')).toBe(false);
+      expect(globToRegExp('file[12].pdf').test('file2.pdf')).toBe(true);
+      expect(globToRegExp('file[!12].pdf').test('file2.pdf')).toBe(false);
+    });
+    
+    it('should escape regular expression characters', () => {
+      const regex = globToRegExp('Sample (1).pdf');
+      expect(regex.test('Sample (1).pdf')).toBe(true);
+      expect(regex.test('Sample 1xpdf')).toBe(false);
+    });
+  });
+  
+  describe('splitGlobBase', () => {
+    it('should split the static base from the pattern', () => {
+      expect(splitGlobBase('invoices/2024/*.pdf')).toEqual({ base: 'invoices/2024', pattern: '*.pdf' });
+      expect(splitGlobBase('docs/**/*.pdf')).toEqual({ base: 'docs', pattern: '**/*.pdf' });
+    });
+    
+    it('should default to the current directory', () => {
+      expect(splitGlobBase('*.pdf')).toEqual({ base: '.', pattern: '*.pdf' });
+    });
+    
+    it('should preserve absolute roots', () => {
+      expect(splitGlobBase('/*.pdf')).toEqual({ base: '/', pattern: '*.pdf' });
+    });
+  });
+});
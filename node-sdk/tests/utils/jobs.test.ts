@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createJobStore, hashFileData, findDuplicateJob, describeJobStatus, classifyJobState } from '../../src/utils/jobs';
+import { JobRecord } from '../../src/types/jobs';
+
+describe('Job Ledger Utilities', () => {
+  let jobsDir: string;
+  
+  const makeJob = (uuid: string, submittedAt: string): JobRecord => ({
+    uuid,
+    file_name: `${uuid}.pdf`,
+    file_hash: 'abc123',
+    workflow_key: 'invoice',
+    api_endpoint: 'https://api.visionfi.com',
+    submitted_at: submittedAt,
+    status: 'submitted'
+  });
+  
+  beforeEach(() => {
+    jobsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-jobs-'));
+  });
+  
+  afterEach(() => {
+    fs.rmSync(jobsDir, { recursive: true, force: true });
+  });
+  
+  describe('createJobStore', () => {
+    it('should record and read back a job', () => {
+      const store = createJobStore(jobsDir);
+      const job = makeJob('uuid-1', '2024-01-01T00:00:00.000Z');
+      
+      store.recordJob(job);
+      
+      expect(store.getJob('uuid-1')).toEqual(job);
+    });
+    
+    it('should list jobs with the most recent first', () => {
+      const store = createJobStore(jobsDir);
+      store.recordJob(makeJob('older', '2024-01-01T00:00:00.000Z'));
+      store.recordJob(makeJob('newer', '2024-02-01T00:00:00.000Z'));
+      
+      expect(store.listJobs().map(job => job.uuid)).toEqual(['newer', 'older']);
+    });
+    
+    it('should update existing jobs and ignore unknown ones', () => {
+      const store = createJobStore(jobsDir);
+      store.recordJob(makeJob('uuid-1', '2024-01-01T00:00:00.000Z'));
+      
+      const updated = store.updateJob('uuid-1', { status: 'completed' });
+      
+      expect(updated?.status).toBe('completed');
+      expect(store.getJob('uuid-1')?.status).toBe('completed');
+      expect(store.updateJob('unknown', { status: 'completed' })).toBeNull();
+    });
+    
+    it('should remove jobs', () => {
+      const store = createJobStore(jobsDir);
+      store.recordJob(makeJob('uuid-1', '2024-01-01T00:00:00.000Z'));
+      
+      expect(store.removeJob('uuid-1')).toBe(true);
+      expect(store.removeJob('uuid-1')).toBe(false);
+      expect(store.getJob('uuid-1')).toBeNull();
+    });
+    
+    it('should skip corrupt ledger entries', () => {
+      const store = createJobStore(jobsDir);
+      store.recordJob(makeJob('uuid-1', '2024-01-01T00:00:00.000Z'));
+      fs.writeFileSync(path.join(jobsDir, 'broken.json'), 'not json');
+      fs.writeFileSync(path.join(jobsDir, 'truncated.json'), JSON.stringify({ uuid: 'uuid-2', status: 'processing' }));
+      
+      expect(store.listJobs()).toHaveLength(1);
+      expect(store.getJob('uuid-2')).toBeNull();
+    });
+    
+    it('should return an empty list when the ledger does not exist', () => {
+      const store = createJobStore(path.join(jobsDir, 'missing'));
+      
+      expect(store.listJobs()).toEqual([]);
+    });
+  });
+  
+  describe('hashFileData', () => {
+    it('should return a stable SHA-256 hex digest', () => {
+      const hash = hashFileData(Buffer.from('test file content'));
+      
+      expect(hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashFileData(Buffer.from('test file content'))).toBe(hash);
+    });
+  });
+  
+  describe('findDuplicateJob', () => {
+    it('should return the most recent job for the same content and workflow', () => {
+      const store = createJobStore(jobsDir);
+      store.recordJob(makeJob('older', '2024-01-01T00:00:00.000Z'));
+      store.recordJob(makeJob('newer', '2024-02-01T00:00:00.000Z'));
+      
+      expect(findDuplicateJob(store, 'abc123', 'invoice', 'https://api.visionfi.com')?.uuid).toBe('newer');
+    });
+    
+    it('should not match other content, workflows or endpoints', () => {
+      const store = createJobStore(jobsDir);
+      store.recordJob(makeJob('uuid-1', '2024-01-01T00:00:00.000Z'));
+      
+      expect(findDuplicateJob(store, 'def456', 'invoice', 'https://api.visionfi.com')).toBeNull();
+      expect(findDuplicateJob(store, 'abc123', 'bank_statement', 'https://api.visionfi.com')).toBeNull();
+      expect(findDuplicateJob(store, 'abc123', 'invoice', 'https://staging.visionfi.com')).toBeNull();
+    });
+    
+    it('should ignore jobs that failed', () => {
+      const store = createJobStore(jobsDir);
+      store.recordJob({ ...makeJob('failed', '2024-01-01T00:00:00.000Z'), status: 'error' });
+      
+      expect(findDuplicateJob(store, 'abc123', 'invoice', 'https://api.visionfi.com')).toBeNull();
+    });
+  });
+  
+  describe('describeJobStatus', () => {
+    it('should prefer the API status', () => {
+      expect(describeJobStatus({ status: 'processing' })).toBe('processing');
+    });
+    
+    it('should derive a status from the response contents', () => {
+      expect(describeJobStatus({ results: { total: 1 } })).toBe('completed');
+      expect(describeJobStatus({ error: 'failed' })).toBe('error');
+      expect(describeJobStatus({})).toBe('pending');
+    });
+  });
+  
+  describe('classifyJobState', () => {
+    it('should prefer the API status over partial results', () => {
+      expect(classifyJobState({ status: 'processing', results: { total: 1 } })).toBe('processing');
+      expect(classifyJobState({ status: 'processed', results: { total: 1 } })).toBe('complete');
+    });
+    
+    it('should fall back to results and errors without a status', () => {
+      expect(classifyJobState({ results: { total: 1 } })).toBe('complete');
+      expect(classifyJobState({ error: 'failed' })).toBe('error');
+      expect(classifyJobState({})).toBe('pending');
+    });
+    
+    it('should classify recorded statuses', () => {
+      expect(classifyJobState({ status: 'submitted' })).toBe('pending');
+      expect(classifyJobState({ status: 'processing' })).toBe('processing');
+      expect(classifyJobState({ status: 'processed' })).toBe('complete');
+      expect(classifyJobState({ status: 'completed' })).toBe('complete');
+      expect(classifyJobState({ status: 'failed' })).toBe('error');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for the mock VisionFi API server
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  createDefaultMockConfig,
+  mergeMockConfig,
+  matchPath,
+  createMockServer
+} from '../../src/utils/mock-server';
+import { MockServerConfig, MockServerDependencies, MockRequestLog } from '../../src/types/mock-server';
+
+/**
+ * Send a JSON request to the server and parse the response
+ */
+function request(port: number, method: string, path: string, body?: any): Promise<{ status: number; body: any }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, method, path, headers: { 'Content-Type': 'application/json' } }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(Buffer.concat(chunks).toString('utf8')) }));
+    });
+    req.on('error', reject);
+    req.end(body ? JSON.stringify(body) : undefined);
+  });
+}
+
+describe('Mock server utilities', () => {
+  describe('matchPath', () => {
+    it('should match literal paths and capture parameters', () => {
+      expect(matchPath('/workflows', '/workflows')).toEqual({});
+      expect(matchPath('/results/:uuid', '/results/abc-123')).toEqual({ uuid: 'abc-123' });
+    });
+
+    it('should ignore a prefix before the route path', () => {
+      expect(matchPath('/results/:uuid', '/api/v1/results/abc')).toEqual({ uuid: 'abc' });
+    });
+
+    it('should not match different paths', () => {
+      expect(matchPath('/workflows', '/workflow')).toBeNull();
+      expect(matchPath('/results/:uuid', '/results')).toBeNull();
+    });
+  });
+
+  describe('mergeMockConfig', () => {
+    it('should merge route overrides over the defaults', () => {
+      const merged = mergeMockConfig(createDefaultMockConfig(), {
+        latencyMs: 200,
+        routes: { workflows: { path: '/operations/workflows' } }
+      });
+
+      expect(merged.latencyMs).toBe(200);
+      expect(merged.routes.workflows.path).toBe('/operations/workflows');
+      expect(merged.routes.workflows.method).toBe('GET');
+      expect(merged.routes.analyze.path).toBe('/analyze');
+    });
+
+    it('should reject unknown routes', () => {
+      expect(() => mergeMockConfig(createDefaultMockConfig(), { routes: { upload: {} } }))
+        .toThrow('Unknown route "upload". Routes: authVerify, clientInfo, workflows, analyze, results');
+    });
+
+    it('should reject an out-of-range failure rate', () => {
+      expect(() => mergeMockConfig(createDefaultMockConfig(), { failureRate: 2 }))
+        .toThrow('"failureRate" must be between 0 and 1.');
+    });
+  });
+
+  describe('createMockServer', () => {
+    let server: http.Server;
+    let port: number;
+    let requests: MockRequestLog[];
+
+    const start = async (overrides: Partial<MockServerConfig> = {}, dependencies: MockServerDependencies = {}) => {
+      requests = [];
+      server = createMockServer({ ...createDefaultMockConfig(), ...overrides }, {
+        generateUuid: () => 'job-1',
+        onRequest: (entry) => requests.push(entry),
+        ...dependencies
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      port = (server.address() as AddressInfo).port;
+    };
+
+    afterEach(async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    it('should answer auth, client info and workflow requests with canned responses', async () => {
+      await start();
+
+      expect(await request(port, 'GET', '/auth/verify')).toEqual({ status: 200, body: { data: true } });
+      expect((await request(port, 'GET', '/client/info')).body.data.name).toBe('Mock Client');
+      expect((await request(port, 'GET', '/workflows')).body.data[0].workflow_key).toBe('mock_invoice');
+    });
+
+    it('should report a job as processing before returning its results', async () => {
+      await start({ processingPolls: 1 });
+
+      const submitted = await request(port, 'POST', '/analyze', { workflowKey: 'mock_invoice' });
+      expect(submitted.body.uuid).toBe('job-1');
+
+      const first = await request(port, 'GET', '/results/job-1');
+      expect(first.body).toEqual({ status: 'processing' });
+
+      const second = await request(port, 'GET', '/results/job-1');
+      expect(second.body.results).toEqual(expect.objectContaining({ document_id: 'job-1', workflow: 'mock_invoice' }));
+    });
+
+    it('should return 404 for unknown jobs and unmatched paths', async () => {
+      await start();
+
+      expect((await request(port, 'GET', '/results/missing')).status).toBe(404);
+      expect((await request(port, 'DELETE', '/workflows')).status).toBe(404);
+      expect(requests[1]).toEqual(expect.objectContaining({ method: 'DELETE', path: '/workflows', status: 404 }));
+      expect(requests[1].route).toBeUndefined();
+    });
+
+    it('should inject failures at the configured rate', async () => {
+      await start({ failureRate: 0.5, failureStatus: 502 }, { random: () => 0.4 });
+
+      const response = await request(port, 'GET', '/workflows');
+
+      expect(response.status).toBe(502);
+      expect(requests[0]).toEqual(expect.objectContaining({ route: 'workflows', injectedFailure: true }));
+    });
+
+    it('should add latency to responses', async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      await start({ latencyMs: 250 }, { sleep });
+
+      await request(port, 'GET', '/auth/verify');
+
+      expect(sleep).toHaveBeenCalledWith(250);
+    });
+  });
+});
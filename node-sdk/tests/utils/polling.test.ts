@@ -0,0 +1,113 @@
+import { computeBackoffDelay, pollUntil } from '../../src/utils/polling';
+
+describe('Polling Utilities', () => {
+  describe('computeBackoffDelay', () => {
+    const noJitter = () => 0.5;
+    
+    it('should grow the delay exponentially', () => {
+      const options = { initialInterval: 1000, multiplier: 2, jitter: 0.2 };
+      
+      expect(computeBackoffDelay(1, options, noJitter)).toBe(1000);
+      expect(computeBackoffDelay(2, options, noJitter)).toBe(2000);
+      expect(computeBackoffDelay(3, options, noJitter)).toBe(4000);
+    });
+    
+    it('should cap the delay at maxInterval', () => {
+      const options = { initialInterval: 1000, multiplier: 2, maxInterval: 5000 };
+      
+      expect(computeBackoffDelay(10, options, noJitter)).toBe(5000);
+    });
+    
+    it('should spread the delay by the jitter fraction', () => {
+      const options = { initialInterval: 1000, multiplier: 1, jitter: 0.2 };
+      
+      expect(computeBackoffDelay(1, options, () => 0)).toBe(800);
+      expect(computeBackoffDelay(1, options, () => 0.999999)).toBe(1200);
+    });
+    
+    it('should fall back to safe values for invalid settings', () => {
+      expect(computeBackoffDelay(1, { initialInterval: NaN, jitter: 0 })).toBe(100);
+      expect(computeBackoffDelay(1, { initialInterval: 0, jitter: 0 })).toBe(100);
+      expect(computeBackoffDelay(3, { initialInterval: 1000, multiplier: 0, jitter: 0 })).toBe(2250);
+      expect(computeBackoffDelay(10, { initialInterval: 1000, maxInterval: NaN, jitter: 0 })).toBe(30000);
+      expect(computeBackoffDelay(1, { initialInterval: 1000, jitter: NaN }, noJitter)).toBe(1000);
+    });
+  });
+  
+  describe('pollUntil', () => {
+    const createClock = () => {
+      let time = 0;
+      return {
+        now: () => time,
+        sleep: jest.fn(async (ms: number) => { time += ms; })
+      };
+    };
+    
+    it('should stop as soon as the value is done', async () => {
+      const clock = createClock();
+      const fn = jest.fn()
+        .mockResolvedValueOnce('pending')
+        .mockResolvedValueOnce('done');
+      
+      const outcome = await pollUntil(fn, value => value === 'done', {
+        initialInterval: 100,
+        ...clock
+      });
+      
+      expect(outcome).toEqual({ value: 'done', done: true, attempts: 2, elapsedMs: expect.any(Number), reason: 'done' });
+      expect(clock.sleep).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should stop after maxAttempts', async () => {
+      const clock = createClock();
+      const fn = jest.fn().mockResolvedValue('pending');
+      
+      const outcome = await pollUntil(fn, () => false, {
+        initialInterval: 100,
+        maxAttempts: 3,
+        ...clock
+      });
+      
+      expect(outcome.reason).toBe('max-attempts');
+      expect(outcome.done).toBe(false);
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+    
+    it('should stop at the wall-clock timeout without sleeping past it', async () => {
+      const clock = createClock();
+      const fn = jest.fn().mockResolvedValue('pending');
+      
+      const outcome = await pollUntil(fn, () => false, {
+        initialInterval: 1000,
+        multiplier: 2,
+        jitter: 0,
+        timeout: 5000,
+        ...clock
+      });
+      
+      // Attempts at 0, 1000, 3000 and 5000ms (the last delay is shortened to the deadline)
+      expect(outcome.reason).toBe('timeout');
+      expect(outcome.attempts).toBe(4);
+      expect(outcome.elapsedMs).toBe(5000);
+      expect(clock.sleep.mock.calls.map(call => call[0])).toEqual([1000, 2000, 2000]);
+    });
+    
+    it('should report progress after every attempt', async () => {
+      const clock = createClock();
+      const onAttempt = jest.fn();
+      const fn = jest.fn<Promise<{ status: string }>, []>()
+        .mockResolvedValueOnce({ status: 'processing' })
+        .mockResolvedValueOnce({ status: 'processed' });
+      
+      await pollUntil(fn, value => value.status === 'processed', {
+        initialInterval: 500,
+        jitter: 0,
+        onAttempt,
+        ...clock
+      });
+      
+      expect(onAttempt).toHaveBeenNthCalledWith(1, { attempt: 1, elapsedMs: 0, nextDelayMs: 500, value: { status: 'processing' } });
+      expect(onAttempt).toHaveBeenNthCalledWith(2, { attempt: 2, elapsedMs: 500, value: { status: 'processed' } });
+    });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Tests for document preflight checks
+ */
+
+import {
+  detectDocumentType,
+  preflightDocument,
+  preflightFile,
+  parseMaxFileSize,
+  formatFileSize,
+  DEFAULT_MAX_FILE_SIZE
+} from '../../src/utils/preflight';
+
+const PDF = Buffer.from('%PDF-1.7\n1 0 obj\n<< /Type /Catalog >>\nendobj\ntrailer\n<< /Root 1 0 R >>\nstartxref\n0\n%%EOF\n');
+const PNG = Buffer.concat([
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  Buffer.from('....IHDR....'),
+  Buffer.from('....IEND'),
+  Buffer.from([0xae, 0x42, 0x60, 0x82])
+]);
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0xff, 0xd9]);
+const TIFF = Buffer.from([0x49, 0x49, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00, 0x00, 0x00]);
+
+describe('Preflight', () => {
+  describe('detectDocumentType', () => {
+    it('should detect supported types from their magic bytes', () => {
+      expect(detectDocumentType(PDF)).toBe('pdf');
+      expect(detectDocumentType(PNG)).toBe('png');
+      expect(detectDocumentType(JPEG)).toBe('jpeg');
+      expect(detectDocumentType(TIFF)).toBe('tiff');
+      expect(detectDocumentType(Buffer.from([0x4d, 0x4d, 0x00, 0x2a, 0, 0, 0, 8]))).toBe('tiff');
+    });
+
+    it('should accept a PDF header after leading bytes', () => {
+      expect(detectDocumentType(Buffer.concat([Buffer.from('junk\n'), PDF]))).toBe('pdf');
+    });
+
+    it('should return null for other content', () => {
+      expect(detectDocumentType(Buffer.from('plain text'))).toBeNull();
+      expect(detectDocumentType(Buffer.from('PK\u0003\u0004'))).toBeNull();
+    });
+  });
+
+  describe('preflightDocument', () => {
+    it('should accept valid documents', () => {
+      const result = preflightDocument(PDF, 'invoice.pdf');
+
+      expect(result.success).toBe(true);
+      expect(result.fileType).toBe('pdf');
+      expect(result.fileData).toBe(PDF);
+      expect(preflightDocument(PNG, 'scan.png').success).toBe(true);
+      expect(preflightDocument(JPEG, 'photo.jpg').success).toBe(true);
+      expect(preflightDocument(TIFF, 'fax.tiff').success).toBe(true);
+    });
+
+    it('should reject empty files', () => {
+      const result = preflightDocument(Buffer.alloc(0), 'empty.pdf');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('empty.pdf is empty.');
+    });
+
+    it('should reject files over the size limit', () => {
+      const result = preflightDocument(PDF, 'invoice.pdf', { maxFileSize: 10 });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe(`invoice.pdf is ${PDF.length} bytes, larger than the 10 bytes limit.`);
+    });
+
+    it('should reject unsupported types', () => {
+      const result = preflightDocument(Buffer.from('hello'), 'notes.txt');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('notes.txt is not a supported document type. Supported types: PDF, PNG, JPEG, TIFF.');
+    });
+
+    it('should reject encrypted PDFs', () => {
+      const encrypted = Buffer.from('%PDF-1.7\ntrailer\n<< /Root 1 0 R /Encrypt 5 0 R >>\n%%EOF\n');
+
+      const result = preflightDocument(encrypted, 'secret.pdf');
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('the PDF is encrypted');
+    });
+
+    it('should reject truncated files', () => {
+      expect(preflightDocument(PDF.subarray(0, 40), 'cut.pdf').message).toContain('no %%EOF marker');
+      expect(preflightDocument(PNG.subarray(0, 16), 'cut.png').message).toContain('no IEND chunk');
+      expect(preflightDocument(JPEG.subarray(0, 8), 'cut.jpg').message).toContain('no end-of-image marker');
+      expect(preflightDocument(Buffer.from([0x49, 0x49, 0x2a, 0x00, 0xff, 0, 0, 0]), 'cut.tif').message)
+        .toContain('image directory is outside the file');
+    });
+  });
+
+  describe('preflightFile', () => {
+    it('should reject oversized files without reading them', () => {
+      const fileSystem = {
+        statSync: jest.fn().mockReturnValue({ size: 80 * 1024 * 1024 }),
+        readFileSync: jest.fn()
+      };
+
+      const result = preflightFile('/docs/huge.pdf', {}, fileSystem);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('huge.pdf is 80.0 MB, larger than the 50.0 MB limit.');
+      expect(fileSystem.readFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should read and check the file', () => {
+      const fileSystem = {
+        statSync: jest.fn().mockReturnValue({ size: PDF.length }),
+        readFileSync: jest.fn().mockReturnValue(PDF)
+      };
+
+      const result = preflightFile('/docs/invoice.pdf', {}, fileSystem);
+
+      expect(result.success).toBe(true);
+      expect(result.fileData).toBe(PDF);
+    });
+
+    it('should report read errors', () => {
+      const fileSystem = {
+        readFileSync: jest.fn(() => { throw new Error('EACCES: permission denied'); })
+      };
+
+      const result = preflightFile('/docs/locked.pdf', {}, fileSystem);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Cannot read locked.pdf: EACCES: permission denied');
+    });
+  });
+
+  describe('parseMaxFileSize', () => {
+    it('should parse megabytes and default when missing', () => {
+      expect(parseMaxFileSize(undefined)).toBe(DEFAULT_MAX_FILE_SIZE);
+      expect(parseMaxFileSize('10')).toBe(10 * 1024 * 1024);
+      expect(parseMaxFileSize(0.5)).toBe(512 * 1024);
+    });
+
+    it('should return null for invalid values', () => {
+      expect(parseMaxFileSize('abc')).toBeNull();
+      expect(parseMaxFileSize('-1')).toBeNull();
+      expect(parseMaxFileSize('0')).toBeNull();
+    });
+  });
+
+  describe('formatFileSize', () => {
+    it('should format bytes, kilobytes and megabytes', () => {
+      expect(formatFileSize(512)).toBe('512 bytes');
+      expect(formatFileSize(2048)).toBe('2.0 KB');
+      expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB');
+    });
+  });
+});
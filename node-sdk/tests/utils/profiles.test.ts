@@ -0,0 +1,119 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_CONFIG_DIR,
+  PROFILES_DIR,
+  PROFILE_STATE_PATH,
+  PROFILE_ENV_VAR,
+  setProfileOverride,
+  getActiveProfile,
+  getConfigPath,
+  getJobsDir,
+  loadConfig,
+  saveConfig
+} from '../../src/utils/config';
+import { createProfileManager, isValidProfileName } from '../../src/utils/profiles';
+
+describe('Profile Utilities', () => {
+  const originalEnv = process.env[PROFILE_ENV_VAR];
+  
+  beforeEach(() => {
+    delete process.env[PROFILE_ENV_VAR];
+    setProfileOverride(undefined);
+  });
+  
+  afterEach(() => {
+    fs.rmSync(PROFILES_DIR, { recursive: true, force: true });
+    fs.rmSync(PROFILE_STATE_PATH, { force: true });
+    setProfileOverride(undefined);
+    if (originalEnv === undefined) {
+      delete process.env[PROFILE_ENV_VAR];
+    } else {
+      process.env[PROFILE_ENV_VAR] = originalEnv;
+    }
+  });
+  
+  describe('profile resolution', () => {
+    it('should use the default profile and legacy paths when nothing is selected', () => {
+      expect(getActiveProfile()).toBe('default');
+      expect(getConfigPath()).toBe(path.join(DEFAULT_CONFIG_DIR, 'config.json'));
+      expect(getJobsDir()).toBe(path.join(DEFAULT_CONFIG_DIR, 'jobs'));
+    });
+    
+    it('should prefer the flag over the environment variable and the saved profile', () => {
+      const manager = createProfileManager();
+      manager.setActiveProfile('saved');
+      expect(getActiveProfile()).toBe('saved');
+      
+      process.env[PROFILE_ENV_VAR] = 'from-env';
+      expect(getActiveProfile()).toBe('from-env');
+      
+      setProfileOverride('from-flag');
+      expect(getActiveProfile()).toBe('from-flag');
+      expect(getConfigPath()).toBe(path.join(PROFILES_DIR, 'from-flag', 'config.json'));
+    });
+    
+    it('should load and save the config of the active profile', () => {
+      const manager = createProfileManager();
+      manager.createProfile('staging', { api_endpoint: 'https://staging.example.com' });
+      
+      setProfileOverride('staging');
+      const config = loadConfig();
+      expect(config.api_endpoint).toBe('https://staging.example.com');
+      
+      saveConfig({ ...config, workflow_cache_ttl: 60 });
+      expect(JSON.parse(fs.readFileSync(path.join(PROFILES_DIR, 'staging', 'config.json'), 'utf8')).workflow_cache_ttl).toBe(60);
+    });
+  });
+  
+  describe('createProfileManager', () => {
+    it('should always list the default profile first', () => {
+      const manager = createProfileManager();
+      manager.createProfile('prod', {});
+      manager.createProfile('beta', {});
+      
+      const names = manager.listProfiles().map(profile => profile.name);
+      expect(names).toEqual(['default', 'beta', 'prod']);
+    });
+    
+    it('should create profiles with defaults for unspecified settings', () => {
+      const manager = createProfileManager();
+      const profile = manager.createProfile('staging', { api_endpoint: 'https://staging.example.com' });
+      
+      expect(profile).toEqual({
+        name: 'staging',
+        active: false,
+        config_path: path.join(PROFILES_DIR, 'staging', 'config.json'),
+        service_account_path: DEFAULT_CONFIG.service_account_path,
+        api_endpoint: 'https://staging.example.com',
+        workflow_cache_ttl: DEFAULT_CONFIG.workflow_cache_ttl
+      });
+      expect(manager.profileExists('staging')).toBe(true);
+      expect(manager.profileExists('missing')).toBe(false);
+    });
+    
+    it('should fall back to the default profile when the active one is removed', () => {
+      const manager = createProfileManager();
+      manager.createProfile('staging', {});
+      manager.setActiveProfile('staging');
+      
+      expect(manager.removeProfile('staging')).toBe(true);
+      expect(manager.profileExists('staging')).toBe(false);
+      expect(getActiveProfile()).toBe('default');
+    });
+    
+    it('should never remove the default profile', () => {
+      expect(createProfileManager().removeProfile('default')).toBe(false);
+    });
+  });
+  
+  describe('isValidProfileName', () => {
+    it('should accept simple names and reject path-like names', () => {
+      expect(isValidProfileName('prod-eu_2')).toBe(true);
+      expect(isValidProfileName('../etc')).toBe(false);
+      expect(isValidProfileName('a/b')).toBe(false);
+      expect(isValidProfileName('')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { createResultsCache, readCachedResults, cacheResults } from '../../src/utils/results-cache';
+import { CachedResults } from '../../src/types/results';
+
+describe('Results Cache Utilities', () => {
+  let resultsDir: string;
+  
+  const entry: CachedResults = {
+    uuid: 'uuid-1',
+    api_endpoint: 'https://api.visionfi.com',
+    cached_at: '2024-01-01T00:00:00.000Z',
+    status: 'processed',
+    results: { total: 10 }
+  };
+  
+  beforeEach(() => {
+    resultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-results-cache-'));
+  });
+  
+  afterEach(() => {
+    fs.rmSync(resultsDir, { recursive: true, force: true });
+  });
+  
+  describe('createResultsCache', () => {
+    it('should write results as <uuid>.json and read them back', () => {
+      const cache = createResultsCache(resultsDir);
+      
+      cache.write(entry);
+      
+      expect(fs.readdirSync(resultsDir)).toEqual(['uuid-1.json']);
+      expect(cache.read('uuid-1')).toEqual(entry);
+    });
+    
+    it('should treat missing and corrupt files as not cached', () => {
+      const cache = createResultsCache(resultsDir);
+      fs.writeFileSync(path.join(resultsDir, 'broken.json'), '{ not json');
+      
+      expect(cache.read('missing')).toBeNull();
+      expect(cache.read('broken')).toBeNull();
+    });
+  });
+  
+  describe('readCachedResults', () => {
+    it('should only return results cached from the same endpoint', () => {
+      const cache = createResultsCache(resultsDir);
+      cache.write(entry);
+      
+      expect(readCachedResults(cache, 'uuid-1', 'https://api.visionfi.com')).toEqual(entry);
+      expect(readCachedResults(cache, 'uuid-1', 'https://staging.visionfi.com')).toBeNull();
+    });
+  });
+  
+  describe('cacheResults', () => {
+    it('should skip responses without results', () => {
+      const cache = { read: jest.fn(), write: jest.fn() };
+      
+      cacheResults(cache, 'uuid-1', 'https://api.visionfi.com', { status: 'processing' });
+      
+      expect(cache.write).not.toHaveBeenCalled();
+    });
+    
+    it('should skip partial results of jobs that have not completed', () => {
+      const cache = { read: jest.fn(), write: jest.fn() };
+      
+      cacheResults(cache, 'uuid-1', 'https://api.visionfi.com', { status: 'processing', results: { total: 5 } });
+      cacheResults(cache, 'uuid-2', 'https://api.visionfi.com', { status: 'failed', results: { total: 5 } });
+      
+      expect(cache.write).not.toHaveBeenCalled();
+    });
+    
+    it('should ignore write failures', () => {
+      const cache = { read: jest.fn(), write: jest.fn(() => { throw new Error('disk full'); }) };
+      
+      expect(() => cacheResults(cache, 'uuid-1', 'https://api.visionfi.com', { results: { total: 10 } })).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import {
+  classifyError,
+  describeRetry,
+  parseRetryAfter,
+  parseRetryCount,
+  withRetries,
+  withRetry
+} from '../../src/utils/retry';
+
+const httpError = (status: number, headers: { [name: string]: string } = {}) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers } });
+
+const networkError = (code: string) => Object.assign(new Error(`read ${code}`), { code });
+
+describe('Retry Utilities', () => {
+  const NOW = 1_700_000_000_000;
+  const noJitter = () => 0.5;
+
+  describe('classifyError', () => {
+    it('should retry rate limiting, server errors and request timeouts', () => {
+      expect(classifyError(httpError(429))).toEqual({ retryable: true, reason: 'HTTP 429', status: 429 });
+      expect(classifyError(httpError(502)).retryable).toBe(true);
+      expect(classifyError(httpError(503)).retryable).toBe(true);
+      expect(classifyError(httpError(408)).retryable).toBe(true);
+    });
+
+    it('should not retry authentication or validation failures', () => {
+      expect(classifyError(httpError(401))).toEqual({ retryable: false, reason: 'HTTP 401', status: 401 });
+      expect(classifyError(httpError(403)).retryable).toBe(false);
+      expect(classifyError(httpError(400)).retryable).toBe(false);
+      expect(classifyError(httpError(422)).retryable).toBe(false);
+    });
+
+    it('should retry connection resets and timeouts', () => {
+      expect(classifyError(networkError('ECONNRESET'))).toEqual({ retryable: true, reason: 'ECONNRESET' });
+      expect(classifyError(networkError('ETIMEDOUT')).retryable).toBe(true);
+      expect(classifyError(new Error('socket hang up')).retryable).toBe(true);
+      expect(classifyError(new Error('timeout of 30000ms exceeded')).retryable).toBe(true);
+    });
+
+    it('should read the status from the error message or a status property', () => {
+      expect(classifyError(new Error('Request failed with status code 500')).status).toBe(500);
+      expect(classifyError(Object.assign(new Error('Unavailable'), { status: 503 })).retryable).toBe(true);
+      expect(classifyError(Object.assign(new Error('Bad request'), { statusCode: 400 })).retryable).toBe(false);
+    });
+
+    it('should not retry other errors', () => {
+      expect(classifyError(new Error('Invalid workflow key')).retryable).toBe(false);
+    });
+
+    it('should include the Retry-After delay', () => {
+      expect(classifyError(httpError(429, { 'Retry-After': '7' }), NOW).retryAfterMs).toBe(7000);
+      expect(classifyError(httpError(401, { 'retry-after': '7' }), NOW).retryAfterMs).toBeUndefined();
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      expect(parseRetryAfter('2', NOW)).toBe(2000);
+      expect(parseRetryAfter(new Date(NOW + 5000).toUTCString(), NOW)).toBe(5000);
+      expect(parseRetryAfter(new Date(NOW - 5000).toUTCString(), NOW)).toBe(0);
+    });
+
+    it('should ignore missing and invalid values', () => {
+      expect(parseRetryAfter(undefined, NOW)).toBeUndefined();
+      expect(parseRetryAfter('soon', NOW)).toBeUndefined();
+      expect(parseRetryAfter('-1', NOW)).toBeUndefined();
+    });
+  });
+
+  describe('parseRetryCount', () => {
+    it('should accept whole numbers of 0 or more', () => {
+      expect(parseRetryCount('0')).toBe(0);
+      expect(parseRetryCount(' 5 ')).toBe(5);
+      expect(parseRetryCount(2)).toBe(2);
+      expect(parseRetryCount(undefined)).toBeUndefined();
+    });
+
+    it('should reject other values', () => {
+      expect(parseRetryCount('-1')).toBeNull();
+      expect(parseRetryCount('1.5')).toBeNull();
+      expect(parseRetryCount('many')).toBeNull();
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry transient failures with exponential backoff', async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const onRetry = jest.fn();
+      const operation = jest.fn()
+        .mockRejectedValueOnce(networkError('ECONNRESET'))
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValue('ok');
+
+      await expect(withRetry(operation, { sleep, onRetry, random: noJitter })).resolves.toBe('ok');
+
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 2, retries: 3, delayMs: 2000, reason: 'HTTP 503' }));
+    });
+
+    it('should wait as long as Retry-After asks', async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const operation = jest.fn()
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '12' }))
+        .mockResolvedValue('ok');
+
+      await withRetry(operation, { sleep, now: () => NOW, random: noJitter });
+
+      expect(sleep).toHaveBeenCalledWith(12000);
+    });
+
+    it('should throw the last error once the retries run out', async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const operation = jest.fn().mockRejectedValue(httpError(500));
+
+      await expect(withRetry(operation, { retries: 2, sleep })).rejects.toThrow('status code 500');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry authentication failures', async () => {
+      const sleep = jest.fn().mockResolvedValue(undefined);
+      const operation = jest.fn().mockRejectedValue(httpError(401));
+
+      await expect(withRetry(operation, { sleep })).rejects.toThrow('status code 401');
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('withRetries', () => {
+    it('should retry the client\'s API calls', async () => {
+      const client = {
+        getResults: jest.fn().mockRejectedValueOnce(httpError(502)).mockResolvedValue({ status: 'processed' })
+      };
+
+      const wrapped = withRetries(client, { sleep: jest.fn().mockResolvedValue(undefined) });
+
+      await expect(wrapped.getResults('uuid-1')).resolves.toEqual({ status: 'processed' });
+      expect(client.getResults).toHaveBeenCalledTimes(2);
+      expect(client.getResults).toHaveBeenCalledWith('uuid-1');
+    });
+
+    it('should report the method being retried', async () => {
+      const onRetry = jest.fn();
+      const client = { verifyAuth: jest.fn().mockRejectedValueOnce(networkError('ETIMEDOUT')).mockResolvedValue({ data: true }) };
+
+      await withRetries(client, { sleep: jest.fn().mockResolvedValue(undefined), onRetry }).verifyAuth();
+
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ method: 'verifyAuth', reason: 'ETIMEDOUT' }));
+    });
+
+    it('should leave the client unchanged when retries are disabled', () => {
+      const client = { getResults: jest.fn() };
+
+      expect(withRetries(client, { retries: 0 })).toBe(client);
+    });
+  });
+
+  describe('describeRetry', () => {
+    it('should describe the failure and the wait', () => {
+      expect(describeRetry({ attempt: 1, retries: 3, delayMs: 1500, reason: 'HTTP 503', method: 'getResults', error: null }))
+        .toBe('getResults failed (HTTP 503); retrying in 1.5s (attempt 1 of 3).');
+    });
+  });
+});
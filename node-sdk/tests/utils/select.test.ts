@@ -0,0 +1,62 @@
+/**
+ * Tests for JSONPath-like result selectors
+ */
+
+import { parseSelector, applySelector, selectFields } from '../../src/utils/select';
+
+const RESULTS = {
+  total: 12.5,
+  borrower: { name: 'Ada', 'license number': 'D123' },
+  line_items: [{ sku: 'A1', amount: 5 }, { sku: 'B2', amount: 7.5 }, { sku: 'C3' }]
+};
+
+describe('Select', () => {
+  describe('parseSelector', () => {
+    it('should parse keys, indexes, quoted keys and wildcards', () => {
+      expect(parseSelector("$.line_items[-1]['sku']").tokens).toEqual([
+        { type: 'key', key: 'line_items' },
+        { type: 'index', index: -1 },
+        { type: 'key', key: 'sku' }
+      ]);
+      expect(parseSelector('line_items.*.amount').wildcard).toBe(true);
+    });
+
+    it('should accept a path without the leading $', () => {
+      expect(parseSelector('borrower.name').tokens).toEqual(parseSelector('$.borrower.name').tokens);
+    });
+
+    it('should reject malformed expressions', () => {
+      expect(() => parseSelector('items[')).toThrow('Invalid selector "items[": expected [index], [*] or [\'key\'] at position 6.');
+      expect(() => parseSelector('$..total')).toThrow('expected a field name');
+      expect(() => parseSelector('')).toThrow('expression is empty');
+    });
+  });
+
+  describe('applySelector', () => {
+    it('should return single values and wildcard matches', () => {
+      expect(applySelector(RESULTS, parseSelector('$.total'))).toBe(12.5);
+      expect(applySelector(RESULTS, parseSelector("borrower['license number']"))).toBe('D123');
+      expect(applySelector(RESULTS, parseSelector('line_items[*].amount'))).toEqual([5, 7.5]);
+    });
+
+    it('should explain which part of a missing path does not exist', () => {
+      expect(() => applySelector(RESULTS, parseSelector('borrower.age'))).toThrow(
+        'Path "borrower.age" not found in results: $.borrower: field "age" does not exist (available: name, license number).'
+      );
+      expect(() => applySelector(RESULTS, parseSelector('line_items[3]'))).toThrow(
+        'Path "line_items[3]" not found in results: $.line_items: index 3 is out of range (length 3).'
+      );
+      expect(() => applySelector(RESULTS, parseSelector('total.value'))).toThrow('$.total: it is a number, not an object');
+      expect(() => applySelector(RESULTS, parseSelector('line_items[*].tax'))).toThrow('field "tax" does not exist');
+    });
+  });
+
+  describe('selectFields', () => {
+    it('should map each expression to its value', () => {
+      expect(selectFields(RESULTS, [parseSelector('total'), parseSelector('borrower.name')])).toEqual({
+        total: 12.5,
+        'borrower.name': 'Ada'
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import {
+  createSessionStore,
+  getServiceAccountFingerprint,
+  getSessionPath,
+  isAuthError,
+  isSessionValid,
+  withSession
+} from '../../src/utils/session';
+import { CLIConfig } from '../../src/types/config';
+import { AuthSession } from '../../src/types/session';
+
+const NOW = Date.parse('2024-05-01T12:00:00.000Z');
+
+const authError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), {
+  response: { status }
+});
+
+describe('Session Utilities', () => {
+  let workDir: string;
+  let config: CLIConfig;
+
+  const createSession = (overrides: Partial<AuthSession> = {}): AuthSession => ({
+    service_account_path: config.service_account_path,
+    service_account_fingerprint: getServiceAccountFingerprint(config.service_account_path) as string,
+    api_endpoint: config.api_endpoint,
+    verified_at: NOW - 60 * 1000,
+    expires_at: NOW + 60 * 1000,
+    ...overrides
+  });
+
+  const createMemorySessionStore = (session: AuthSession | null = null) => {
+    let stored = session;
+    return {
+      read: jest.fn(() => stored),
+      write: jest.fn((next: AuthSession) => { stored = next; }),
+      clear: jest.fn(() => { stored = null; })
+    };
+  };
+
+  beforeEach(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-session-'));
+    const serviceAccountPath = path.join(workDir, 'service-account.json');
+    fs.writeFileSync(serviceAccountPath, '{"type": "service_account"}');
+    config = {
+      service_account_path: serviceAccountPath,
+      api_endpoint: 'https://api.visionfi.com',
+      recent_uuids: [],
+      debug_mode: false,
+      test_mode: false,
+      workflow_cache_ttl: 3600,
+      session_ttl: 900
+    };
+  });
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('createSessionStore', () => {
+    it('should write, read and clear the session file', () => {
+      const store = createSessionStore(workDir);
+      const session = createSession();
+
+      store.write(session);
+      expect(fs.existsSync(getSessionPath(workDir))).toBe(true);
+      expect(store.read()).toEqual(session);
+
+      store.clear();
+      expect(store.read()).toBeNull();
+    });
+
+    it('should treat a corrupt session file as no session', () => {
+      fs.writeFileSync(getSessionPath(workDir), '{ not json');
+
+      expect(createSessionStore(workDir).read()).toBeNull();
+    });
+  });
+
+  describe('isSessionValid', () => {
+    it('should only accept unexpired sessions for the same key file and endpoint', () => {
+      const fingerprint = getServiceAccountFingerprint(config.service_account_path);
+
+      expect(isSessionValid(createSession(), config, fingerprint, NOW)).toBe(true);
+      expect(isSessionValid(null, config, fingerprint, NOW)).toBe(false);
+      expect(isSessionValid(createSession({ expires_at: NOW }), config, fingerprint, NOW)).toBe(false);
+      expect(isSessionValid(createSession({ api_endpoint: 'https://staging.example.com' }), config, fingerprint, NOW)).toBe(false);
+      expect(isSessionValid(createSession({ service_account_fingerprint: '1:2' }), config, fingerprint, NOW)).toBe(false);
+      expect(isSessionValid(createSession(), config, null, NOW)).toBe(false);
+    });
+  });
+
+  describe('isAuthError', () => {
+    it('should recognize rejected credentials', () => {
+      expect(isAuthError(authError(401))).toBe(true);
+      expect(isAuthError({ status: 403 })).toBe(true);
+      expect(isAuthError(authError(404))).toBe(false);
+      expect(isAuthError(new Error('socket hang up'))).toBe(false);
+    });
+  });
+
+  describe('withSession', () => {
+    it('should skip verification while the session is valid', async () => {
+      const client = { verifyAuth: jest.fn().mockResolvedValue({ data: true }) };
+      const sessionStore = createMemorySessionStore(createSession());
+
+      const result = await withSession(client, config, { sessionStore, now: () => NOW }).verifyAuth();
+
+      expect(result).toEqual({ data: true });
+      expect(client.verifyAuth).not.toHaveBeenCalled();
+    });
+
+    it('should verify and save a session when there is none', async () => {
+      const client = { verifyAuth: jest.fn().mockResolvedValue({ data: true }) };
+      const sessionStore = createMemorySessionStore();
+      const wrapped = withSession(client, config, { sessionStore, now: () => NOW });
+
+      await wrapped.verifyAuth();
+      await wrapped.verifyAuth();
+
+      expect(client.verifyAuth).toHaveBeenCalledTimes(1);
+      expect(sessionStore.write).toHaveBeenCalledWith(createSession({
+        verified_at: NOW,
+        expires_at: NOW + 900 * 1000
+      }));
+    });
+
+    it('should verify again after the key file changes', async () => {
+      const client = { verifyAuth: jest.fn().mockResolvedValue({ data: true }) };
+      const sessionStore = createMemorySessionStore(createSession());
+      fs.writeFileSync(config.service_account_path, '{"type": "service_account", "rotated": true}');
+
+      await withSession(client, config, { sessionStore, now: () => NOW }).verifyAuth();
+
+      expect(client.verifyAuth).toHaveBeenCalledTimes(1);
+    });
+
+    it('should always verify when forced or when sessions are disabled', async () => {
+      const client = { verifyAuth: jest.fn().mockResolvedValue({ data: true }) };
+      const sessionStore = createMemorySessionStore(createSession());
+
+      await withSession(client, config, { sessionStore, now: () => NOW, force: true }).verifyAuth();
+      await withSession(client, { ...config, session_ttl: 0 }, { sessionStore, now: () => NOW }).verifyAuth();
+
+      expect(client.verifyAuth).toHaveBeenCalledTimes(2);
+      expect(sessionStore.clear).toHaveBeenCalledTimes(1);
+    });
+
+    it('should end the session when verification fails', async () => {
+      const client = { verifyAuth: jest.fn().mockResolvedValue({ data: false }) };
+      const sessionStore = createMemorySessionStore(createSession({ expires_at: NOW - 1 }));
+
+      await expect(withSession(client, config, { sessionStore, now: () => NOW }).verifyAuth())
+        .resolves.toEqual({ data: false });
+      expect(sessionStore.clear).toHaveBeenCalled();
+      expect(sessionStore.write).not.toHaveBeenCalled();
+    });
+
+    it('should authenticate again and repeat a call rejected with an auth error', async () => {
+      const client = {
+        verifyAuth: jest.fn().mockResolvedValue({ data: true }),
+        getResults: jest.fn()
+          .mockRejectedValueOnce(authError(401))
+          .mockResolvedValueOnce({ status: 'processed' })
+      };
+      const sessionStore = createMemorySessionStore(createSession());
+
+      const result = await withSession(client, config, { sessionStore, now: () => NOW }).getResults('uuid-1');
+
+      expect(result).toEqual({ status: 'processed' });
+      expect(client.verifyAuth).toHaveBeenCalledTimes(1);
+      expect(client.getResults).toHaveBeenCalledTimes(2);
+      expect(sessionStore.read()?.verified_at).toBe(NOW);
+    });
+
+    it('should rethrow the original error when authenticating again fails', async () => {
+      const rejected = authError(403);
+      const client = {
+        verifyAuth: jest.fn().mockRejectedValue(new Error('invalid_grant')),
+        getResults: jest.fn().mockRejectedValue(rejected)
+      };
+      const sessionStore = createMemorySessionStore(createSession());
+
+      await expect(withSession(client, config, { sessionStore, now: () => NOW }).getResults('uuid-1'))
+        .rejects.toBe(rejected);
+      expect(client.getResults).toHaveBeenCalledTimes(1);
+      expect(sessionStore.read()).toBeNull();
+    });
+
+    it('should not authenticate again for other errors', async () => {
+      const client = {
+        verifyAuth: jest.fn(),
+        getResults: jest.fn().mockRejectedValue(authError(404))
+      };
+
+      await expect(withSession(client, config, { sessionStore: createMemorySessionStore() }).getResults('uuid-1'))
+        .rejects.toThrow('status code 404');
+      expect(client.verifyAuth).not.toHaveBeenCalled();
+    });
+  });
+});
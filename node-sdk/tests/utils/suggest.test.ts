@@ -0,0 +1,36 @@
+/**
+ * Tests for edit distance suggestions
+ */
+
+import { editDistance, findClosestMatch } from '../../src/utils/suggest';
+
+describe('Suggestions', () => {
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('invoice', 'invoice')).toBe(0);
+      expect(editDistance('invoice', 'invoices')).toBe(1);
+      expect(editDistance('invoice', 'invice')).toBe(1);
+      expect(editDistance('invoice', 'invoise')).toBe(1);
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+  });
+
+  describe('findClosestMatch', () => {
+    const candidates = ['auto_loan_abstract', 'bank_statement', 'invoice'];
+
+    it('should return the closest candidate', () => {
+      expect(findClosestMatch('bank_statment', candidates)).toBe('bank_statement');
+      expect(findClosestMatch('auto_loan_abstact', candidates)).toBe('auto_loan_abstract');
+    });
+
+    it('should ignore case', () => {
+      expect(findClosestMatch('INVOICE', candidates)).toBe('invoice');
+    });
+
+    it('should return undefined when nothing is close', () => {
+      expect(findClosestMatch('payroll', candidates)).toBeUndefined();
+      expect(findClosestMatch('anything', [])).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for regression suite loading, expectations and JUnit output
+ */
+
+import * as path from 'path';
+import { loadTestSuite, checkExpectations, toJUnitXml } from '../../src/utils/test-suite';
+import { TestRunCommandResult } from '../../src/types/test-suite';
+
+const readerFor = (content: any) => ({
+  readFileSync: jest.fn(() => typeof content === 'string' ? content : JSON.stringify(content))
+});
+
+describe('Test Suite Utilities', () => {
+  describe('loadTestSuite', () => {
+    it('should resolve case files against the suite\'s baseDir', () => {
+      const suite = loadTestSuite('/suites/invoices.json', readerFor({
+        workflow: 'invoice',
+        baseDir: '../common/files',
+        cases: [{ file: 'invoices/Sample Invoice 1.pdf', expect: { total: 10 } }]
+      }));
+
+      expect(suite.cases[0].file).toBe(path.resolve('/common/files/invoices/Sample Invoice 1.pdf'));
+    });
+
+    it('should name the case and field when a suite is invalid', () => {
+      expect(() => loadTestSuite('/s.json', readerFor({ cases: [] }))).toThrow('must be an object with a non-empty "cases" array');
+      expect(() => loadTestSuite('/s.json', readerFor({ cases: [{ name: 'first', file: 'a.pdf', expect: { total: 1 } }] })))
+        .toThrow('Suite /s.json, case 1 ("first"): no "workflow" given for the case or the suite.');
+      expect(() => loadTestSuite('/s.json', readerFor({ workflow: 'w', cases: [{ file: 'a.pdf', expect: { 'items[': 1 } }] })))
+        .toThrow('Suite /s.json, case 1: Invalid selector "items["');
+      expect(() => loadTestSuite('/s.json', readerFor('{ nope'))).toThrow('Cannot read suite /s.json');
+    });
+  });
+
+  describe('checkExpectations', () => {
+    const results = { total: 10, vendor: { name: 'Acme Corp' }, items: [{ sku: 'A' }] };
+
+    it('should pass matching values, patterns and presence checks', () => {
+      expect(checkExpectations(results, {
+        total: 10,
+        'vendor.name': { pattern: '^acme', flags: 'i' },
+        'items[0]': { equals: { sku: 'A' } },
+        'vendor.id': { exists: false },
+        '$.items[*].sku': ['A']
+      })).toEqual([]);
+    });
+
+    it('should describe every mismatch', () => {
+      expect(checkExpectations(results, {
+        total: 12,
+        'vendor.name': { pattern: '^Globex' },
+        'vendor.id': { exists: true },
+        items: { exists: false }
+      })).toEqual([
+        'total: expected 12, got 10',
+        'vendor.name: expected to match /^Globex/, got "Acme Corp"',
+        'vendor.id: Path "vendor.id" not found in results: $.vendor: field "id" does not exist (available: name).',
+        'items: expected the field to be absent, got [{"sku":"A"}]'
+      ]);
+    });
+  });
+
+  describe('toJUnitXml', () => {
+    it('should report failures and errors per case', () => {
+      const result: TestRunCommandResult = {
+        success: false,
+        message: '1 of 3 cases passed',
+        exitCode: 1,
+        suite: 'Invoices & IDs',
+        cases: [
+          { name: 'one', file: '/a.pdf', workflow: 'invoice', outcome: 'passed', durationMs: 1500, failures: [] },
+          { name: 'two', file: '/b.pdf', workflow: 'invoice', outcome: 'failed', durationMs: 2000, uuid: 'u-2', failures: ['total: expected 1, got <2>'] },
+          { name: 'three', file: '/c.pdf', workflow: 'invoice', outcome: 'error', durationMs: 0, failures: ['Authentication failed.'] }
+        ],
+        passed: 1,
+        failed: 1,
+        errors: 1,
+        durationMs: 3500
+      };
+
+      const xml = toJUnitXml(result, new Date('2024-03-01T00:00:00.000Z'));
+
+      expect(xml).toContain('<testsuite name="Invoices &amp; IDs" tests="3" failures="1" errors="1" skipped="0" time="3.500" timestamp="2024-03-01T00:00:00.000Z">');
+      expect(xml).toContain('<testcase name="one" classname="invoice" time="1.500"/>');
+      expect(xml).toContain('<failure message="total: expected 1, got &lt;2&gt;">total: expected 1, got &lt;2&gt;</failure>');
+      expect(xml).toContain('<system-out>Job u-2</system-out>');
+      expect(xml).toContain('<error message="Authentication failed.">Authentication failed.</error>');
+    });
+  });
+});
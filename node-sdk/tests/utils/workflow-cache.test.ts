@@ -0,0 +1,77 @@
+/**
+ * Tests for the file-backed workflow cache
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createWorkflowCache,
+  getWorkflowCachePath,
+  getWorkflowCacheState,
+  WORKFLOW_CACHE_MAX_STALE
+} from '../../src/utils/workflow-cache';
+
+const ENDPOINT = 'https://platform.visionfi.ai/api/v1';
+
+describe('Workflow Cache', () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'visionfi-workflow-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('createWorkflowCache', () => {
+    it('should return null when nothing is cached', () => {
+      expect(createWorkflowCache(ENDPOINT, cacheDir).read()).toBeNull();
+    });
+
+    it('should write, read and clear an entry', () => {
+      const cache = createWorkflowCache(ENDPOINT, cacheDir);
+      const entry = {
+        api_endpoint: ENDPOINT,
+        cached_at: 1000,
+        workflows: [{ workflow_key: 'a', description: 'A' }]
+      };
+
+      cache.write(entry);
+      expect(cache.read()).toEqual(entry);
+      expect(fs.readdirSync(cacheDir)).toEqual([path.basename(getWorkflowCachePath(ENDPOINT, cacheDir))]);
+
+      cache.clear();
+      expect(cache.read()).toBeNull();
+    });
+
+    it('should keep separate entries per endpoint', () => {
+      createWorkflowCache(ENDPOINT, cacheDir).write({ api_endpoint: ENDPOINT, cached_at: 1000, workflows: [] });
+
+      expect(createWorkflowCache('https://staging.example.com', cacheDir).read()).toBeNull();
+      expect(getWorkflowCachePath(ENDPOINT, cacheDir)).not.toBe(getWorkflowCachePath('https://staging.example.com', cacheDir));
+    });
+
+    it('should treat a corrupt cache file as empty', () => {
+      fs.writeFileSync(getWorkflowCachePath(ENDPOINT, cacheDir), '{ not json');
+
+      expect(createWorkflowCache(ENDPOINT, cacheDir).read()).toBeNull();
+    });
+  });
+
+  describe('getWorkflowCacheState', () => {
+    const NOW = 1_700_000_000_000;
+
+    it('should report missing, fresh, stale and expired entries', () => {
+      expect(getWorkflowCacheState(undefined, 300, NOW)).toBe('missing');
+      expect(getWorkflowCacheState(NOW - 300 * 1000, 300, NOW)).toBe('fresh');
+      expect(getWorkflowCacheState(NOW - 301 * 1000, 300, NOW)).toBe('stale');
+      expect(getWorkflowCacheState(NOW - 301 * 1000 - WORKFLOW_CACHE_MAX_STALE, 300, NOW)).toBe('expired');
+    });
+
+    it('should treat every entry as expired when the TTL is 0', () => {
+      expect(getWorkflowCacheState(NOW, 0, NOW)).toBe('expired');
+    });
+  });
+});